@@ -0,0 +1,51 @@
+-- ============================================================================
+-- CHAT PRESENCE: LAST SEEN
+-- ============================================================================
+-- Who's online and who's typing comes from Realtime presence and never
+-- touches the database. What presence can't tell you is when a partner who
+-- isn't here now was last around, so the chat pages stamp that through
+-- public.mark_chat_seen() when they open and close.
+-- Run this in your Supabase SQL editor after add_spectator_chat.sql
+-- Safe to run multiple times (uses IF NOT EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- COLUMNS
+-- -----------------------
+ALTER TABLE public.rp_session_participants
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+
+ALTER TABLE public.dm_threads
+ADD COLUMN IF NOT EXISTS user_a_last_seen_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS user_b_last_seen_at TIMESTAMPTZ;
+
+-- -----------------------
+-- MARK SEEN
+-- -----------------------
+-- Pass either a session or a DM thread. Only ever stamps the caller's own row.
+CREATE OR REPLACE FUNCTION public.mark_chat_seen(p_session_id UUID DEFAULT NULL, p_thread_id UUID DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  me UUID := auth.uid();
+BEGIN
+  IF me IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_session_id IS NOT NULL THEN
+    UPDATE public.rp_session_participants
+    SET last_seen_at = NOW()
+    WHERE session_id = p_session_id AND user_id = me;
+  END IF;
+
+  IF p_thread_id IS NOT NULL THEN
+    UPDATE public.dm_threads
+    SET user_a_last_seen_at = CASE WHEN user_a = me THEN NOW() ELSE user_a_last_seen_at END,
+        user_b_last_seen_at = CASE WHEN user_b = me THEN NOW() ELSE user_b_last_seen_at END
+    WHERE id = p_thread_id AND me IN (user_a, user_b);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.mark_chat_seen(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_chat_seen(UUID, UUID) TO authenticated;
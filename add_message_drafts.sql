@@ -0,0 +1,110 @@
+-- ============================================================================
+-- COMPOSER DRAFTS
+-- ============================================================================
+-- Unsent composer text, saved per user per session or DM thread so a long
+-- post survives a crashed tab and follows the writer to another device. The
+-- chat pages autosave through public.save_message_draft() and clear the draft
+-- once the message is sent. Drafts are private to their writer.
+-- Run this in your Supabase SQL editor after add_message_search.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- TABLE
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.message_drafts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES public.dm_threads(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 20000),
+  -- Session composer mode the draft was written in (ooc, narration, roll)
+  message_type TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (num_nonnulls(session_id, thread_id) = 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS message_drafts_user_session_idx
+  ON public.message_drafts (user_id, session_id)
+  WHERE session_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS message_drafts_user_thread_idx
+  ON public.message_drafts (user_id, thread_id)
+  WHERE thread_id IS NOT NULL;
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+-- Reads and deletes only; writes go through save_message_draft()
+ALTER TABLE public.message_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "message_drafts_select_own" ON public.message_drafts;
+CREATE POLICY "message_drafts_select_own"
+  ON public.message_drafts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "message_drafts_delete_own" ON public.message_drafts;
+CREATE POLICY "message_drafts_delete_own"
+  ON public.message_drafts FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- -----------------------
+-- SAVE DRAFT
+-- -----------------------
+-- Pass either a session or a DM thread. Saves the caller's draft there, or
+-- removes it when the body is blank. Only for chats the caller writes in.
+CREATE OR REPLACE FUNCTION public.save_message_draft(
+  p_session_id UUID DEFAULT NULL,
+  p_thread_id UUID DEFAULT NULL,
+  p_body TEXT DEFAULT NULL,
+  p_message_type TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  me UUID := auth.uid();
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF num_nonnulls(p_session_id, p_thread_id) <> 1 THEN
+    RAISE EXCEPTION 'Pass either a session or a thread';
+  END IF;
+
+  IF p_session_id IS NOT NULL AND NOT public.is_session_participant(p_session_id) THEN
+    RAISE EXCEPTION 'You are not writing in this session';
+  END IF;
+
+  IF p_thread_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.dm_threads
+    WHERE id = p_thread_id AND me IN (user_a, user_b)
+  ) THEN
+    RAISE EXCEPTION 'You are not in this conversation';
+  END IF;
+
+  IF COALESCE(btrim(p_body), '') = '' THEN
+    DELETE FROM public.message_drafts
+    WHERE user_id = me
+      AND session_id IS NOT DISTINCT FROM p_session_id
+      AND thread_id IS NOT DISTINCT FROM p_thread_id;
+    RETURN;
+  END IF;
+
+  IF p_session_id IS NOT NULL THEN
+    INSERT INTO public.message_drafts (user_id, session_id, body, message_type)
+    VALUES (me, p_session_id, p_body, p_message_type)
+    ON CONFLICT (user_id, session_id) WHERE session_id IS NOT NULL
+    DO UPDATE SET body = EXCLUDED.body, message_type = EXCLUDED.message_type, updated_at = NOW();
+  ELSE
+    INSERT INTO public.message_drafts (user_id, thread_id, body, message_type)
+    VALUES (me, p_thread_id, p_body, p_message_type)
+    ON CONFLICT (user_id, thread_id) WHERE thread_id IS NOT NULL
+    DO UPDATE SET body = EXCLUDED.body, message_type = EXCLUDED.message_type, updated_at = NOW();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.save_message_draft(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_message_draft(UUID, UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,161 @@
+-- ============================================================================
+-- MESSAGE REACTIONS
+-- ============================================================================
+-- Emoji reactions on session messages and DMs, in one table. Each row points
+-- at exactly one parent message and carries that message's session or thread
+-- id, so the page can filter its realtime subscription on it.
+--
+-- Sessions: writers react as participants. On public sessions, signed-in
+-- spectators can react to what they can see (narration and rolls); their
+-- reactions are flagged is_spectator and shown apart from the writers'.
+-- DMs: either side of the thread.
+-- Run this in your Supabase SQL editor after add_session_message_revisions.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- REACTIONS TABLE
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_message_id UUID REFERENCES public.rp_session_messages(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  dm_message_id UUID REFERENCES public.dm_messages(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES public.dm_threads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  is_spectator BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT message_reactions_parent_check CHECK (
+    (session_message_id IS NOT NULL AND session_id IS NOT NULL AND dm_message_id IS NULL AND thread_id IS NULL) OR
+    (dm_message_id IS NOT NULL AND thread_id IS NOT NULL AND session_message_id IS NULL AND session_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS message_reactions_session_unique
+  ON public.message_reactions (session_message_id, user_id, emoji)
+  WHERE session_message_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS message_reactions_dm_unique
+  ON public.message_reactions (dm_message_id, user_id, emoji)
+  WHERE dm_message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS message_reactions_thread_idx
+  ON public.message_reactions (thread_id)
+  WHERE thread_id IS NOT NULL;
+
+-- -----------------------
+-- PARENT CHECKS
+-- -----------------------
+-- Fill in the parent's session/thread id (so clients can't point a reaction
+-- somewhere else) and work out whether a session reaction is a spectator's
+CREATE OR REPLACE FUNCTION prepare_message_reaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_type TEXT;
+  parent_deleted TIMESTAMPTZ;
+BEGIN
+  IF NEW.session_message_id IS NOT NULL THEN
+    SELECT session_id, message_type, deleted_at INTO NEW.session_id, parent_type, parent_deleted
+    FROM public.rp_session_messages
+    WHERE id = NEW.session_message_id;
+
+    IF parent_type IS NULL OR parent_type NOT IN ('ooc', 'narration', 'roll') OR parent_deleted IS NOT NULL THEN
+      RAISE EXCEPTION 'You can''t react to that message';
+    END IF;
+
+    NEW.is_spectator := NOT public.is_session_participant(NEW.session_id);
+  ELSIF NEW.dm_message_id IS NOT NULL THEN
+    SELECT thread_id INTO NEW.thread_id
+    FROM public.dm_messages
+    WHERE id = NEW.dm_message_id;
+    NEW.is_spectator := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_message_reaction_trigger ON public.message_reactions;
+CREATE TRIGGER prepare_message_reaction_trigger
+  BEFORE INSERT ON public.message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_message_reaction();
+
+-- Can the current user see the DM thread? (mirrors the dm_threads policies)
+CREATE OR REPLACE FUNCTION public.is_dm_participant(p_thread_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.dm_threads t
+    WHERE t.id = p_thread_id
+      AND auth.uid() IN (t.user_a, t.user_b)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Same audience as the messages: writers see everything, public viewers see
+-- reactions on the story messages they can read
+DROP POLICY IF EXISTS "message_reactions_select" ON public.message_reactions;
+CREATE POLICY "message_reactions_select"
+  ON public.message_reactions FOR SELECT
+  TO authenticated, anon
+  USING (
+    (session_id IS NOT NULL AND (
+      public.is_session_participant(session_id, true)
+      OR EXISTS (
+        SELECT 1
+        FROM public.rp_session_messages m
+        JOIN public.rp_sessions s ON s.id = m.session_id
+        WHERE m.id = message_reactions.session_message_id
+          AND s.is_public = true
+          AND m.message_type IN ('narration', 'roll')
+      )
+    ))
+    OR (thread_id IS NOT NULL AND public.is_dm_participant(thread_id))
+  );
+
+-- Current writers react to anything; spectators only to public story messages
+DROP POLICY IF EXISTS "message_reactions_insert" ON public.message_reactions;
+CREATE POLICY "message_reactions_insert"
+  ON public.message_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      (session_id IS NOT NULL AND (
+        public.is_session_participant(session_id)
+        OR EXISTS (
+          SELECT 1
+          FROM public.rp_session_messages m
+          JOIN public.rp_sessions s ON s.id = m.session_id
+          WHERE m.id = message_reactions.session_message_id
+            AND s.is_public = true
+            AND m.message_type IN ('narration', 'roll')
+        )
+      ))
+      OR (thread_id IS NOT NULL AND public.is_dm_participant(thread_id))
+    )
+  );
+
+DROP POLICY IF EXISTS "message_reactions_delete_own" ON public.message_reactions;
+CREATE POLICY "message_reactions_delete_own"
+  ON public.message_reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- -----------------------
+-- REALTIME
+-- -----------------------
+-- Both chat pages add reaction events to their message channels
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+  END IF;
+END $$;
@@ -0,0 +1,166 @@
+-- ============================================================================
+-- MESSAGE SEARCH
+-- ============================================================================
+-- Full-text search over session transcripts and DMs. Each message table gets
+-- a generated tsvector column with a GIN index, and public.search_messages()
+-- queries both at once.
+--
+-- search_messages() runs with the caller's rights, so the existing RLS on
+-- rp_session_messages, dm_messages and friends decides what can be found: your
+-- own sessions and DMs, plus public sessions. OOC chat in someone else's
+-- public session is left out, the same as on the public view.
+-- Run this in your Supabase SQL editor after add_session_lore.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SEARCH COLUMNS
+-- -----------------------
+ALTER TABLE public.rp_session_messages
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(body, ''))) STORED;
+
+ALTER TABLE public.dm_messages
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(body, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS rp_session_messages_search_idx
+  ON public.rp_session_messages USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS dm_messages_search_idx
+  ON public.dm_messages USING GIN (search_vector);
+
+-- -----------------------
+-- SEARCH FUNCTION
+-- -----------------------
+-- p_query uses web-search syntax ("exact phrase", -exclude, or). Filters are
+-- optional:
+--   p_source       'session' or 'dm'
+--   p_session_id   one session
+--   p_partner_id   sessions that writer is in, or your DM thread with them
+--   p_character_id posts voiced by that character (sessions only)
+--   p_message_type a session message type, or 'dm'
+--   p_from / p_to  created_at range
+-- Snippets wrap matches in <mark>…</mark>; they're plain text otherwise.
+-- Best match first, newest first among equals.
+DROP FUNCTION IF EXISTS public.search_messages(TEXT, TEXT, UUID, UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER);
+CREATE FUNCTION public.search_messages(
+  p_query TEXT,
+  p_source TEXT DEFAULT NULL,
+  p_session_id UUID DEFAULT NULL,
+  p_partner_id UUID DEFAULT NULL,
+  p_character_id UUID DEFAULT NULL,
+  p_message_type TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  source TEXT,
+  message_id UUID,
+  session_id UUID,
+  thread_id UUID,
+  session_name TEXT,
+  partner_id UUID,
+  sender_id UUID,
+  character_id UUID,
+  npc_id UUID,
+  message_type TEXT,
+  created_at TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  hits AS (
+    SELECT
+      'session'::TEXT AS source,
+      m.id AS message_id,
+      m.session_id,
+      NULL::UUID AS thread_id,
+      s.name AS session_name,
+      NULL::UUID AS partner_id,
+      m.sender_id,
+      m.character_id,
+      m.npc_id,
+      m.message_type,
+      m.created_at,
+      m.body,
+      ts_rank(m.search_vector, q.query) AS rank
+    FROM public.rp_session_messages m
+    JOIN public.rp_sessions s ON s.id = m.session_id
+    CROSS JOIN q
+    WHERE COALESCE(p_source, 'session') = 'session'
+      AND m.search_vector @@ q.query
+      AND m.deleted_at IS NULL
+      AND (m.message_type <> 'ooc' OR public.is_session_participant(m.session_id, true))
+      AND (p_session_id IS NULL OR m.session_id = p_session_id)
+      AND (p_character_id IS NULL OR m.character_id = p_character_id)
+      AND (p_message_type IS NULL OR m.message_type = p_message_type)
+      AND (
+        p_partner_id IS NULL OR EXISTS (
+          SELECT 1 FROM public.rp_session_participants p
+          WHERE p.session_id = m.session_id
+            AND p.user_id = p_partner_id
+            AND p.invite_status = 'accepted'
+        )
+      )
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      'dm'::TEXT,
+      m.id,
+      NULL::UUID,
+      m.thread_id,
+      NULL::TEXT,
+      CASE WHEN t.user_a = auth.uid() THEN t.user_b ELSE t.user_a END,
+      m.sender_id,
+      NULL::UUID,
+      NULL::UUID,
+      'dm'::TEXT,
+      m.created_at,
+      m.body,
+      ts_rank(m.search_vector, q.query)
+    FROM public.dm_messages m
+    JOIN public.dm_threads t ON t.id = m.thread_id
+    CROSS JOIN q
+    WHERE COALESCE(p_source, 'dm') = 'dm'
+      AND p_session_id IS NULL
+      AND p_character_id IS NULL
+      AND COALESCE(p_message_type, 'dm') = 'dm'
+      AND m.search_vector @@ q.query
+      AND (p_partner_id IS NULL OR p_partner_id IN (t.user_a, t.user_b))
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+  )
+  SELECT
+    h.source,
+    h.message_id,
+    h.session_id,
+    h.thread_id,
+    h.session_name,
+    h.partner_id,
+    h.sender_id,
+    h.character_id,
+    h.npc_id,
+    h.message_type,
+    h.created_at,
+    ts_headline(
+      'english', h.body, q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2'
+    ),
+    h.rank
+  FROM hits h
+  CROSS JOIN q
+  ORDER BY h.rank DESC, h.created_at DESC, h.message_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.search_messages(TEXT, TEXT, UUID, UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_messages(TEXT, TEXT, UUID, UUID, UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- PROFILE CHANGES OVER REALTIME
+-- ============================================================================
+-- Chat views cache writer and character names/portraits (lib/profiles.ts)
+-- and patch the cache when a profile is edited, so both tables need to be
+-- in the realtime publication. Clients filter their subscription to the rows
+-- they have cached and ignore changes other than name and portrait.
+-- Run this in your Supabase SQL editor
+-- Safe to run multiple times
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'writers'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.writers;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'characters'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.characters;
+  END IF;
+END $$;
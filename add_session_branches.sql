@@ -0,0 +1,128 @@
+-- ============================================================================
+-- SESSION BRANCHES
+-- ============================================================================
+-- "What if" forks: public.branch_session() starts a new session from any
+-- message, copying the transcript up to and including it. The branch records
+-- the session and message it came from and carries on independently; the
+-- original is untouched. Copied messages are flagged as imported, so they
+-- count as history for response times and turn rules.
+-- Run this in your Supabase SQL editor after add_session_sequels.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- COLUMNS
+-- -----------------------
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS branched_from_session_id UUID REFERENCES public.rp_sessions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS branched_from_message_id UUID REFERENCES public.rp_session_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS rp_sessions_branched_from_session_id_idx
+  ON public.rp_sessions (branched_from_session_id)
+  WHERE branched_from_session_id IS NOT NULL;
+
+-- -----------------------
+-- BRANCH FUNCTION
+-- -----------------------
+-- The caller owns the branch; the other current writers are invited and their
+-- characters come along, so they can accept without picking again. A branch
+-- with nobody else in it starts active. Returns the new session id.
+CREATE OR REPLACE FUNCTION public.branch_session(p_message_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  origin_message RECORD;
+  origin RECORD;
+  writer_ids UUID[];
+  branch_id UUID;
+BEGIN
+  SELECT id, session_id, created_at, deleted_at INTO origin_message
+  FROM public.rp_session_messages
+  WHERE id = p_message_id;
+
+  IF origin_message.id IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF origin_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You can''t branch from a deleted message';
+  END IF;
+
+  IF NOT public.is_session_participant(origin_message.session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can branch it';
+  END IF;
+
+  SELECT id, name, style, is_public, status, turn_order INTO origin
+  FROM public.rp_sessions
+  WHERE id = origin_message.session_id;
+
+  IF origin.status NOT IN ('active', 'paused', 'closed') THEN
+    RAISE EXCEPTION 'Only sessions that got under way can be branched';
+  END IF;
+
+  SELECT array_agg(user_id ORDER BY (user_id = me) DESC, joined_at)
+  INTO writer_ids
+  FROM public.rp_session_participants
+  WHERE session_id = origin.id
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  -- Reminders start counting from the next live post
+  INSERT INTO public.rp_sessions (
+    created_by, status, name, style, is_public, turn_order,
+    branched_from_session_id, branched_from_message_id, reminder_sent_at
+  )
+  VALUES (
+    me,
+    CASE WHEN cardinality(writer_ids) > 1 THEN 'pending' ELSE 'active' END,
+    COALESCE(NULLIF(btrim(p_name), ''), origin.name),
+    origin.style,
+    origin.is_public,
+    origin.turn_order,
+    origin.id,
+    origin_message.id,
+    NOW()
+  )
+  RETURNING id INTO branch_id;
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT
+    branch_id,
+    w.id,
+    CASE WHEN w.id = me THEN 'owner' ELSE 'writer' END,
+    CASE WHEN w.id = me THEN 'accepted' ELSE 'pending' END,
+    me
+  FROM unnest(writer_ids) WITH ORDINALITY AS w(id, position)
+  ORDER BY position;
+
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT branch_id, sc.character_id
+  FROM public.rp_session_characters sc
+  JOIN public.characters c ON c.id = sc.character_id
+  WHERE sc.session_id = origin.id
+    AND c.user_id = ANY (writer_ids)
+  ON CONFLICT (session_id, character_id) DO NOTHING;
+
+  -- The transcript up to and including the chosen message, in page order
+  INSERT INTO public.rp_session_messages (
+    session_id, sender_id, character_id, message_type, body, created_at,
+    edited_at, deleted_at, roll_result, scene_kind, imported
+  )
+  SELECT
+    branch_id, m.sender_id, m.character_id, m.message_type, m.body, m.created_at,
+    m.edited_at, m.deleted_at, m.roll_result, m.scene_kind, true
+  FROM public.rp_session_messages m
+  WHERE m.session_id = origin.id
+    AND (m.created_at, m.id) <= (origin_message.created_at, origin_message.id)
+  ORDER BY m.created_at, m.id;
+
+  UPDATE public.rp_sessions
+  SET last_message_at = origin_message.created_at
+  WHERE id = branch_id;
+
+  RETURN branch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.branch_session(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.branch_session(UUID, TEXT) TO authenticated;
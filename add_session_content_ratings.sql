@@ -0,0 +1,273 @@
+-- ============================================================================
+-- CONTENT RATINGS AND WARNINGS
+-- ============================================================================
+-- Public sessions carry a rating and content-warning tags, so nobody walks
+-- into mature content by accident:
+--   * rp_sessions.content_rating ('sfw', 'mature', 'explicit') and
+--     rp_sessions.content_warnings are chosen when the session is started and
+--     can be changed later by its writers.
+--   * writers.content_max_rating and writers.hidden_content_warnings are each
+--     viewer's preferences. Public listings leave out sessions above the
+--     viewer's rating or tagged with a warning they've hidden, and spectators
+--     click through a warning before the transcript is shown.
+--   * Sequels, branches and imports carry a rating too, so nothing starts out
+--     as SFW by accident.
+-- Run this in your Supabase SQL editor after add_session_schedule.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SESSION RATING
+-- -----------------------
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS content_rating TEXT NOT NULL DEFAULT 'sfw',
+ADD COLUMN IF NOT EXISTS content_warnings TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_content_rating_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_content_rating_check
+CHECK (content_rating IN ('sfw', 'mature', 'explicit'));
+
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_content_warnings_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_content_warnings_check
+CHECK (cardinality(content_warnings) <= 20);
+
+-- Public listings filter on the rating
+CREATE INDEX IF NOT EXISTS rp_sessions_public_rating_idx
+  ON public.rp_sessions (content_rating)
+  WHERE is_public = true;
+
+-- -----------------------
+-- VIEWER PREFERENCES
+-- -----------------------
+-- Explicit sessions stay out of listings until a writer opts in
+ALTER TABLE public.writers
+ADD COLUMN IF NOT EXISTS content_max_rating TEXT NOT NULL DEFAULT 'mature',
+ADD COLUMN IF NOT EXISTS hidden_content_warnings TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.writers DROP CONSTRAINT IF EXISTS writers_content_max_rating_check;
+ALTER TABLE public.writers
+ADD CONSTRAINT writers_content_max_rating_check
+CHECK (content_max_rating IN ('sfw', 'mature', 'explicit'));
+
+ALTER TABLE public.writers DROP CONSTRAINT IF EXISTS writers_hidden_content_warnings_check;
+ALTER TABLE public.writers
+ADD CONSTRAINT writers_hidden_content_warnings_check
+CHECK (cardinality(hidden_content_warnings) <= 50);
+
+-- -----------------------
+-- SEQUELS AND BRANCHES
+-- -----------------------
+-- Sequels: as in add_session_npcs.sql, plus the rating and warnings
+CREATE OR REPLACE FUNCTION public.start_session_sequel(p_session_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  parent RECORD;
+  sequel_id UUID;
+BEGIN
+  IF NOT public.is_session_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can start a sequel';
+  END IF;
+
+  SELECT id, name, style, is_public, status, content_rating, content_warnings INTO parent
+  FROM public.rp_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF parent.status NOT IN ('active', 'paused', 'closed') THEN
+    RAISE EXCEPTION 'Sequels can only follow a session that got under way';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.rp_sessions WHERE parent_session_id = p_session_id) THEN
+    RAISE EXCEPTION 'This session already has a sequel';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rp_session_participants
+    WHERE session_id = p_session_id
+      AND user_id != me
+      AND invite_status = 'accepted'
+      AND left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'There''s nobody left in this session to continue the story with';
+  END IF;
+
+  INSERT INTO public.rp_sessions (
+    created_by, status, name, style, is_public, content_rating, content_warnings, parent_session_id
+  )
+  VALUES (
+    me,
+    'pending',
+    COALESCE(NULLIF(btrim(p_name), ''), parent.name),
+    parent.style,
+    parent.is_public,
+    parent.content_rating,
+    parent.content_warnings,
+    p_session_id
+  )
+  RETURNING id INTO sequel_id;
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  VALUES (sequel_id, me, 'owner', 'accepted', me);
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT sequel_id, user_id, 'writer', 'pending', me
+  FROM public.rp_session_participants
+  WHERE session_id = p_session_id
+    AND user_id != me
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  -- Characters of everyone who comes along
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT sequel_id, sc.character_id
+  FROM public.rp_session_characters sc
+  JOIN public.characters c ON c.id = sc.character_id
+  JOIN public.rp_session_participants p ON p.session_id = sequel_id AND p.user_id = c.user_id
+  WHERE sc.session_id = p_session_id
+  ON CONFLICT (session_id, character_id) DO NOTHING;
+
+  PERFORM public.copy_session_npcs(p_session_id, sequel_id);
+
+  RETURN sequel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Branches: as in add_session_npcs.sql, plus the rating and warnings
+CREATE OR REPLACE FUNCTION public.branch_session(p_message_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  origin_message RECORD;
+  origin RECORD;
+  writer_ids UUID[];
+  branch_id UUID;
+BEGIN
+  SELECT id, session_id, created_at, deleted_at INTO origin_message
+  FROM public.rp_session_messages
+  WHERE id = p_message_id;
+
+  IF origin_message.id IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF origin_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You can''t branch from a deleted message';
+  END IF;
+
+  IF NOT public.is_session_participant(origin_message.session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can branch it';
+  END IF;
+
+  SELECT id, name, style, is_public, status, turn_order, content_rating, content_warnings INTO origin
+  FROM public.rp_sessions
+  WHERE id = origin_message.session_id;
+
+  IF origin.status NOT IN ('active', 'paused', 'closed') THEN
+    RAISE EXCEPTION 'Only sessions that got under way can be branched';
+  END IF;
+
+  SELECT array_agg(user_id ORDER BY (user_id = me) DESC, joined_at)
+  INTO writer_ids
+  FROM public.rp_session_participants
+  WHERE session_id = origin.id
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  -- Reminders start counting from the next live post
+  INSERT INTO public.rp_sessions (
+    created_by, status, name, style, is_public, content_rating, content_warnings, turn_order,
+    branched_from_session_id, branched_from_message_id, reminder_sent_at
+  )
+  VALUES (
+    me,
+    CASE WHEN cardinality(writer_ids) > 1 THEN 'pending' ELSE 'active' END,
+    COALESCE(NULLIF(btrim(p_name), ''), origin.name),
+    origin.style,
+    origin.is_public,
+    origin.content_rating,
+    origin.content_warnings,
+    origin.turn_order,
+    origin.id,
+    origin_message.id,
+    NOW()
+  )
+  RETURNING id INTO branch_id;
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT
+    branch_id,
+    w.id,
+    CASE WHEN w.id = me THEN 'owner' ELSE 'writer' END,
+    CASE WHEN w.id = me THEN 'accepted' ELSE 'pending' END,
+    me
+  FROM unnest(writer_ids) WITH ORDINALITY AS w(id, position)
+  ORDER BY position;
+
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT branch_id, sc.character_id
+  FROM public.rp_session_characters sc
+  JOIN public.characters c ON c.id = sc.character_id
+  WHERE sc.session_id = origin.id
+    AND c.user_id = ANY (writer_ids)
+  ON CONFLICT (session_id, character_id) DO NOTHING;
+
+  PERFORM public.copy_session_npcs(origin.id, branch_id);
+
+  -- The transcript up to and including the chosen message, in page order
+  INSERT INTO public.rp_session_messages (
+    session_id, sender_id, character_id, npc_id, message_type, body, created_at,
+    edited_at, deleted_at, roll_result, scene_kind, imported
+  )
+  SELECT
+    branch_id, m.sender_id, m.character_id, n.id, m.message_type, m.body, m.created_at,
+    m.edited_at, m.deleted_at, m.roll_result, m.scene_kind, true
+  FROM public.rp_session_messages m
+  LEFT JOIN public.rp_session_npcs n ON n.session_id = branch_id AND n.copied_from = m.npc_id
+  WHERE m.session_id = origin.id
+    AND (m.created_at, m.id) <= (origin_message.created_at, origin_message.id)
+  ORDER BY m.created_at, m.id;
+
+  UPDATE public.rp_sessions
+  SET last_message_at = origin_message.created_at
+  WHERE id = branch_id;
+
+  RETURN branch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------
+-- IMPORTS
+-- -----------------------
+-- import_session() from add_session_imports.sql, plus the rating and warnings.
+-- The old signature is kept for this one to call but clients can't use it,
+-- so every import is rated.
+CREATE OR REPLACE FUNCTION public.import_session(
+  p_name TEXT,
+  p_style TEXT,
+  p_is_public BOOLEAN,
+  p_source TEXT,
+  p_messages JSONB,
+  p_content_rating TEXT,
+  p_content_warnings TEXT[]
+)
+RETURNS UUID AS $$
+DECLARE
+  new_session_id UUID;
+BEGIN
+  new_session_id := public.import_session(p_name, p_style, p_is_public, p_source, p_messages);
+
+  UPDATE public.rp_sessions
+  SET content_rating = p_content_rating,
+      content_warnings = COALESCE(p_content_warnings, '{}')
+  WHERE id = new_session_id;
+
+  RETURN new_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.import_session(TEXT, TEXT, BOOLEAN, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.import_session(TEXT, TEXT, BOOLEAN, TEXT, JSONB, TEXT, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_session(TEXT, TEXT, BOOLEAN, TEXT, JSONB, TEXT, TEXT[]) TO authenticated;
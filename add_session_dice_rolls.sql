@@ -0,0 +1,177 @@
+-- ============================================================================
+-- DICE ROLLS
+-- ============================================================================
+-- Adds a 'roll' message type. Rolls are made by public.roll_dice(), which
+-- parses the dice expression, rolls on the server and posts the message with
+-- the full breakdown in roll_result. Clients can't insert or edit roll
+-- messages themselves, so a roll in the transcript is always a real one.
+--
+-- Supported notation: NdS, dS, NdF (fudge, -1/0/+1), d% and flat modifiers,
+-- joined with + or -, e.g. 2d6+3, 4dF, d20-1, 3d8+1d6+2
+-- Run this in your Supabase SQL editor after add_session_imports.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- ROLL MESSAGES
+-- -----------------------
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_message_type_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_message_type_check
+CHECK (message_type IN ('ooc', 'narration', 'system', 'roll'));
+
+-- { expression, label, terms: [{ sign, constant } | { sign, count, die, rolls, subtotal }], total }
+-- Keep in sync with RollResult in lib/dice.ts
+ALTER TABLE public.rp_session_messages
+ADD COLUMN IF NOT EXISTS roll_result JSONB;
+
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_roll_result_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_roll_result_check
+CHECK ((message_type = 'roll') = (roll_result IS NOT NULL));
+
+-- Clients post OOC and narration only; rolls come from roll_dice()
+DROP POLICY IF EXISTS "rp_session_messages_insert_sender" ON public.rp_session_messages;
+CREATE POLICY "rp_session_messages_insert_sender"
+  ON public.rp_session_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    message_type IN ('ooc', 'narration') AND
+    public.is_session_participant(session_id) AND
+    EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id
+        AND (s.status = 'active' OR (s.status = 'paused' AND message_type = 'ooc'))
+    )
+  );
+
+-- Senders may edit their own messages, but a roll stays exactly as rolled
+CREATE OR REPLACE FUNCTION protect_roll_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (OLD.message_type = 'roll' OR NEW.message_type = 'roll') AND (
+    NEW.message_type IS DISTINCT FROM OLD.message_type OR
+    NEW.body IS DISTINCT FROM OLD.body OR
+    NEW.roll_result IS DISTINCT FROM OLD.roll_result OR
+    NEW.sender_id IS DISTINCT FROM OLD.sender_id OR
+    NEW.character_id IS DISTINCT FROM OLD.character_id OR
+    NEW.created_at IS DISTINCT FROM OLD.created_at
+  ) THEN
+    RAISE EXCEPTION 'Dice rolls can''t be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_roll_messages_trigger ON public.rp_session_messages;
+CREATE TRIGGER protect_roll_messages_trigger
+  BEFORE UPDATE ON public.rp_session_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_roll_messages();
+
+-- -----------------------
+-- ROLL FUNCTION
+-- -----------------------
+-- Rolls as the caller (optionally as one of their characters) and returns
+-- the new message id. Same rules as narration: accepted writers, active session.
+CREATE OR REPLACE FUNCTION public.roll_dice(
+  p_session_id UUID,
+  p_expression TEXT,
+  p_character_id UUID DEFAULT NULL,
+  p_label TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  expr TEXT := lower(regexp_replace(COALESCE(p_expression, ''), '\s+', '', 'g'));
+  roll_label TEXT := NULLIF(left(btrim(COALESCE(p_label, '')), 200), '');
+  term TEXT[];
+  term_sign INTEGER;
+  dice_count INTEGER;
+  die_sides INTEGER;
+  is_fudge BOOLEAN;
+  rolls INTEGER[];
+  subtotal INTEGER;
+  total INTEGER := 0;
+  total_dice INTEGER := 0;
+  terms JSONB := '[]'::JSONB;
+  new_message_id UUID;
+BEGIN
+  IF me IS NULL OR NOT public.is_session_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can roll dice';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.rp_sessions WHERE id = p_session_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Dice can only be rolled while the session is active';
+  END IF;
+
+  IF p_character_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.characters WHERE id = p_character_id AND user_id = me
+  ) THEN
+    RAISE EXCEPTION 'You can only roll as one of your own characters';
+  END IF;
+
+  IF expr !~ '^[+-]?(\d{0,3}d(\d{1,4}|f|%)|\d{1,6})([+-](\d{0,3}d(\d{1,4}|f|%)|\d{1,6})){0,19}$' THEN
+    RAISE EXCEPTION '"%" isn''t a dice roll. Try something like 2d6+3 or 4dF', p_expression;
+  END IF;
+
+  FOR term IN
+    SELECT regexp_matches(expr, '([+-]?)(?:(\d*)d(\d+|f|%)|(\d+))', 'g')
+  LOOP
+    term_sign := CASE WHEN term[1] = '-' THEN -1 ELSE 1 END;
+
+    IF term[4] IS NOT NULL THEN
+      total := total + term_sign * term[4]::INTEGER;
+      terms := terms || jsonb_build_array(jsonb_build_object('sign', term_sign, 'constant', term[4]::INTEGER));
+      CONTINUE;
+    END IF;
+
+    dice_count := COALESCE(NULLIF(term[2], '')::INTEGER, 1);
+    is_fudge := term[3] = 'f';
+    die_sides := CASE WHEN term[3] = 'f' THEN 3 WHEN term[3] = '%' THEN 100 ELSE term[3]::INTEGER END;
+
+    IF dice_count < 1 OR (NOT is_fudge AND die_sides < 2) THEN
+      RAISE EXCEPTION '"%" isn''t a dice roll. Try something like 2d6+3 or 4dF', p_expression;
+    END IF;
+
+    total_dice := total_dice + dice_count;
+    IF total_dice > 100 THEN
+      RAISE EXCEPTION 'That''s too many dice (100 at most)';
+    END IF;
+
+    SELECT array_agg(
+      CASE WHEN is_fudge THEN floor(random() * 3)::INTEGER - 1 ELSE floor(random() * die_sides)::INTEGER + 1 END
+    )
+    INTO rolls
+    FROM generate_series(1, dice_count);
+
+    SELECT SUM(r) INTO subtotal FROM unnest(rolls) AS r;
+    total := total + term_sign * subtotal;
+
+    terms := terms || jsonb_build_array(jsonb_build_object(
+      'sign', term_sign,
+      'count', dice_count,
+      'die', CASE WHEN is_fudge THEN 'dF' ELSE 'd' || die_sides END,
+      'rolls', to_jsonb(rolls),
+      'subtotal', subtotal
+    ));
+  END LOOP;
+
+  INSERT INTO public.rp_session_messages (session_id, sender_id, character_id, message_type, body, roll_result)
+  VALUES (
+    p_session_id,
+    me,
+    p_character_id,
+    'roll',
+    expr || COALESCE(' ' || roll_label, ''),
+    jsonb_build_object('expression', expr, 'label', roll_label, 'terms', terms, 'total', total)
+  )
+  RETURNING id INTO new_message_id;
+
+  RETURN new_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.roll_dice(UUID, TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.roll_dice(UUID, TEXT, UUID, TEXT) TO authenticated;
@@ -0,0 +1,249 @@
+-- ============================================================================
+-- SESSION IMPORTS
+-- ============================================================================
+-- Roleplays brought over from Discord (JSON exports or "Name: text" logs) are
+-- created by public.import_session(), which writes the session, its
+-- participants and characters, and every message with its original timestamp
+-- in one go. Clients can't do that themselves: the message insert policy only
+-- lets you post as yourself, right now.
+--
+-- Imported sessions are marked (imported_from/imported_at) and imported
+-- messages are flagged, so the response time trigger ignores them. Writers
+-- can carry on the session live afterwards; only new posts count.
+-- Run this in your Supabase SQL editor after add_profile_realtime.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- IMPORT MARKERS
+-- -----------------------
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS imported_from TEXT,
+ADD COLUMN IF NOT EXISTS imported_at TIMESTAMPTZ;
+
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_imported_from_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_imported_from_check
+CHECK (imported_from IS NULL OR imported_from IN ('discord_json', 'text'));
+
+ALTER TABLE public.rp_session_messages
+ADD COLUMN IF NOT EXISTS imported BOOLEAN NOT NULL DEFAULT false;
+
+-- -----------------------
+-- RESPONSE TIME TRIGGER
+-- -----------------------
+-- Imported messages are history: they don't count as responses, and a live
+-- post right after an import doesn't count the gap since the last imported one
+CREATE OR REPLACE FUNCTION calculate_response_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  my_prev_at TIMESTAMPTZ;
+  turn_started_at TIMESTAMPTZ;
+  response_seconds INTEGER;
+  session_status TEXT;
+BEGIN
+  IF NEW.message_type = 'system' OR NEW.imported THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO session_status
+  FROM public.rp_sessions
+  WHERE id = NEW.session_id;
+
+  IF session_status = 'active' THEN
+    -- Sender's own previous message in this session
+    SELECT MAX(created_at) INTO my_prev_at
+    FROM public.rp_session_messages
+    WHERE session_id = NEW.session_id
+      AND sender_id = NEW.sender_id
+      AND created_at < NEW.created_at
+      AND id != NEW.id;
+
+    -- First live message from another current participant since then
+    SELECT MIN(m.created_at) INTO turn_started_at
+    FROM public.rp_session_messages m
+    JOIN public.rp_session_participants p
+      ON p.session_id = m.session_id AND p.user_id = m.sender_id
+    WHERE m.session_id = NEW.session_id
+      AND m.sender_id != NEW.sender_id
+      AND NOT m.imported
+      AND m.created_at < NEW.created_at
+      AND (my_prev_at IS NULL OR m.created_at > my_prev_at);
+
+    IF turn_started_at IS NOT NULL THEN
+      response_seconds := EXTRACT(EPOCH FROM (NEW.created_at - turn_started_at))::INTEGER;
+
+      -- Insert response time record
+      INSERT INTO public.rp_response_times (user_id, session_id, response_time_seconds)
+      VALUES (NEW.sender_id, NEW.session_id, response_seconds)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  -- Update last_message_at on session
+  UPDATE public.rp_sessions
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------
+-- IMPORT FUNCTION
+-- -----------------------
+-- p_messages is a JSON array, oldest first, of
+--   { sender_id, character_id, message_type ('ooc' | 'narration'), body, created_at }
+-- The caller becomes the owner; every other sender is invited as usual and
+-- the session goes active once they accept (straight away if it's just you).
+-- Imports that put words under other writers' names start private; see
+-- guard_imported_session_visibility() below.
+-- Keep in sync with importSession() in lib/sessionImport.ts
+CREATE OR REPLACE FUNCTION public.import_session(
+  p_name TEXT,
+  p_style TEXT,
+  p_is_public BOOLEAN,
+  p_source TEXT,
+  p_messages JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  writer_ids UUID[];
+  new_session_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'You need to be logged in to import a session';
+  END IF;
+
+  IF jsonb_typeof(p_messages) IS DISTINCT FROM 'array' OR jsonb_array_length(p_messages) = 0 THEN
+    RAISE EXCEPTION 'There are no messages to import';
+  END IF;
+
+  IF jsonb_array_length(p_messages) > 20000 THEN
+    RAISE EXCEPTION 'Imports are limited to 20000 messages';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_messages) m
+    WHERE m->>'sender_id' IS NULL
+      OR m->>'created_at' IS NULL
+      OR COALESCE(m->>'message_type', '') NOT IN ('ooc', 'narration')
+      OR COALESCE(btrim(m->>'body'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'Every message needs a writer, a type, a timestamp and some text';
+  END IF;
+
+  SELECT array_agg(DISTINCT id) INTO writer_ids
+  FROM (
+    SELECT (m->>'sender_id')::UUID AS id FROM jsonb_array_elements(p_messages) m
+    UNION
+    SELECT me
+  ) senders;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(writer_ids) AS w(id)
+    WHERE NOT EXISTS (SELECT 1 FROM public.writers WHERE user_id = w.id)
+  ) THEN
+    RAISE EXCEPTION 'Every speaker must be mapped to a writer';
+  END IF;
+
+  IF COALESCE(p_is_public, false) AND cardinality(writer_ids) > 1 THEN
+    RAISE EXCEPTION 'Imports with other writers start private; make the session public once everyone has accepted';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_messages) m
+    WHERE m->>'character_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.characters c
+        WHERE c.id = (m->>'character_id')::UUID AND c.user_id = (m->>'sender_id')::UUID
+      )
+  ) THEN
+    RAISE EXCEPTION 'Characters must belong to the writer they are mapped to';
+  END IF;
+
+  -- Reminders start counting from the next live post
+  INSERT INTO public.rp_sessions (created_by, status, name, style, is_public, imported_from, imported_at, reminder_sent_at)
+  VALUES (
+    me,
+    CASE WHEN cardinality(writer_ids) > 1 THEN 'pending' ELSE 'active' END,
+    NULLIF(btrim(p_name), ''),
+    p_style,
+    COALESCE(p_is_public, false),
+    p_source,
+    NOW(),
+    NOW()
+  )
+  RETURNING id INTO new_session_id;
+
+  -- The participant limit trigger rejects imports with too many writers
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT
+    new_session_id,
+    w.id,
+    CASE WHEN w.id = me THEN 'owner' ELSE 'writer' END,
+    CASE WHEN w.id = me THEN 'accepted' ELSE 'pending' END,
+    me
+  FROM unnest(writer_ids) AS w(id)
+  ORDER BY (w.id = me) DESC;
+
+  -- Mapped characters are already in the session, so invitees can accept without picking again
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT DISTINCT new_session_id, (m->>'character_id')::UUID
+  FROM jsonb_array_elements(p_messages) m
+  WHERE m->>'character_id' IS NOT NULL
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.rp_session_messages (session_id, sender_id, character_id, message_type, body, created_at, imported)
+  SELECT
+    new_session_id,
+    (m->>'sender_id')::UUID,
+    (m->>'character_id')::UUID,
+    m->>'message_type',
+    m->>'body',
+    LEAST((m->>'created_at')::TIMESTAMPTZ, NOW()),
+    true
+  FROM jsonb_array_elements(p_messages) WITH ORDINALITY AS t(m, position)
+  ORDER BY position;
+
+  UPDATE public.rp_sessions
+  SET last_message_at = (
+    SELECT MAX(created_at) FROM public.rp_session_messages WHERE session_id = new_session_id
+  )
+  WHERE id = new_session_id;
+
+  RETURN new_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.import_session(TEXT, TEXT, BOOLEAN, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_session(TEXT, TEXT, BOOLEAN, TEXT, JSONB) TO authenticated;
+
+-- -----------------------
+-- IMPORTED SESSION VISIBILITY
+-- -----------------------
+-- An import attributes history to every mapped writer without asking them.
+-- Until each of them has accepted the invitation, the session can't be made
+-- public, so nobody's name is published on a transcript they haven't seen.
+-- Checks OLD: clients can't clear imported_from (guard_session_update in
+-- add_session_participants.sql pins it), but this trigger fires first.
+CREATE OR REPLACE FUNCTION guard_imported_session_visibility()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_public AND NOT OLD.is_public AND OLD.imported_from IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.rp_session_participants
+    WHERE session_id = NEW.id AND invite_status <> 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'This imported session stays private until every writer in it has accepted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_imported_session_visibility_trigger ON public.rp_sessions;
+CREATE TRIGGER guard_imported_session_visibility_trigger
+  BEFORE UPDATE OF is_public ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_imported_session_visibility();
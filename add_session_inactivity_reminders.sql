@@ -0,0 +1,166 @@
+-- ============================================================================
+-- SERVER-SIDE INACTIVITY REMINDERS
+-- ============================================================================
+-- A scheduled job posts a system-authored notice into sessions that have been
+-- quiet for longer than their own threshold. One reminder per quiet spell:
+-- a session is reminded again only after someone posts (reminder_sent_at is
+-- compared against last_message_at).
+-- Run this in your Supabase SQL editor after add_session_invitations.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SYSTEM MESSAGES
+-- -----------------------
+-- System notices have no sender; clients can't create them because the
+-- insert policy requires auth.uid() = sender_id
+ALTER TABLE public.rp_session_messages ALTER COLUMN sender_id DROP NOT NULL;
+
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_message_type_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_message_type_check
+CHECK (message_type IN ('ooc', 'narration', 'system'));
+
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_sender_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_sender_check
+CHECK (message_type = 'system' OR sender_id IS NOT NULL);
+
+-- -----------------------
+-- PER-SESSION THRESHOLD
+-- -----------------------
+-- Minutes of silence before a reminder is posted; NULL turns reminders off
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS inactivity_reminder_minutes INTEGER DEFAULT 60;
+
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_inactivity_reminder_minutes_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_inactivity_reminder_minutes_check
+CHECK (inactivity_reminder_minutes IS NULL OR inactivity_reminder_minutes >= 5);
+
+-- -----------------------
+-- RESPONSE TIME TRIGGER
+-- -----------------------
+-- System notices are not turns: they don't count as a response and don't
+-- reset last_message_at (otherwise every reminder would restart the clock)
+CREATE OR REPLACE FUNCTION calculate_response_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  my_prev_at TIMESTAMPTZ;
+  turn_started_at TIMESTAMPTZ;
+  response_seconds INTEGER;
+  session_is_active BOOLEAN;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if session is active
+  SELECT is_active INTO session_is_active
+  FROM public.rp_sessions
+  WHERE id = NEW.session_id;
+
+  -- Only calculate response time if session is active
+  IF session_is_active = true THEN
+    -- Sender's own previous message in this session
+    SELECT MAX(created_at) INTO my_prev_at
+    FROM public.rp_session_messages
+    WHERE session_id = NEW.session_id
+      AND sender_id = NEW.sender_id
+      AND created_at < NEW.created_at
+      AND id != NEW.id;
+
+    -- First message from another current participant since then
+    SELECT MIN(m.created_at) INTO turn_started_at
+    FROM public.rp_session_messages m
+    JOIN public.rp_session_participants p
+      ON p.session_id = m.session_id AND p.user_id = m.sender_id
+    WHERE m.session_id = NEW.session_id
+      AND m.sender_id != NEW.sender_id
+      AND m.created_at < NEW.created_at
+      AND (my_prev_at IS NULL OR m.created_at > my_prev_at);
+
+    IF turn_started_at IS NOT NULL THEN
+      response_seconds := EXTRACT(EPOCH FROM (NEW.created_at - turn_started_at))::INTEGER;
+
+      -- Insert response time record
+      INSERT INTO public.rp_response_times (user_id, session_id, response_time_seconds)
+      VALUES (NEW.sender_id, NEW.session_id, response_seconds)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  -- Update last_message_at on session
+  UPDATE public.rp_sessions
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------
+-- REMINDER JOB
+-- -----------------------
+CREATE OR REPLACE FUNCTION public.send_inactivity_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  reminded_count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT id, inactivity_reminder_minutes
+    FROM public.rp_sessions
+    WHERE status = 'active'
+      AND is_active = true
+      AND inactivity_reminder_minutes IS NOT NULL
+      AND last_message_at IS NOT NULL
+      AND last_message_at < NOW() - make_interval(mins => inactivity_reminder_minutes)
+      AND (reminder_sent_at IS NULL OR reminder_sent_at < last_message_at)
+    FOR UPDATE SKIP LOCKED
+  ),
+  notices AS (
+    INSERT INTO public.rp_session_messages (session_id, sender_id, message_type, body)
+    SELECT
+      id,
+      NULL,
+      'system',
+      format(
+        '⏸️ This session has been quiet for %s. Consider pausing it if you''ll be away, or let your partners know when you''ll be back!',
+        CASE
+          WHEN inactivity_reminder_minutes % 1440 = 0 THEN (inactivity_reminder_minutes / 1440) || ' day(s)'
+          WHEN inactivity_reminder_minutes % 60 = 0 THEN (inactivity_reminder_minutes / 60) || ' hour(s)'
+          ELSE inactivity_reminder_minutes || ' minutes'
+        END
+      )
+    FROM due
+    RETURNING session_id
+  )
+  UPDATE public.rp_sessions s
+  SET reminder_sent_at = NOW()
+  FROM notices n
+  WHERE s.id = n.session_id;
+
+  GET DIAGNOSTICS reminded_count = ROW_COUNT;
+  RETURN reminded_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION public.send_inactivity_reminders() FROM PUBLIC, anon, authenticated;
+
+-- The scheduler only scans active sessions (rp_sessions_last_message_at_idx
+-- from session_schema.sql covers all of them)
+CREATE INDEX IF NOT EXISTS rp_sessions_active_last_message_at_idx
+  ON public.rp_sessions (last_message_at)
+  WHERE status = 'active';
+
+-- -----------------------
+-- SCHEDULE
+-- -----------------------
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'send-inactivity-reminders',
+  '* * * * *',
+  $$SELECT public.send_inactivity_reminders()$$
+);
@@ -0,0 +1,251 @@
+-- ============================================================================
+-- SESSION INVITATION LIFECYCLE
+-- ============================================================================
+-- New sessions start as 'pending'. Every invited writer accepts (after picking
+-- at least one character) or declines; unanswered invitations expire.
+-- The session becomes 'active' once all invitations are answered and at least
+-- one invitee accepted, otherwise 'declined' / 'expired'.
+-- Run this in your Supabase SQL editor after add_session_participants.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SESSION STATUS
+-- -----------------------
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_status_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_status_check
+CHECK (status IN ('pending', 'active', 'declined', 'expired', 'closed'));
+
+-- -----------------------
+-- PARTICIPANT INVITATIONS
+-- -----------------------
+ALTER TABLE public.rp_session_participants
+ADD COLUMN IF NOT EXISTS invite_status TEXT NOT NULL DEFAULT 'accepted',
+ADD COLUMN IF NOT EXISTS invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+ADD COLUMN IF NOT EXISTS invite_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS responded_at TIMESTAMPTZ,
+-- Set when the inviter has seen the accept/decline/expire outcome
+ADD COLUMN IF NOT EXISTS response_seen_at TIMESTAMPTZ;
+
+ALTER TABLE public.rp_session_participants DROP CONSTRAINT IF EXISTS rp_session_participants_invite_status_check;
+ALTER TABLE public.rp_session_participants
+ADD CONSTRAINT rp_session_participants_invite_status_check
+CHECK (invite_status IN ('pending', 'accepted', 'declined', 'expired'));
+
+CREATE INDEX IF NOT EXISTS rp_session_participants_invite_status_idx ON public.rp_session_participants (invite_status);
+CREATE INDEX IF NOT EXISTS rp_session_participants_invited_by_idx ON public.rp_session_participants (invited_by);
+
+-- Only accepted writers can post or change the session; anyone with a row
+-- (including pending invitees and writers who left) can read it
+CREATE OR REPLACE FUNCTION public.is_session_participant(p_session_id UUID, p_include_left BOOLEAN DEFAULT false)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rp_session_participants p
+    WHERE p.session_id = p_session_id
+      AND p.user_id = auth.uid()
+      AND (p_include_left OR (p.left_at IS NULL AND p.invite_status = 'accepted'))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Pending invitations get a 7 day expiry; answering stamps responded_at.
+-- Anyone a client adds other than themselves starts out invited, whatever the
+-- insert says, so nobody joins a session without accepting. Functions running
+-- as their owner (imports, sequels, branches) set the status themselves.
+CREATE OR REPLACE FUNCTION prepare_session_invitation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF current_user IN ('anon', 'authenticated') AND NEW.user_id IS DISTINCT FROM auth.uid() THEN
+      NEW.invite_status := 'pending';
+    END IF;
+
+    IF NEW.invite_status = 'pending' AND NEW.invite_expires_at IS NULL THEN
+      NEW.invite_expires_at := NOW() + INTERVAL '7 days';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.invite_status IS DISTINCT FROM OLD.invite_status THEN
+    -- Re-inviting someone who declined, expired or left
+    IF NEW.invite_status = 'pending' THEN
+      NEW.responded_at := NULL;
+      NEW.response_seen_at := NULL;
+      NEW.invite_expires_at := NOW() + INTERVAL '7 days';
+      RETURN NEW;
+    END IF;
+
+    IF OLD.invite_status != 'pending' THEN
+      RAISE EXCEPTION 'This invitation has already been answered';
+    END IF;
+
+    NEW.responded_at := NOW();
+
+    IF NEW.invite_status IN ('declined', 'expired') THEN
+      NEW.left_at := COALESCE(NEW.left_at, NOW());
+    END IF;
+
+    -- Characters must be picked before accepting, so the first post has one
+    IF NEW.invite_status = 'accepted' AND NOT EXISTS (
+      SELECT 1
+      FROM public.rp_session_characters sc
+      JOIN public.characters c ON c.id = sc.character_id
+      WHERE sc.session_id = NEW.session_id AND c.user_id = NEW.user_id
+    ) THEN
+      RAISE EXCEPTION 'Select at least one character before accepting the invitation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prepare_session_invitation_trigger ON public.rp_session_participants;
+CREATE TRIGGER prepare_session_invitation_trigger
+  BEFORE INSERT OR UPDATE ON public.rp_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_session_invitation();
+
+-- Move a pending session forward once nobody is left to answer.
+-- SECURITY DEFINER because invitees can't update rp_sessions themselves.
+CREATE OR REPLACE FUNCTION sync_session_invitation_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  pending_count INTEGER;
+  accepted_count INTEGER;
+  declined_count INTEGER;
+BEGIN
+  IF NEW.invite_status IS NOT DISTINCT FROM OLD.invite_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE invite_status = 'pending'),
+    COUNT(*) FILTER (WHERE invite_status = 'accepted' AND role != 'owner' AND left_at IS NULL),
+    COUNT(*) FILTER (WHERE invite_status = 'declined')
+  INTO pending_count, accepted_count, declined_count
+  FROM public.rp_session_participants
+  WHERE session_id = NEW.session_id;
+
+  IF pending_count = 0 THEN
+    UPDATE public.rp_sessions
+    SET status = CASE
+      WHEN accepted_count > 0 THEN 'active'
+      WHEN declined_count > 0 THEN 'declined'
+      ELSE 'expired'
+    END
+    WHERE id = NEW.session_id AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_session_invitation_status_trigger ON public.rp_session_participants;
+CREATE TRIGGER sync_session_invitation_status_trigger
+  AFTER UPDATE OF invite_status ON public.rp_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_session_invitation_status();
+
+-- Only the trigger above starts a pending session (or marks it declined or
+-- expired); clients can still call it off by closing it
+CREATE OR REPLACE FUNCTION guard_pending_session_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status IN ('active', 'declined', 'expired')
+    AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'A session starts once its invitations are answered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_pending_session_status_trigger ON public.rp_sessions;
+CREATE TRIGGER guard_pending_session_status_trigger
+  BEFORE UPDATE OF status ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_pending_session_status();
+
+-- Expire unanswered invitations (scheduled below)
+CREATE OR REPLACE FUNCTION public.expire_session_invitations()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.rp_session_participants
+  SET invite_status = 'expired'
+  WHERE invite_status = 'pending'
+    AND invite_expires_at < NOW();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+
+-- Invitees pick characters before they have accepted
+DROP POLICY IF EXISTS "rp_session_characters_insert_participants" ON public.rp_session_characters;
+CREATE POLICY "rp_session_characters_insert_participants"
+  ON public.rp_session_characters FOR INSERT
+  WITH CHECK (
+    (
+      public.is_session_owner(session_id) OR
+      EXISTS (
+        SELECT 1 FROM public.rp_session_participants p
+        WHERE p.session_id = rp_session_characters.session_id
+          AND p.user_id = auth.uid()
+          AND p.left_at IS NULL
+          AND p.invite_status IN ('pending', 'accepted')
+      )
+    ) AND
+    EXISTS (
+      SELECT 1 FROM public.characters c
+      WHERE c.id = character_id AND c.user_id = auth.uid()
+    )
+  );
+
+-- ...and can change their mind while the invitation is still open
+DROP POLICY IF EXISTS "rp_session_characters_delete_own" ON public.rp_session_characters;
+CREATE POLICY "rp_session_characters_delete_own"
+  ON public.rp_session_characters FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.rp_session_participants p
+      WHERE p.session_id = rp_session_characters.session_id
+        AND p.user_id = auth.uid()
+        AND p.left_at IS NULL
+        AND p.invite_status = 'pending'
+    ) AND
+    EXISTS (
+      SELECT 1 FROM public.characters c
+      WHERE c.id = character_id AND c.user_id = auth.uid()
+    )
+  );
+
+-- Messages only in sessions that are under way
+DROP POLICY IF EXISTS "rp_session_messages_insert_sender" ON public.rp_session_messages;
+CREATE POLICY "rp_session_messages_insert_sender"
+  ON public.rp_session_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    public.is_session_participant(session_id) AND
+    EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id AND s.status = 'active'
+    )
+  );
+
+-- -----------------------
+-- SCHEDULE
+-- -----------------------
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-session-invitations',
+  '*/15 * * * *',
+  $$SELECT public.expire_session_invitations()$$
+);
@@ -0,0 +1,141 @@
+-- ============================================================================
+-- SESSION LOREBOOK AND PINS
+-- ============================================================================
+-- A shared notebook per session for the world facts, relationships and plot
+-- threads writers would otherwise keep re-explaining in OOC: titled entries
+-- any current writer can add, edit or remove. Alongside it, pinned messages
+-- (rp_session_pins) so important posts are one click away.
+--
+-- Both are for the writers only; public viewers see neither.
+-- Run this in your Supabase SQL editor after add_session_npcs.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- TABLES
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.rp_session_lore_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 120),
+  body TEXT NOT NULL DEFAULT '' CHECK (char_length(body) <= 10000),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_lore_entries_session_idx
+  ON public.rp_session_lore_entries (session_id, title);
+
+CREATE TABLE IF NOT EXISTS public.rp_session_pins (
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.rp_session_messages(id) ON DELETE CASCADE,
+  pinned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  pinned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, message_id)
+);
+
+-- -----------------------
+-- LAST EDIT
+-- -----------------------
+-- Stamped server-side so the panel can say who touched an entry last
+CREATE OR REPLACE FUNCTION public.touch_session_lore_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  NEW.updated_by := auth.uid();
+  NEW.session_id := OLD.session_id;
+  NEW.created_by := OLD.created_by;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_session_lore_entry ON public.rp_session_lore_entries;
+CREATE TRIGGER touch_session_lore_entry
+  BEFORE UPDATE ON public.rp_session_lore_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_session_lore_entry();
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+ALTER TABLE public.rp_session_lore_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rp_session_pins ENABLE ROW LEVEL SECURITY;
+
+-- Writers who left can still read back what was written down
+DROP POLICY IF EXISTS "rp_session_lore_entries_select_participants" ON public.rp_session_lore_entries;
+CREATE POLICY "rp_session_lore_entries_select_participants"
+  ON public.rp_session_lore_entries FOR SELECT
+  TO authenticated
+  USING (public.is_session_participant(session_id, true));
+
+DROP POLICY IF EXISTS "rp_session_lore_entries_insert_writers" ON public.rp_session_lore_entries;
+CREATE POLICY "rp_session_lore_entries_insert_writers"
+  ON public.rp_session_lore_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_session_participant(session_id) AND
+    created_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "rp_session_lore_entries_update_writers" ON public.rp_session_lore_entries;
+CREATE POLICY "rp_session_lore_entries_update_writers"
+  ON public.rp_session_lore_entries FOR UPDATE
+  TO authenticated
+  USING (public.is_session_participant(session_id))
+  WITH CHECK (public.is_session_participant(session_id));
+
+DROP POLICY IF EXISTS "rp_session_lore_entries_delete_writers" ON public.rp_session_lore_entries;
+CREATE POLICY "rp_session_lore_entries_delete_writers"
+  ON public.rp_session_lore_entries FOR DELETE
+  TO authenticated
+  USING (public.is_session_participant(session_id));
+
+DROP POLICY IF EXISTS "rp_session_pins_select_participants" ON public.rp_session_pins;
+CREATE POLICY "rp_session_pins_select_participants"
+  ON public.rp_session_pins FOR SELECT
+  TO authenticated
+  USING (public.is_session_participant(session_id, true));
+
+-- Only messages from the same session can be pinned
+DROP POLICY IF EXISTS "rp_session_pins_insert_writers" ON public.rp_session_pins;
+CREATE POLICY "rp_session_pins_insert_writers"
+  ON public.rp_session_pins FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_session_participant(session_id) AND
+    pinned_by = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.rp_session_messages m
+      WHERE m.id = message_id AND m.session_id = rp_session_pins.session_id
+    )
+  );
+
+-- Any writer can unpin, not just whoever pinned it
+DROP POLICY IF EXISTS "rp_session_pins_delete_writers" ON public.rp_session_pins;
+CREATE POLICY "rp_session_pins_delete_writers"
+  ON public.rp_session_pins FOR DELETE
+  TO authenticated
+  USING (public.is_session_participant(session_id));
+
+-- -----------------------
+-- REALTIME
+-- -----------------------
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_lore_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_lore_entries;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_pins'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_pins;
+  END IF;
+END $$;
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- SESSION TRANSCRIPT PAGINATION
+-- ============================================================================
+-- The session page loads messages newest-first in pages, using a keyset
+-- cursor on (created_at, id). This index serves both the first page and
+-- every "older than" page without sorting.
+-- Run this in your Supabase SQL editor after add_session_status.sql
+-- Safe to run multiple times (uses IF NOT EXISTS)
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS rp_session_messages_session_created_id_idx
+  ON public.rp_session_messages (session_id, created_at DESC, id DESC);
@@ -0,0 +1,147 @@
+-- ============================================================================
+-- SESSION MESSAGE EDITING, REVISIONS AND SOFT-DELETE
+-- ============================================================================
+-- Builds on add_message_editing.sql (edited_at + the sender update policy).
+-- Every edit keeps the replaced body in rp_session_message_revisions, and
+-- deleting a message only sets deleted_at: the row stays as a tombstone so
+-- the transcript (and its pagination cursor) keeps its shape, and the last
+-- body goes into the revision history with the others.
+--
+-- Only the text of OOC, narration and scene break messages can change.
+-- Rolls are already locked by protect_roll_messages(); system notices have
+-- no sender.
+-- Run this in your Supabase SQL editor after add_session_scenes.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SOFT-DELETE
+-- -----------------------
+ALTER TABLE public.rp_session_messages
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- -----------------------
+-- REVISIONS
+-- -----------------------
+-- One row per replaced body, oldest first. created_at is when that body was
+-- replaced (or deleted); the body itself dates from the previous revision,
+-- or from the message's created_at for the first one.
+CREATE TABLE IF NOT EXISTS public.rp_session_message_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES public.rp_session_messages(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_message_revisions_message_idx
+  ON public.rp_session_message_revisions (message_id, created_at);
+
+ALTER TABLE public.rp_session_message_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Writers (including those who left) see all history. Public viewers see the
+-- history of story messages they can already read, but not of deleted ones.
+DROP POLICY IF EXISTS "rp_session_message_revisions_select" ON public.rp_session_message_revisions;
+CREATE POLICY "rp_session_message_revisions_select"
+  ON public.rp_session_message_revisions FOR SELECT
+  TO authenticated, anon
+  USING (
+    public.is_session_participant(session_id, true)
+    OR EXISTS (
+      SELECT 1
+      FROM public.rp_session_messages m
+      JOIN public.rp_sessions s ON s.id = m.session_id
+      WHERE m.id = rp_session_message_revisions.message_id
+        AND s.is_public = true
+        AND m.message_type IN ('narration', 'scene')
+        AND m.deleted_at IS NULL
+    )
+  );
+
+-- No insert/update/delete policies: rows are only written by the trigger below
+
+-- -----------------------
+-- EDIT TRIGGER
+-- -----------------------
+-- Clients only ever change the body or delete, whether or not the body
+-- changes. Runs with the caller's rights (unlike the trigger below) so
+-- functions running as their owner and foreign-key actions, like an NPC's
+-- npc_id being cleared, aren't affected. npc_id is read through jsonb because
+-- add_session_npcs.sql adds it later. Fires before
+-- record_session_message_revision (triggers run in name order).
+CREATE OR REPLACE FUNCTION guard_session_message_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.message_type IS DISTINCT FROM OLD.message_type OR
+     NEW.session_id IS DISTINCT FROM OLD.session_id OR
+     NEW.sender_id IS DISTINCT FROM OLD.sender_id OR
+     NEW.character_id IS DISTINCT FROM OLD.character_id OR
+     to_jsonb(NEW) -> 'npc_id' IS DISTINCT FROM to_jsonb(OLD) -> 'npc_id' OR
+     NEW.scene_kind IS DISTINCT FROM OLD.scene_kind OR
+     NEW.created_at IS DISTINCT FROM OLD.created_at OR
+     NEW.imported IS DISTINCT FROM OLD.imported THEN
+    RAISE EXCEPTION 'Only the text of a message can be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_message_update_trigger ON public.rp_session_messages;
+CREATE TRIGGER guard_session_message_update_trigger
+  BEFORE UPDATE ON public.rp_session_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_message_update();
+
+CREATE OR REPLACE FUNCTION record_session_message_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages can''t be changed';
+  END IF;
+
+  -- Nothing was edited, so the "edited" marker stays as it was
+  IF NEW.body IS NOT DISTINCT FROM OLD.body AND NEW.deleted_at IS NULL THEN
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.message_type NOT IN ('ooc', 'narration', 'scene') THEN
+    RAISE EXCEPTION 'Only OOC, narration and scene messages can be edited';
+  END IF;
+
+  INSERT INTO public.rp_session_message_revisions (message_id, session_id, body, edited_by)
+  VALUES (OLD.id, OLD.session_id, OLD.body, auth.uid());
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    -- Tombstone: the text only survives in the revision history
+    NEW.deleted_at := NOW();
+    NEW.body := '';
+    NEW.edited_at := OLD.edited_at;
+  ELSE
+    IF btrim(NEW.body) = '' THEN
+      RAISE EXCEPTION 'A message can''t be empty. Delete it instead.';
+    END IF;
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_session_message_revision_trigger ON public.rp_session_messages;
+CREATE TRIGGER record_session_message_revision_trigger
+  BEFORE UPDATE ON public.rp_session_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION record_session_message_revision();
+
+-- Table of contents lookups skip deleted breaks
+DROP INDEX IF EXISTS rp_session_messages_scenes_idx;
+CREATE INDEX IF NOT EXISTS rp_session_messages_scenes_idx
+  ON public.rp_session_messages (session_id, created_at)
+  WHERE message_type = 'scene' AND deleted_at IS NULL;
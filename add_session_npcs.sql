@@ -0,0 +1,355 @@
+-- ============================================================================
+-- SESSION NPCS
+-- ============================================================================
+-- Lightweight non-player characters that live in one session: a name, an
+-- optional portrait and a short note, no character sheet. Any writer in the
+-- session can add them, edit them and narrate as them (rp_session_messages.
+-- npc_id). NPCs are archived rather than deleted, so old posts keep their
+-- speaker.
+--
+-- Sequels and branches take the session's NPCs with them; branched messages
+-- point at the copies.
+-- Run this in your Supabase SQL editor after add_session_branches.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- TABLE
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.rp_session_npcs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  portrait_url TEXT,
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 500),
+  -- The NPC this one was copied from (sequels and branches)
+  copied_from UUID REFERENCES public.rp_session_npcs(id) ON DELETE SET NULL,
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_npcs_session_id_idx ON public.rp_session_npcs (session_id);
+
+-- -----------------------
+-- MESSAGE SPEAKER
+-- -----------------------
+ALTER TABLE public.rp_session_messages
+ADD COLUMN IF NOT EXISTS npc_id UUID REFERENCES public.rp_session_npcs(id) ON DELETE SET NULL;
+
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_speaker_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_speaker_check
+CHECK (npc_id IS NULL OR (character_id IS NULL AND message_type = 'narration'));
+
+-- Live posts speak as an NPC of the same session that is still in the cast
+CREATE OR REPLACE FUNCTION check_message_npc()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.npc_id IS NULL OR NEW.imported THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rp_session_npcs
+    WHERE id = NEW.npc_id
+      AND session_id = NEW.session_id
+      AND archived_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'That NPC isn''t part of this session';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_message_npc_trigger ON public.rp_session_messages;
+CREATE TRIGGER check_message_npc_trigger
+  BEFORE INSERT ON public.rp_session_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_message_npc();
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+ALTER TABLE public.rp_session_npcs ENABLE ROW LEVEL SECURITY;
+
+-- Same audience as the story: writers (past and present) and public viewers
+DROP POLICY IF EXISTS "rp_session_npcs_select" ON public.rp_session_npcs;
+CREATE POLICY "rp_session_npcs_select"
+  ON public.rp_session_npcs FOR SELECT
+  TO authenticated, anon
+  USING (
+    public.is_session_participant(session_id, true)
+    OR EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id AND s.is_public = true
+    )
+  );
+
+DROP POLICY IF EXISTS "rp_session_npcs_insert" ON public.rp_session_npcs;
+CREATE POLICY "rp_session_npcs_insert"
+  ON public.rp_session_npcs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    copied_from IS NULL AND
+    public.is_session_participant(session_id)
+  );
+
+-- NPCs are shared: any current writer can edit or archive them. No delete
+-- policy; archiving keeps old posts attributed.
+DROP POLICY IF EXISTS "rp_session_npcs_update" ON public.rp_session_npcs;
+CREATE POLICY "rp_session_npcs_update"
+  ON public.rp_session_npcs FOR UPDATE
+  TO authenticated
+  USING (public.is_session_participant(session_id))
+  WITH CHECK (public.is_session_participant(session_id));
+
+-- Edits only touch the details: an NPC stays in its session, with its creator
+-- and origin. Clients only, so the foreign keys can still clear created_by
+-- and copied_from when the user or the original NPC goes.
+CREATE OR REPLACE FUNCTION public.pin_session_npc()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.session_id := OLD.session_id;
+    NEW.created_by := OLD.created_by;
+    NEW.copied_from := OLD.copied_from;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pin_session_npc ON public.rp_session_npcs;
+CREATE TRIGGER pin_session_npc
+  BEFORE UPDATE ON public.rp_session_npcs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.pin_session_npc();
+
+-- Writers in the session can also take one of their characters out of the
+-- cast (add_session_invitations.sql only allowed it while invited), as long
+-- as another of theirs stays in
+DROP POLICY IF EXISTS "rp_session_characters_delete_own" ON public.rp_session_characters;
+CREATE POLICY "rp_session_characters_delete_own"
+  ON public.rp_session_characters FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.characters c
+      WHERE c.id = character_id AND c.user_id = auth.uid()
+    ) AND
+    (
+      EXISTS (
+        SELECT 1 FROM public.rp_session_participants p
+        WHERE p.session_id = rp_session_characters.session_id
+          AND p.user_id = auth.uid()
+          AND p.left_at IS NULL
+          AND p.invite_status = 'pending'
+      ) OR
+      (
+        public.is_session_participant(session_id) AND
+        EXISTS (
+          SELECT 1 FROM public.rp_session_characters other
+          JOIN public.characters oc ON oc.id = other.character_id
+          WHERE other.session_id = rp_session_characters.session_id
+            AND other.character_id <> rp_session_characters.character_id
+            AND oc.user_id = auth.uid()
+        )
+      )
+    )
+  );
+
+-- -----------------------
+-- COPYING
+-- -----------------------
+CREATE OR REPLACE FUNCTION public.copy_session_npcs(p_from_session_id UUID, p_to_session_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO public.rp_session_npcs (session_id, created_by, name, portrait_url, note, copied_from, archived_at, created_at)
+  SELECT p_to_session_id, created_by, name, portrait_url, note, id, archived_at, created_at
+  FROM public.rp_session_npcs
+  WHERE session_id = p_from_session_id
+  ORDER BY created_at;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.copy_session_npcs(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sequels: as in add_session_sequels.sql, plus the NPCs
+CREATE OR REPLACE FUNCTION public.start_session_sequel(p_session_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  parent RECORD;
+  sequel_id UUID;
+BEGIN
+  IF NOT public.is_session_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can start a sequel';
+  END IF;
+
+  SELECT id, name, style, is_public, status INTO parent
+  FROM public.rp_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF parent.status NOT IN ('active', 'paused', 'closed') THEN
+    RAISE EXCEPTION 'Sequels can only follow a session that got under way';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.rp_sessions WHERE parent_session_id = p_session_id) THEN
+    RAISE EXCEPTION 'This session already has a sequel';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rp_session_participants
+    WHERE session_id = p_session_id
+      AND user_id != me
+      AND invite_status = 'accepted'
+      AND left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'There''s nobody left in this session to continue the story with';
+  END IF;
+
+  INSERT INTO public.rp_sessions (created_by, status, name, style, is_public, parent_session_id)
+  VALUES (me, 'pending', COALESCE(NULLIF(btrim(p_name), ''), parent.name), parent.style, parent.is_public, p_session_id)
+  RETURNING id INTO sequel_id;
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  VALUES (sequel_id, me, 'owner', 'accepted', me);
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT sequel_id, user_id, 'writer', 'pending', me
+  FROM public.rp_session_participants
+  WHERE session_id = p_session_id
+    AND user_id != me
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  -- Characters of everyone who comes along
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT sequel_id, sc.character_id
+  FROM public.rp_session_characters sc
+  JOIN public.characters c ON c.id = sc.character_id
+  JOIN public.rp_session_participants p ON p.session_id = sequel_id AND p.user_id = c.user_id
+  WHERE sc.session_id = p_session_id
+  ON CONFLICT (session_id, character_id) DO NOTHING;
+
+  PERFORM public.copy_session_npcs(p_session_id, sequel_id);
+
+  RETURN sequel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Branches: as in add_session_branches.sql, plus the NPCs, with the copied
+-- messages pointing at the branch's own copies
+CREATE OR REPLACE FUNCTION public.branch_session(p_message_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  origin_message RECORD;
+  origin RECORD;
+  writer_ids UUID[];
+  branch_id UUID;
+BEGIN
+  SELECT id, session_id, created_at, deleted_at INTO origin_message
+  FROM public.rp_session_messages
+  WHERE id = p_message_id;
+
+  IF origin_message.id IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF origin_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'You can''t branch from a deleted message';
+  END IF;
+
+  IF NOT public.is_session_participant(origin_message.session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can branch it';
+  END IF;
+
+  SELECT id, name, style, is_public, status, turn_order INTO origin
+  FROM public.rp_sessions
+  WHERE id = origin_message.session_id;
+
+  IF origin.status NOT IN ('active', 'paused', 'closed') THEN
+    RAISE EXCEPTION 'Only sessions that got under way can be branched';
+  END IF;
+
+  SELECT array_agg(user_id ORDER BY (user_id = me) DESC, joined_at)
+  INTO writer_ids
+  FROM public.rp_session_participants
+  WHERE session_id = origin.id
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  -- Reminders start counting from the next live post
+  INSERT INTO public.rp_sessions (
+    created_by, status, name, style, is_public, turn_order,
+    branched_from_session_id, branched_from_message_id, reminder_sent_at
+  )
+  VALUES (
+    me,
+    CASE WHEN cardinality(writer_ids) > 1 THEN 'pending' ELSE 'active' END,
+    COALESCE(NULLIF(btrim(p_name), ''), origin.name),
+    origin.style,
+    origin.is_public,
+    origin.turn_order,
+    origin.id,
+    origin_message.id,
+    NOW()
+  )
+  RETURNING id INTO branch_id;
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT
+    branch_id,
+    w.id,
+    CASE WHEN w.id = me THEN 'owner' ELSE 'writer' END,
+    CASE WHEN w.id = me THEN 'accepted' ELSE 'pending' END,
+    me
+  FROM unnest(writer_ids) WITH ORDINALITY AS w(id, position)
+  ORDER BY position;
+
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT branch_id, sc.character_id
+  FROM public.rp_session_characters sc
+  JOIN public.characters c ON c.id = sc.character_id
+  WHERE sc.session_id = origin.id
+    AND c.user_id = ANY (writer_ids)
+  ON CONFLICT (session_id, character_id) DO NOTHING;
+
+  PERFORM public.copy_session_npcs(origin.id, branch_id);
+
+  -- The transcript up to and including the chosen message, in page order
+  INSERT INTO public.rp_session_messages (
+    session_id, sender_id, character_id, npc_id, message_type, body, created_at,
+    edited_at, deleted_at, roll_result, scene_kind, imported
+  )
+  SELECT
+    branch_id, m.sender_id, m.character_id, n.id, m.message_type, m.body, m.created_at,
+    m.edited_at, m.deleted_at, m.roll_result, m.scene_kind, true
+  FROM public.rp_session_messages m
+  LEFT JOIN public.rp_session_npcs n ON n.session_id = branch_id AND n.copied_from = m.npc_id
+  WHERE m.session_id = origin.id
+    AND (m.created_at, m.id) <= (origin_message.created_at, origin_message.id)
+  ORDER BY m.created_at, m.id;
+
+  UPDATE public.rp_sessions
+  SET last_message_at = origin_message.created_at
+  WHERE id = branch_id;
+
+  RETURN branch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------
+-- REALTIME
+-- -----------------------
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_npcs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_npcs;
+  END IF;
+END $$;
@@ -0,0 +1,432 @@
+-- ============================================================================
+-- GROUP SESSIONS: PARTICIPANTS MODEL
+-- ============================================================================
+-- Replaces the two-person user_a/user_b columns on rp_sessions with a
+-- rp_session_participants table so a session can hold 2-8 writers.
+-- Run this in your Supabase SQL editor after session_schema.sql and
+-- complete_session_viewers_migration.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SESSION CREATOR
+-- -----------------------
+-- The creator is needed for the insert/select policies before any
+-- participant rows exist
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- -----------------------
+-- RP SESSION PARTICIPANTS TABLE
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.rp_session_participants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'writer' CHECK (role IN ('owner', 'writer')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  left_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_participants_session_id_idx ON public.rp_session_participants (session_id);
+CREATE INDEX IF NOT EXISTS rp_session_participants_user_id_idx ON public.rp_session_participants (user_id);
+
+-- Backfill participants from the old pair columns (only while they still exist)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'rp_sessions' AND column_name = 'user_a'
+  ) THEN
+    UPDATE public.rp_sessions SET created_by = user_a WHERE created_by IS NULL;
+
+    INSERT INTO public.rp_session_participants (session_id, user_id, role, joined_at)
+    SELECT id, user_a, 'owner', created_at FROM public.rp_sessions
+    ON CONFLICT (session_id, user_id) DO NOTHING;
+
+    INSERT INTO public.rp_session_participants (session_id, user_id, role, joined_at)
+    SELECT id, user_b, 'writer', created_at FROM public.rp_sessions
+    ON CONFLICT (session_id, user_id) DO NOTHING;
+  END IF;
+END $$;
+
+-- -----------------------
+-- PARTICIPANT HELPERS
+-- -----------------------
+-- SECURITY DEFINER so policies on rp_session_participants can call these
+-- without recursing into their own RLS checks
+
+-- Is the current user a participant? Left participants keep read access
+-- (include_left = true) but lose write access
+CREATE OR REPLACE FUNCTION public.is_session_participant(p_session_id UUID, p_include_left BOOLEAN DEFAULT false)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rp_session_participants p
+    WHERE p.session_id = p_session_id
+      AND p.user_id = auth.uid()
+      AND (p_include_left OR p.left_at IS NULL)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Is the current user the session owner (or its creator, before participants
+-- exist)? Once there are participant rows only the owner row counts, so a
+-- creator who left or handed over the session loses the owner's rights.
+CREATE OR REPLACE FUNCTION public.is_session_owner(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rp_session_participants p
+    WHERE p.session_id = p_session_id
+      AND p.user_id = auth.uid()
+      AND p.role = 'owner'
+      AND p.left_at IS NULL
+  ) OR (
+    EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = p_session_id AND s.created_by = auth.uid()
+    ) AND NOT EXISTS (
+      SELECT 1 FROM public.rp_session_participants p
+      WHERE p.session_id = p_session_id
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Cap sessions at 8 current participants (keep in sync with MAX_SESSION_PARTICIPANTS in lib/session.ts)
+CREATE OR REPLACE FUNCTION enforce_session_participant_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_count INTEGER;
+BEGIN
+  IF NEW.left_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO current_count
+  FROM public.rp_session_participants
+  WHERE session_id = NEW.session_id
+    AND left_at IS NULL
+    AND id != NEW.id;
+
+  IF current_count >= 8 THEN
+    RAISE EXCEPTION 'A session can have at most 8 participants';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_session_participant_limit_trigger ON public.rp_session_participants;
+CREATE TRIGGER enforce_session_participant_limit_trigger
+  BEFORE INSERT OR UPDATE OF left_at ON public.rp_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_session_participant_limit();
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+
+-- RP Session Participants
+ALTER TABLE public.rp_session_participants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rp_session_participants_select" ON public.rp_session_participants;
+CREATE POLICY "rp_session_participants_select"
+  ON public.rp_session_participants FOR SELECT
+  TO authenticated, anon
+  USING (
+    public.is_session_participant(session_id, true)
+    OR public.is_session_owner(session_id)
+    OR EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id AND s.is_public = true
+    )
+  );
+
+-- Only the owner adds people; new rows can't grant ownership to someone else
+DROP POLICY IF EXISTS "rp_session_participants_insert_owner" ON public.rp_session_participants;
+CREATE POLICY "rp_session_participants_insert_owner"
+  ON public.rp_session_participants FOR INSERT
+  WITH CHECK (
+    public.is_session_owner(session_id)
+    AND (role = 'writer' OR user_id = auth.uid())
+  );
+
+-- Participants can leave (update their own row); the owner can remove others
+DROP POLICY IF EXISTS "rp_session_participants_update" ON public.rp_session_participants;
+CREATE POLICY "rp_session_participants_update"
+  ON public.rp_session_participants FOR UPDATE
+  USING (auth.uid() = user_id OR public.is_session_owner(session_id))
+  WITH CHECK (auth.uid() = user_id OR public.is_session_owner(session_id));
+
+-- The policy above decides whose rows a client may touch; this decides which
+-- columns. Writers may leave, answer their own pending invitation and mark
+-- outcomes they sent as seen. Only the owner changes roles, removes writers or
+-- re-invites them (back to 'pending'); nobody else's acceptance can be forged.
+-- Functions running as their owner (mark_chat_seen, agree_to_reopen_session,
+-- the expiry job) aren't affected. Columns are read through jsonb because the
+-- invitation and presence columns are added by later migrations.
+CREATE OR REPLACE FUNCTION guard_session_participant_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  me UUID := auth.uid();
+  is_owner BOOLEAN;
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  col TEXT;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  is_owner := public.is_session_owner(OLD.session_id);
+
+  FOR col IN
+    SELECT n.key
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row -> n.key
+  LOOP
+    IF col = 'role' AND is_owner THEN
+      CONTINUE;
+    ELSIF col = 'left_at' AND OLD.user_id = me AND OLD.left_at IS NULL THEN
+      -- Leaving
+      CONTINUE;
+    ELSIF col = 'left_at' AND is_owner AND OLD.user_id <> me
+      AND (NEW.left_at IS NOT NULL OR new_row ->> 'invite_status' = 'pending') THEN
+      -- Removing a writer, or clearing it as part of a re-invite
+      CONTINUE;
+    ELSIF col = 'invite_status' AND OLD.user_id = me
+      AND old_row ->> 'invite_status' = 'pending'
+      AND new_row ->> 'invite_status' IN ('accepted', 'declined') THEN
+      CONTINUE;
+    ELSIF col = 'invite_status' AND is_owner AND OLD.user_id <> me
+      AND new_row ->> 'invite_status' = 'pending' THEN
+      CONTINUE;
+    ELSIF col = 'response_seen_at' AND (is_owner OR old_row ->> 'invited_by' = me::text) THEN
+      CONTINUE;
+    ELSIF col = 'last_seen_at' AND OLD.user_id = me THEN
+      CONTINUE;
+    END IF;
+
+    RAISE EXCEPTION 'You can''t change % on this participant', col;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_participant_update_trigger ON public.rp_session_participants;
+CREATE TRIGGER guard_session_participant_update_trigger
+  BEFORE UPDATE ON public.rp_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_participant_update();
+
+-- Writers can update the session, but not the columns only the server sets:
+-- who created it and where it came from (imports, sequels and branches).
+-- These are pinned for clients; functions running as their owner aren't
+-- affected. Read through jsonb because most of them are added by later
+-- migrations; columns that don't exist yet are simply skipped.
+CREATE OR REPLACE FUNCTION guard_session_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW := jsonb_populate_record(NEW, jsonb_build_object(
+    'created_by', old_row -> 'created_by',
+    'imported_from', old_row -> 'imported_from',
+    'imported_at', old_row -> 'imported_at',
+    'parent_session_id', old_row -> 'parent_session_id',
+    'branched_from_session_id', old_row -> 'branched_from_session_id',
+    'branched_from_message_id', old_row -> 'branched_from_message_id'
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_update_trigger ON public.rp_sessions;
+CREATE TRIGGER guard_session_update_trigger
+  BEFORE UPDATE ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_update();
+
+-- RP Sessions
+DROP POLICY IF EXISTS "rp_sessions_select_participants" ON public.rp_sessions;
+CREATE POLICY "rp_sessions_select_participants"
+  ON public.rp_sessions FOR SELECT
+  USING (auth.uid() = created_by OR public.is_session_participant(id, true));
+
+DROP POLICY IF EXISTS "rp_sessions_insert_participants" ON public.rp_sessions;
+CREATE POLICY "rp_sessions_insert_participants"
+  ON public.rp_sessions FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "rp_sessions_update_participants" ON public.rp_sessions;
+CREATE POLICY "rp_sessions_update_participants"
+  ON public.rp_sessions FOR UPDATE
+  USING (public.is_session_participant(id))
+  WITH CHECK (public.is_session_participant(id));
+
+-- RP Session Characters
+DROP POLICY IF EXISTS "rp_session_characters_select_participants" ON public.rp_session_characters;
+CREATE POLICY "rp_session_characters_select_participants"
+  ON public.rp_session_characters FOR SELECT
+  USING (public.is_session_participant(session_id, true));
+
+DROP POLICY IF EXISTS "rp_session_characters_insert_participants" ON public.rp_session_characters;
+CREATE POLICY "rp_session_characters_insert_participants"
+  ON public.rp_session_characters FOR INSERT
+  WITH CHECK (
+    (public.is_session_participant(session_id) OR public.is_session_owner(session_id)) AND
+    EXISTS (
+      SELECT 1 FROM public.characters c
+      WHERE c.id = character_id AND c.user_id = auth.uid()
+    )
+  );
+
+-- RP Session Messages
+DROP POLICY IF EXISTS "rp_session_messages_select_participants" ON public.rp_session_messages;
+CREATE POLICY "rp_session_messages_select_participants"
+  ON public.rp_session_messages FOR SELECT
+  TO authenticated, anon
+  USING (
+    public.is_session_participant(session_id, true)
+    OR EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = rp_session_messages.session_id AND s.is_public = true
+    )
+  );
+
+DROP POLICY IF EXISTS "rp_session_messages_insert_sender" ON public.rp_session_messages;
+CREATE POLICY "rp_session_messages_insert_sender"
+  ON public.rp_session_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    public.is_session_participant(session_id)
+  );
+
+-- RP Session Feedback
+DROP POLICY IF EXISTS "rp_session_feedback_select_participants" ON public.rp_session_feedback;
+CREATE POLICY "rp_session_feedback_select_participants"
+  ON public.rp_session_feedback FOR SELECT
+  USING (public.is_session_participant(session_id, true));
+
+DROP POLICY IF EXISTS "rp_session_feedback_insert_participants" ON public.rp_session_feedback;
+CREATE POLICY "rp_session_feedback_insert_participants"
+  ON public.rp_session_feedback FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.is_session_participant(session_id, true)
+  );
+
+DROP POLICY IF EXISTS "rp_session_feedback_update_participants" ON public.rp_session_feedback;
+CREATE POLICY "rp_session_feedback_update_participants"
+  ON public.rp_session_feedback FOR UPDATE
+  USING (
+    -- Allow update if user is the feedback giver OR another participant receiving feedback
+    auth.uid() = user_id OR
+    (public.is_session_participant(session_id, true) AND auth.uid() != user_id)
+  )
+  WITH CHECK (
+    auth.uid() = user_id OR
+    (public.is_session_participant(session_id, true) AND auth.uid() != user_id)
+  );
+
+-- RP Session Viewers
+DROP POLICY IF EXISTS "Anyone can view session viewers" ON public.rp_session_viewers;
+CREATE POLICY "Anyone can view session viewers"
+ON public.rp_session_viewers
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.rp_sessions
+    WHERE rp_sessions.id = rp_session_viewers.session_id
+    AND rp_sessions.is_public = true
+  )
+  OR public.is_session_participant(rp_session_viewers.session_id, true)
+);
+
+-- -----------------------
+-- RESPONSE TIME TRIGGER
+-- -----------------------
+-- With more than two writers, "the previous message from someone else" is the
+-- wrong baseline: measure from the first message by anyone else since the
+-- sender's own previous message, i.e. from when it became their turn to reply
+CREATE OR REPLACE FUNCTION calculate_response_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  my_prev_at TIMESTAMPTZ;
+  turn_started_at TIMESTAMPTZ;
+  response_seconds INTEGER;
+  session_is_active BOOLEAN;
+BEGIN
+  -- Check if session is active
+  SELECT is_active INTO session_is_active
+  FROM public.rp_sessions
+  WHERE id = NEW.session_id;
+
+  -- Only calculate response time if session is active
+  IF session_is_active = true THEN
+    -- Sender's own previous message in this session
+    SELECT MAX(created_at) INTO my_prev_at
+    FROM public.rp_session_messages
+    WHERE session_id = NEW.session_id
+      AND sender_id = NEW.sender_id
+      AND created_at < NEW.created_at
+      AND id != NEW.id;
+
+    -- First message from another current participant since then
+    SELECT MIN(m.created_at) INTO turn_started_at
+    FROM public.rp_session_messages m
+    JOIN public.rp_session_participants p
+      ON p.session_id = m.session_id AND p.user_id = m.sender_id
+    WHERE m.session_id = NEW.session_id
+      AND m.sender_id != NEW.sender_id
+      AND m.created_at < NEW.created_at
+      AND (my_prev_at IS NULL OR m.created_at > my_prev_at);
+
+    IF turn_started_at IS NOT NULL THEN
+      response_seconds := EXTRACT(EPOCH FROM (NEW.created_at - turn_started_at))::INTEGER;
+
+      -- Insert response time record
+      INSERT INTO public.rp_response_times (user_id, session_id, response_time_seconds)
+      VALUES (NEW.sender_id, NEW.session_id, response_seconds)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  -- Update last_message_at on session
+  UPDATE public.rp_sessions
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------
+-- DROP THE PAIR COLUMNS
+-- -----------------------
+-- Policies above no longer reference user_a/user_b, so they can go
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS unique_active_session;
+DROP INDEX IF EXISTS rp_sessions_user_a_idx;
+DROP INDEX IF EXISTS rp_sessions_user_b_idx;
+ALTER TABLE public.rp_sessions
+DROP COLUMN IF EXISTS user_a,
+DROP COLUMN IF EXISTS user_b;
+
+CREATE INDEX IF NOT EXISTS rp_sessions_created_by_idx ON public.rp_sessions (created_by);
+
+-- Participant changes are streamed to the session page header
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_participants'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_participants;
+  END IF;
+END $$;
@@ -0,0 +1,111 @@
+-- ============================================================================
+-- SCENE AND CHAPTER BREAKS
+-- ============================================================================
+-- Adds a 'scene' message type: a titled break in the transcript, either a
+-- scene or a chapter (scene_kind). The body is the title. Breaks drive the
+-- session's table of contents, exports and the public reading view, and
+-- don't count as turns for response times.
+-- Run this in your Supabase SQL editor after add_session_dice_rolls.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SCENE MESSAGES
+-- -----------------------
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_message_type_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_message_type_check
+CHECK (message_type IN ('ooc', 'narration', 'system', 'roll', 'scene'));
+
+ALTER TABLE public.rp_session_messages
+ADD COLUMN IF NOT EXISTS scene_kind TEXT;
+
+ALTER TABLE public.rp_session_messages DROP CONSTRAINT IF EXISTS rp_session_messages_scene_kind_check;
+ALTER TABLE public.rp_session_messages
+ADD CONSTRAINT rp_session_messages_scene_kind_check
+CHECK (
+  (message_type = 'scene' AND scene_kind IN ('scene', 'chapter')) OR
+  (message_type != 'scene' AND scene_kind IS NULL)
+);
+
+-- Table of contents lookups
+CREATE INDEX IF NOT EXISTS rp_session_messages_scenes_idx
+  ON public.rp_session_messages (session_id, created_at)
+  WHERE message_type = 'scene';
+
+-- Breaks are part of the story, so like narration they need an active session
+DROP POLICY IF EXISTS "rp_session_messages_insert_sender" ON public.rp_session_messages;
+CREATE POLICY "rp_session_messages_insert_sender"
+  ON public.rp_session_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    message_type IN ('ooc', 'narration', 'scene') AND
+    public.is_session_participant(session_id) AND
+    EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id
+        AND (s.status = 'active' OR (s.status = 'paused' AND message_type = 'ooc'))
+    )
+  );
+
+-- -----------------------
+-- RESPONSE TIME TRIGGER
+-- -----------------------
+-- A break isn't a turn: posting one doesn't count as a response, doesn't
+-- start anyone else's turn and doesn't reset last_message_at
+CREATE OR REPLACE FUNCTION calculate_response_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  my_prev_at TIMESTAMPTZ;
+  turn_started_at TIMESTAMPTZ;
+  response_seconds INTEGER;
+  session_status TEXT;
+BEGIN
+  IF NEW.message_type IN ('system', 'scene') OR NEW.imported THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO session_status
+  FROM public.rp_sessions
+  WHERE id = NEW.session_id;
+
+  IF session_status = 'active' THEN
+    -- Sender's own previous message in this session
+    SELECT MAX(created_at) INTO my_prev_at
+    FROM public.rp_session_messages
+    WHERE session_id = NEW.session_id
+      AND sender_id = NEW.sender_id
+      AND message_type != 'scene'
+      AND created_at < NEW.created_at
+      AND id != NEW.id;
+
+    -- First live message from another current participant since then
+    SELECT MIN(m.created_at) INTO turn_started_at
+    FROM public.rp_session_messages m
+    JOIN public.rp_session_participants p
+      ON p.session_id = m.session_id AND p.user_id = m.sender_id
+    WHERE m.session_id = NEW.session_id
+      AND m.sender_id != NEW.sender_id
+      AND m.message_type != 'scene'
+      AND NOT m.imported
+      AND m.created_at < NEW.created_at
+      AND (my_prev_at IS NULL OR m.created_at > my_prev_at);
+
+    IF turn_started_at IS NOT NULL THEN
+      response_seconds := EXTRACT(EPOCH FROM (NEW.created_at - turn_started_at))::INTEGER;
+
+      -- Insert response time record
+      INSERT INTO public.rp_response_times (user_id, session_id, response_time_seconds)
+      VALUES (NEW.sender_id, NEW.session_id, response_seconds)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  -- Update last_message_at on session
+  UPDATE public.rp_sessions
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
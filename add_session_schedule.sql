@@ -0,0 +1,228 @@
+-- ============================================================================
+-- SESSION SCHEDULING
+-- ============================================================================
+-- Planned writing times, so partners stop negotiating them in OOC:
+--   * writers.timezone and writers.weekly_availability say when each writer
+--     is usually free (local wall-clock times, per weekday). The session page
+--     uses them to suggest times that suit everyone.
+--   * rp_session_schedule_slots holds proposed times. Another writer in the
+--     session confirms one with public.confirm_session_slot(); anyone in it
+--     can call it off with public.cancel_session_slot().
+--   * Confirmed times are published per writer as an iCalendar feed at
+--     /calendar/<token>.ics. The token is secret and lives in
+--     writer_calendar_feeds; calendar apps can't sign in, so the feed route
+--     reads it through public.calendar_feed_events().
+-- Run this in your Supabase SQL editor after add_message_drafts.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- AVAILABILITY
+-- -----------------------
+-- weekly_availability: [{ "day": 0-6 (Sunday = 0), "start": "HH:MM", "end": "HH:MM" }]
+-- in the writer's timezone. An end of "24:00" means midnight.
+ALTER TABLE public.writers
+ADD COLUMN IF NOT EXISTS timezone TEXT,
+ADD COLUMN IF NOT EXISTS weekly_availability JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.writers DROP CONSTRAINT IF EXISTS writers_weekly_availability_check;
+ALTER TABLE public.writers
+ADD CONSTRAINT writers_weekly_availability_check
+CHECK (jsonb_typeof(weekly_availability) = 'array' AND jsonb_array_length(weekly_availability) <= 50);
+
+-- -----------------------
+-- SCHEDULED SLOTS
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.rp_session_schedule_slots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  note TEXT CHECK (note IS NULL OR char_length(note) <= 200),
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'confirmed', 'cancelled')),
+  confirmed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  confirmed_at TIMESTAMPTZ,
+  cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ends_at > starts_at AND ends_at <= starts_at + INTERVAL '12 hours')
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_schedule_slots_session_idx
+  ON public.rp_session_schedule_slots (session_id, starts_at);
+
+CREATE INDEX IF NOT EXISTS rp_session_schedule_slots_confirmed_idx
+  ON public.rp_session_schedule_slots (starts_at)
+  WHERE status = 'confirmed';
+
+-- Per-writer secret for the calendar feed URL
+CREATE TABLE IF NOT EXISTS public.writer_calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token UUID NOT NULL UNIQUE DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+ALTER TABLE public.rp_session_schedule_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.writer_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rp_session_schedule_slots_select_participants" ON public.rp_session_schedule_slots;
+CREATE POLICY "rp_session_schedule_slots_select_participants"
+  ON public.rp_session_schedule_slots FOR SELECT
+  TO authenticated
+  USING (public.is_session_participant(session_id, true));
+
+-- Proposals only; confirming and cancelling go through the functions below
+DROP POLICY IF EXISTS "rp_session_schedule_slots_insert_writers" ON public.rp_session_schedule_slots;
+CREATE POLICY "rp_session_schedule_slots_insert_writers"
+  ON public.rp_session_schedule_slots FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_session_participant(session_id) AND
+    proposed_by = auth.uid() AND
+    status = 'proposed' AND
+    starts_at > NOW()
+  );
+
+DROP POLICY IF EXISTS "writer_calendar_feeds_select_own" ON public.writer_calendar_feeds;
+CREATE POLICY "writer_calendar_feeds_select_own"
+  ON public.writer_calendar_feeds FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- -----------------------
+-- CONFIRM / CANCEL
+-- -----------------------
+-- Confirming takes someone other than the proposer, unless they're the only writer
+CREATE OR REPLACE FUNCTION public.confirm_session_slot(p_slot_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  me UUID := auth.uid();
+  slot RECORD;
+  writer_count INTEGER;
+BEGIN
+  SELECT * INTO slot FROM public.rp_session_schedule_slots WHERE id = p_slot_id FOR UPDATE;
+
+  IF slot.id IS NULL OR NOT public.is_session_participant(slot.session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can confirm times';
+  END IF;
+
+  IF slot.status <> 'proposed' THEN
+    RAISE EXCEPTION 'This time has already been %', slot.status;
+  END IF;
+
+  IF slot.ends_at <= NOW() THEN
+    RAISE EXCEPTION 'This time has already passed';
+  END IF;
+
+  SELECT COUNT(*) INTO writer_count
+  FROM public.rp_session_participants
+  WHERE session_id = slot.session_id
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  IF slot.proposed_by = me AND writer_count > 1 THEN
+    RAISE EXCEPTION 'Your partner needs to confirm a time you proposed';
+  END IF;
+
+  UPDATE public.rp_session_schedule_slots
+  SET status = 'confirmed', confirmed_by = me, confirmed_at = NOW()
+  WHERE id = p_slot_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_session_slot(p_slot_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  slot RECORD;
+BEGIN
+  SELECT * INTO slot FROM public.rp_session_schedule_slots WHERE id = p_slot_id FOR UPDATE;
+
+  IF slot.id IS NULL OR NOT public.is_session_participant(slot.session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can cancel times';
+  END IF;
+
+  IF slot.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.rp_session_schedule_slots
+  SET status = 'cancelled', cancelled_by = auth.uid()
+  WHERE id = p_slot_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_session_slot(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_session_slot(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_session_slot(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_session_slot(UUID) TO authenticated;
+
+-- -----------------------
+-- CALENDAR FEED
+-- -----------------------
+-- The caller's feed token, created on first use. p_reset issues a new one,
+-- which breaks any calendar subscribed to the old URL.
+CREATE OR REPLACE FUNCTION public.calendar_feed_token(p_reset BOOLEAN DEFAULT false)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  feed_token UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.writer_calendar_feeds (user_id)
+  VALUES (me)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = CASE WHEN p_reset THEN uuid_generate_v4() ELSE writer_calendar_feeds.token END
+  RETURNING token INTO feed_token;
+
+  RETURN feed_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.calendar_feed_token(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.calendar_feed_token(BOOLEAN) TO authenticated;
+
+-- Confirmed times in the feed owner's current sessions, from 30 days back.
+-- Anyone holding the token can read them, so only what a calendar needs is returned.
+CREATE OR REPLACE FUNCTION public.calendar_feed_events(p_token UUID)
+RETURNS TABLE (
+  slot_id UUID,
+  session_id UUID,
+  session_name TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  note TEXT,
+  confirmed_at TIMESTAMPTZ
+) AS $$
+  SELECT sl.id, sl.session_id, s.name, sl.starts_at, sl.ends_at, sl.note, sl.confirmed_at
+  FROM public.writer_calendar_feeds f
+  JOIN public.rp_session_participants p
+    ON p.user_id = f.user_id AND p.invite_status = 'accepted' AND p.left_at IS NULL
+  JOIN public.rp_session_schedule_slots sl
+    ON sl.session_id = p.session_id AND sl.status = 'confirmed'
+  JOIN public.rp_sessions s ON s.id = sl.session_id
+  WHERE f.token = p_token
+    AND sl.ends_at > NOW() - INTERVAL '30 days'
+  ORDER BY sl.starts_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.calendar_feed_events(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.calendar_feed_events(UUID) TO anon, authenticated;
+
+-- -----------------------
+-- REALTIME
+-- -----------------------
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_schedule_slots'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_schedule_slots;
+  END IF;
+END $$;
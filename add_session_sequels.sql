@@ -0,0 +1,230 @@
+-- ============================================================================
+-- REOPENING BY AGREEMENT AND SEQUELS
+-- ============================================================================
+-- A closed session no longer reopens on one writer's say-so: every current
+-- writer agrees through public.agree_to_reopen_session() and the last one to
+-- agree reopens it.
+--
+-- A sequel is a new session that continues a closed (or running) one. It
+-- records its parent, takes over the name, style and characters, and invites
+-- the same writers. Each session has at most one sequel, so a series is a
+-- simple chain that public.session_series() walks in both directions.
+-- Run this in your Supabase SQL editor after add_session_turns.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- COLUMNS
+-- -----------------------
+ALTER TABLE public.rp_session_participants
+ADD COLUMN IF NOT EXISTS reopen_agreed_at TIMESTAMPTZ;
+
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS parent_session_id UUID REFERENCES public.rp_sessions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS rp_sessions_parent_session_id_key
+  ON public.rp_sessions (parent_session_id)
+  WHERE parent_session_id IS NOT NULL;
+
+-- -----------------------
+-- REOPEN AGREEMENT
+-- -----------------------
+-- Clients can't take a session from closed back to active directly; the
+-- agreement function below runs as its owner and is the only way through
+CREATE OR REPLACE FUNCTION require_reopen_agreement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'closed' AND NEW.status = 'active' AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Every writer has to agree before a closed session reopens';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS require_reopen_agreement_trigger ON public.rp_sessions;
+CREATE TRIGGER require_reopen_agreement_trigger
+  BEFORE UPDATE OF status ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION require_reopen_agreement();
+
+-- Agreement is only recorded by the function below, so nobody can stamp it on
+-- another writer's row. Fires before guard_session_participant_update (triggers
+-- run in name order), which then sees no change to the column.
+CREATE OR REPLACE FUNCTION guard_reopen_agreement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.reopen_agreed_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.reopen_agreed_at END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_reopen_agreement_trigger ON public.rp_session_participants;
+CREATE TRIGGER guard_reopen_agreement_trigger
+  BEFORE INSERT OR UPDATE ON public.rp_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_reopen_agreement();
+
+-- Agree (or take back agreement) to reopen. Returns true when this agreement
+-- was the last one needed and the session is active again.
+CREATE OR REPLACE FUNCTION public.agree_to_reopen_session(p_session_id UUID, p_agree BOOLEAN DEFAULT true)
+RETURNS BOOLEAN AS $$
+DECLARE
+  session_status TEXT;
+  holdouts INTEGER;
+BEGIN
+  SELECT status INTO session_status
+  FROM public.rp_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT public.is_session_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can reopen it';
+  END IF;
+
+  IF session_status IS DISTINCT FROM 'closed' THEN
+    RAISE EXCEPTION 'Only closed sessions can be reopened';
+  END IF;
+
+  UPDATE public.rp_session_participants
+  SET reopen_agreed_at = CASE WHEN p_agree THEN NOW() END
+  WHERE session_id = p_session_id AND user_id = auth.uid();
+
+  IF NOT p_agree THEN
+    RETURN false;
+  END IF;
+
+  SELECT COUNT(*) INTO holdouts
+  FROM public.rp_session_participants
+  WHERE session_id = p_session_id
+    AND invite_status = 'accepted'
+    AND left_at IS NULL
+    AND reopen_agreed_at IS NULL;
+
+  IF holdouts > 0 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.rp_sessions
+  SET status = 'active'
+  WHERE id = p_session_id;
+
+  UPDATE public.rp_session_participants
+  SET reopen_agreed_at = NULL
+  WHERE session_id = p_session_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.agree_to_reopen_session(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.agree_to_reopen_session(UUID, BOOLEAN) TO authenticated;
+
+-- -----------------------
+-- SEQUELS
+-- -----------------------
+-- Start the sequel as its owner and invite the other current writers. Their
+-- characters come along, so accepting only needs a click. Returns the new
+-- session id.
+CREATE OR REPLACE FUNCTION public.start_session_sequel(p_session_id UUID, p_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  me UUID := auth.uid();
+  parent RECORD;
+  sequel_id UUID;
+BEGIN
+  IF NOT public.is_session_participant(p_session_id) THEN
+    RAISE EXCEPTION 'Only writers in this session can start a sequel';
+  END IF;
+
+  SELECT id, name, style, is_public, status INTO parent
+  FROM public.rp_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF parent.status NOT IN ('active', 'paused', 'closed') THEN
+    RAISE EXCEPTION 'Sequels can only follow a session that got under way';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.rp_sessions WHERE parent_session_id = p_session_id) THEN
+    RAISE EXCEPTION 'This session already has a sequel';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rp_session_participants
+    WHERE session_id = p_session_id
+      AND user_id != me
+      AND invite_status = 'accepted'
+      AND left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'There''s nobody left in this session to continue the story with';
+  END IF;
+
+  INSERT INTO public.rp_sessions (created_by, status, name, style, is_public, parent_session_id)
+  VALUES (me, 'pending', COALESCE(NULLIF(btrim(p_name), ''), parent.name), parent.style, parent.is_public, p_session_id)
+  RETURNING id INTO sequel_id;
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  VALUES (sequel_id, me, 'owner', 'accepted', me);
+
+  INSERT INTO public.rp_session_participants (session_id, user_id, role, invite_status, invited_by)
+  SELECT sequel_id, user_id, 'writer', 'pending', me
+  FROM public.rp_session_participants
+  WHERE session_id = p_session_id
+    AND user_id != me
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  -- Characters of everyone who comes along
+  INSERT INTO public.rp_session_characters (session_id, character_id)
+  SELECT sequel_id, sc.character_id
+  FROM public.rp_session_characters sc
+  JOIN public.characters c ON c.id = sc.character_id
+  JOIN public.rp_session_participants p ON p.session_id = sequel_id AND p.user_id = c.user_id
+  WHERE sc.session_id = p_session_id
+  ON CONFLICT (session_id, character_id) DO NOTHING;
+
+  RETURN sequel_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.start_session_sequel(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_session_sequel(UUID, TEXT) TO authenticated;
+
+-- -----------------------
+-- SERIES
+-- -----------------------
+-- The whole chain a session belongs to, first part first. Runs with the
+-- caller's rights: parts the caller can't read end the chain on that side.
+CREATE OR REPLACE FUNCTION public.session_series(p_session_id UUID)
+RETURNS TABLE (id UUID, name TEXT, status TEXT, part INTEGER) AS $$
+  WITH RECURSIVE earlier AS (
+    SELECT s.id, s.name, s.status, s.parent_session_id, 0 AS depth
+    FROM public.rp_sessions s
+    WHERE s.id = p_session_id
+    UNION ALL
+    SELECT p.id, p.name, p.status, p.parent_session_id, e.depth - 1
+    FROM public.rp_sessions p
+    JOIN earlier e ON p.id = e.parent_session_id
+  ),
+  later AS (
+    SELECT s.id, s.name, s.status, 0 AS depth
+    FROM public.rp_sessions s
+    WHERE s.id = p_session_id
+    UNION ALL
+    SELECT c.id, c.name, c.status, l.depth + 1
+    FROM public.rp_sessions c
+    JOIN later l ON c.parent_session_id = l.id
+  ),
+  chain AS (
+    SELECT earlier.id, earlier.name, earlier.status, earlier.depth FROM earlier
+    UNION
+    SELECT later.id, later.name, later.status, later.depth FROM later
+  )
+  SELECT chain.id, chain.name, chain.status, (ROW_NUMBER() OVER (ORDER BY chain.depth))::INTEGER
+  FROM chain
+  ORDER BY chain.depth;
+$$ LANGUAGE sql STABLE SET search_path = public;
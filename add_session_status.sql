@@ -0,0 +1,268 @@
+-- ============================================================================
+-- SESSION STATUS STATE MACHINE
+-- ============================================================================
+-- rp_sessions.status is the single source of truth for a session's state and
+-- replaces the old is_active flag:
+--
+--   pending  -> active | declined | expired | closed   (invitation lifecycle)
+--   active   -> paused | closed                        (pause, close)
+--   paused   -> active | closed                        (resume, close)
+--   closed   -> active                                 (reopen)
+--
+-- Every transition is stamped on the session (status_changed_at/_by) and
+-- logged to rp_session_status_events. Transitions made by scheduled jobs have
+-- no user (changed_by is NULL).
+-- Run this in your Supabase SQL editor after add_session_inactivity_reminders.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- STATUS COLUMN
+-- -----------------------
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_status_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_status_check
+CHECK (status IN ('pending', 'active', 'paused', 'declined', 'expired', 'closed'));
+
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Fold is_active into status before the transition trigger exists
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'rp_sessions' AND column_name = 'is_active'
+  ) THEN
+    UPDATE public.rp_sessions
+    SET status = 'paused'
+    WHERE status = 'active' AND is_active = false;
+  END IF;
+END $$;
+
+UPDATE public.rp_sessions
+SET status_changed_at = COALESCE(closed_at, created_at),
+    status_changed_by = CASE WHEN status = 'closed' THEN closed_by END
+WHERE status_changed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS rp_sessions_status_idx ON public.rp_sessions (status);
+
+-- -----------------------
+-- STATUS EVENTS TABLE
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.rp_session_status_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_status_events_session_id_idx ON public.rp_session_status_events (session_id, created_at);
+
+ALTER TABLE public.rp_session_status_events ENABLE ROW LEVEL SECURITY;
+
+-- Writers in the session (invited, current or past) can see its history;
+-- public viewers can't. Rows are only written by the trigger
+DROP POLICY IF EXISTS "rp_session_status_events_select_participants" ON public.rp_session_status_events;
+CREATE POLICY "rp_session_status_events_select_participants"
+  ON public.rp_session_status_events FOR SELECT
+  USING (public.is_session_participant(session_id, true));
+
+-- -----------------------
+-- TRANSITIONS
+-- -----------------------
+CREATE OR REPLACE FUNCTION enforce_session_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status_changed_at := NOW();
+    NEW.status_changed_by := auth.uid();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    -- Only the trigger stamps these
+    NEW.status_changed_at := OLD.status_changed_at;
+    NEW.status_changed_by := OLD.status_changed_by;
+    NEW.closed_at := OLD.closed_at;
+    NEW.closed_by := OLD.closed_by;
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('active', 'declined', 'expired', 'closed')) OR
+    (OLD.status = 'active' AND NEW.status IN ('paused', 'closed')) OR
+    (OLD.status = 'paused' AND NEW.status IN ('active', 'closed')) OR
+    (OLD.status = 'closed' AND NEW.status = 'active')
+  ) THEN
+    RAISE EXCEPTION 'A session can''t go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  NEW.status_changed_at := NOW();
+  NEW.status_changed_by := auth.uid();
+
+  IF NEW.status = 'closed' THEN
+    NEW.closed_at := NOW();
+    NEW.closed_by := auth.uid();
+  ELSIF OLD.status = 'closed' THEN
+    NEW.closed_at := NULL;
+    NEW.closed_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_session_status_transition_trigger ON public.rp_sessions;
+CREATE TRIGGER enforce_session_status_transition_trigger
+  BEFORE INSERT OR UPDATE ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_session_status_transition();
+
+-- SECURITY DEFINER so the event row is written regardless of who made the change
+CREATE OR REPLACE FUNCTION log_session_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.rp_session_status_events (session_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      NEW.status_changed_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_session_status_event_trigger ON public.rp_sessions;
+CREATE TRIGGER log_session_status_event_trigger
+  AFTER INSERT OR UPDATE OF status ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION log_session_status_event();
+
+-- -----------------------
+-- MESSAGES FOLLOW THE STATE
+-- -----------------------
+-- Paused sessions still allow OOC chat; narration needs an active session
+DROP POLICY IF EXISTS "rp_session_messages_insert_sender" ON public.rp_session_messages;
+CREATE POLICY "rp_session_messages_insert_sender"
+  ON public.rp_session_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    public.is_session_participant(session_id) AND
+    EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id
+        AND (s.status = 'active' OR (s.status = 'paused' AND message_type = 'ooc'))
+    )
+  );
+
+-- Response times only count while the session is active
+CREATE OR REPLACE FUNCTION calculate_response_time()
+RETURNS TRIGGER AS $$
+DECLARE
+  my_prev_at TIMESTAMPTZ;
+  turn_started_at TIMESTAMPTZ;
+  response_seconds INTEGER;
+  session_status TEXT;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO session_status
+  FROM public.rp_sessions
+  WHERE id = NEW.session_id;
+
+  IF session_status = 'active' THEN
+    -- Sender's own previous message in this session
+    SELECT MAX(created_at) INTO my_prev_at
+    FROM public.rp_session_messages
+    WHERE session_id = NEW.session_id
+      AND sender_id = NEW.sender_id
+      AND created_at < NEW.created_at
+      AND id != NEW.id;
+
+    -- First message from another current participant since then
+    SELECT MIN(m.created_at) INTO turn_started_at
+    FROM public.rp_session_messages m
+    JOIN public.rp_session_participants p
+      ON p.session_id = m.session_id AND p.user_id = m.sender_id
+    WHERE m.session_id = NEW.session_id
+      AND m.sender_id != NEW.sender_id
+      AND m.created_at < NEW.created_at
+      AND (my_prev_at IS NULL OR m.created_at > my_prev_at);
+
+    IF turn_started_at IS NOT NULL THEN
+      response_seconds := EXTRACT(EPOCH FROM (NEW.created_at - turn_started_at))::INTEGER;
+
+      -- Insert response time record
+      INSERT INTO public.rp_response_times (user_id, session_id, response_time_seconds)
+      VALUES (NEW.sender_id, NEW.session_id, response_seconds)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  -- Update last_message_at on session
+  UPDATE public.rp_sessions
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Paused sessions don't get reminders
+CREATE OR REPLACE FUNCTION public.send_inactivity_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  reminded_count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT id, inactivity_reminder_minutes
+    FROM public.rp_sessions
+    WHERE status = 'active'
+      AND inactivity_reminder_minutes IS NOT NULL
+      AND last_message_at IS NOT NULL
+      AND last_message_at < NOW() - make_interval(mins => inactivity_reminder_minutes)
+      AND (reminder_sent_at IS NULL OR reminder_sent_at < last_message_at)
+    FOR UPDATE SKIP LOCKED
+  ),
+  notices AS (
+    INSERT INTO public.rp_session_messages (session_id, sender_id, message_type, body)
+    SELECT
+      id,
+      NULL,
+      'system',
+      format(
+        '⏸️ This session has been quiet for %s. Consider pausing it if you''ll be away, or let your partners know when you''ll be back!',
+        CASE
+          WHEN inactivity_reminder_minutes % 1440 = 0 THEN (inactivity_reminder_minutes / 1440) || ' day(s)'
+          WHEN inactivity_reminder_minutes % 60 = 0 THEN (inactivity_reminder_minutes / 60) || ' hour(s)'
+          ELSE inactivity_reminder_minutes || ' minutes'
+        END
+      )
+    FROM due
+    RETURNING session_id
+  )
+  UPDATE public.rp_sessions s
+  SET reminder_sent_at = NOW()
+  FROM notices n
+  WHERE s.id = n.session_id;
+
+  GET DIAGNOSTICS reminded_count = ROW_COUNT;
+  RETURN reminded_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- -----------------------
+-- DROP is_active
+-- -----------------------
+DROP INDEX IF EXISTS rp_sessions_is_active_idx;
+ALTER TABLE public.rp_sessions DROP COLUMN IF EXISTS is_active;
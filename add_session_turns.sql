@@ -0,0 +1,394 @@
+-- ============================================================================
+-- SESSION TURNS
+-- ============================================================================
+-- Each session tracks whose turn it is to post next (next_turn_user_id). A
+-- turn is a narration post; OOC chat, rolls, scene breaks and system notices
+-- don't pass it on. Per-session turn order:
+--   free          anyone may post; the writer who has waited longest is up
+--   round_robin   writers take turns in a fixed order (owner first, then by
+--                 when they joined)
+--   strict        round_robin, and narration out of turn is rejected
+-- An optional turn deadline posts a system nudge naming the writer whose turn
+-- it is once the session has been quiet that long (measured from
+-- last_message_at or the start of the turn, whichever is later). One nudge
+-- per turn.
+-- Run this in your Supabase SQL editor after add_session_viewer_presence.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- COLUMNS
+-- -----------------------
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS turn_order TEXT NOT NULL DEFAULT 'free',
+ADD COLUMN IF NOT EXISTS next_turn_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS turn_started_at TIMESTAMPTZ,
+-- NULL turns the deadline off
+ADD COLUMN IF NOT EXISTS turn_deadline_hours INTEGER,
+ADD COLUMN IF NOT EXISTS turn_nudged_at TIMESTAMPTZ;
+
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_turn_order_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_turn_order_check
+CHECK (turn_order IN ('free', 'round_robin', 'strict'));
+
+ALTER TABLE public.rp_sessions DROP CONSTRAINT IF EXISTS rp_sessions_turn_deadline_hours_check;
+ALTER TABLE public.rp_sessions
+ADD CONSTRAINT rp_sessions_turn_deadline_hours_check
+CHECK (turn_deadline_hours IS NULL OR turn_deadline_hours BETWEEN 1 AND 720);
+
+-- -----------------------
+-- NEXT WRITER
+-- -----------------------
+-- Who is up after p_after has gone (NULL: nobody has posted yet). Only current
+-- writers take turns; with fewer than two there's no turn to track.
+CREATE OR REPLACE FUNCTION public.session_next_turn(p_session_id UUID, p_turn_order TEXT, p_after UUID)
+RETURNS UUID AS $$
+DECLARE
+  writers UUID[];
+  after_position INTEGER;
+  next_writer UUID;
+BEGIN
+  SELECT array_agg(user_id ORDER BY (role = 'owner') DESC, joined_at)
+  INTO writers
+  FROM public.rp_session_participants
+  WHERE session_id = p_session_id
+    AND invite_status = 'accepted'
+    AND left_at IS NULL;
+
+  IF COALESCE(array_length(writers, 1), 0) < 2 THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_turn_order IN ('round_robin', 'strict') THEN
+    after_position := array_position(writers, p_after);
+    IF after_position IS NULL THEN
+      RETURN writers[1];
+    END IF;
+    RETURN writers[after_position % array_length(writers, 1) + 1];
+  END IF;
+
+  -- Free order: whoever's latest narration is oldest (never posted comes first)
+  SELECT w.user_id INTO next_writer
+  FROM unnest(writers) WITH ORDINALITY AS w(user_id, position)
+  WHERE w.user_id IS DISTINCT FROM p_after
+  ORDER BY (
+    SELECT MAX(m.created_at)
+    FROM public.rp_session_messages m
+    WHERE m.session_id = p_session_id
+      AND m.sender_id = w.user_id
+      AND m.message_type = 'narration'
+  ) ASC NULLS FIRST, w.position
+  LIMIT 1;
+
+  RETURN next_writer;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.session_next_turn(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Re-check the turn after the writers change: the current writer keeps it if
+-- they're still in the session, otherwise it goes to whoever follows the
+-- last narrator
+CREATE OR REPLACE FUNCTION public.refresh_session_turn(p_session_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  session_turn_order TEXT;
+  turn_holder UUID;
+  last_narrator UUID;
+  next_writer UUID;
+BEGIN
+  SELECT turn_order, next_turn_user_id INTO session_turn_order, turn_holder
+  FROM public.rp_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF turn_holder IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.rp_session_participants
+      WHERE session_id = p_session_id
+        AND user_id = turn_holder
+        AND invite_status = 'accepted'
+        AND left_at IS NULL
+    )
+    -- Still someone to hand over to
+    AND public.session_next_turn(p_session_id, session_turn_order, turn_holder) IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT sender_id INTO last_narrator
+  FROM public.rp_session_messages
+  WHERE session_id = p_session_id
+    AND message_type = 'narration'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  next_writer := public.session_next_turn(p_session_id, session_turn_order, last_narrator);
+
+  IF next_writer IS DISTINCT FROM turn_holder THEN
+    UPDATE public.rp_sessions
+    SET next_turn_user_id = next_writer,
+        turn_started_at = NOW(),
+        turn_nudged_at = NULL
+    WHERE id = p_session_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_session_turn(UUID) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------
+-- TURN STATE GUARD
+-- -----------------------
+-- Clients may change the turn order and deadline but not whose turn it is;
+-- the turn functions here run as their owner and aren't affected
+CREATE OR REPLACE FUNCTION guard_session_turn()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    NEW.next_turn_user_id := OLD.next_turn_user_id;
+    NEW.turn_started_at := OLD.turn_started_at;
+    NEW.turn_nudged_at := OLD.turn_nudged_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_session_turn_trigger ON public.rp_sessions;
+CREATE TRIGGER guard_session_turn_trigger
+  BEFORE UPDATE ON public.rp_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_session_turn();
+
+-- A new turn order re-evaluates the turn under the new rules. Fires after the
+-- guard (triggers run in name order).
+CREATE OR REPLACE FUNCTION reorder_session_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_narrator UUID;
+BEGIN
+  SELECT sender_id INTO last_narrator
+  FROM public.rp_session_messages
+  WHERE session_id = NEW.id
+    AND message_type = 'narration'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  NEW.next_turn_user_id := public.session_next_turn(NEW.id, NEW.turn_order, last_narrator);
+  IF NEW.next_turn_user_id IS DISTINCT FROM OLD.next_turn_user_id THEN
+    NEW.turn_started_at := NOW();
+    NEW.turn_nudged_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reorder_session_turn_trigger ON public.rp_sessions;
+CREATE TRIGGER reorder_session_turn_trigger
+  BEFORE UPDATE OF turn_order ON public.rp_sessions
+  FOR EACH ROW
+  WHEN (NEW.turn_order IS DISTINCT FROM OLD.turn_order)
+  EXECUTE FUNCTION reorder_session_turn();
+
+-- -----------------------
+-- STRICT ORDER
+-- -----------------------
+CREATE OR REPLACE FUNCTION enforce_session_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  session_turn_order TEXT;
+  turn_holder UUID;
+BEGIN
+  IF NEW.message_type != 'narration' OR NEW.imported THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT turn_order, next_turn_user_id INTO session_turn_order, turn_holder
+  FROM public.rp_sessions
+  WHERE id = NEW.session_id;
+
+  IF session_turn_order = 'strict' AND turn_holder IS NOT NULL AND turn_holder != NEW.sender_id THEN
+    RAISE EXCEPTION 'It''s not your turn yet. This session takes turns in a fixed order.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_session_turn_trigger ON public.rp_session_messages;
+CREATE TRIGGER enforce_session_turn_trigger
+  BEFORE INSERT ON public.rp_session_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_session_turn();
+
+-- -----------------------
+-- PASSING THE TURN
+-- -----------------------
+-- Every narration post hands the turn on
+CREATE OR REPLACE FUNCTION advance_session_turn()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.rp_sessions
+  SET next_turn_user_id = public.session_next_turn(id, turn_order, NEW.sender_id),
+      turn_started_at = NEW.created_at,
+      turn_nudged_at = NULL
+  WHERE id = NEW.session_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS advance_session_turn_trigger ON public.rp_session_messages;
+CREATE TRIGGER advance_session_turn_trigger
+  AFTER INSERT ON public.rp_session_messages
+  FOR EACH ROW
+  WHEN (NEW.message_type = 'narration')
+  EXECUTE FUNCTION advance_session_turn();
+
+-- Writers joining, leaving or accepting can change who's up
+CREATE OR REPLACE FUNCTION refresh_session_turn_on_participant_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_session_turn(OLD.session_id);
+    RETURN OLD;
+  END IF;
+
+  -- Ignore last-seen stamps and other bookkeeping
+  IF TG_OP = 'UPDATE'
+    AND NEW.invite_status IS NOT DISTINCT FROM OLD.invite_status
+    AND NEW.left_at IS NOT DISTINCT FROM OLD.left_at THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.refresh_session_turn(NEW.session_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_session_turn_trigger ON public.rp_session_participants;
+CREATE TRIGGER refresh_session_turn_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.rp_session_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_session_turn_on_participant_change();
+
+-- Skip a turn without posting: the writer whose turn it is, or the owner
+-- (e.g. when someone is away), hands it to the next writer
+CREATE OR REPLACE FUNCTION public.pass_session_turn(p_session_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  turn_holder UUID;
+  next_writer UUID;
+BEGIN
+  SELECT next_turn_user_id INTO turn_holder
+  FROM public.rp_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF turn_holder IS NULL THEN
+    RAISE EXCEPTION 'Nobody''s turn is being tracked in this session';
+  END IF;
+
+  IF turn_holder IS DISTINCT FROM auth.uid() AND NOT public.is_session_owner(p_session_id) THEN
+    RAISE EXCEPTION 'Only the writer whose turn it is or the session owner can pass the turn';
+  END IF;
+
+  UPDATE public.rp_sessions
+  SET next_turn_user_id = public.session_next_turn(id, turn_order, turn_holder),
+      turn_started_at = NOW(),
+      turn_nudged_at = NULL
+  WHERE id = p_session_id
+  RETURNING next_turn_user_id INTO next_writer;
+
+  RETURN next_writer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pass_session_turn(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.pass_session_turn(UUID) TO authenticated;
+
+-- -----------------------
+-- BACKFILL
+-- -----------------------
+DO $$
+DECLARE
+  s RECORD;
+BEGIN
+  FOR s IN
+    SELECT id FROM public.rp_sessions
+    WHERE status IN ('pending', 'active', 'paused')
+      AND next_turn_user_id IS NULL
+  LOOP
+    PERFORM public.refresh_session_turn(s.id);
+  END LOOP;
+END $$;
+
+-- -----------------------
+-- DEADLINE NUDGES
+-- -----------------------
+CREATE OR REPLACE FUNCTION public.send_turn_nudges()
+RETURNS INTEGER AS $$
+DECLARE
+  nudged_count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT s.id, s.turn_deadline_hours, s.next_turn_user_id
+    FROM public.rp_sessions s
+    WHERE s.status = 'active'
+      AND s.turn_deadline_hours IS NOT NULL
+      AND s.next_turn_user_id IS NOT NULL
+      AND s.turn_nudged_at IS NULL
+      AND GREATEST(s.last_message_at, s.turn_started_at) < NOW() - make_interval(hours => s.turn_deadline_hours)
+    FOR UPDATE SKIP LOCKED
+  ),
+  notices AS (
+    INSERT INTO public.rp_session_messages (session_id, sender_id, message_type, body)
+    SELECT
+      due.id,
+      NULL,
+      'system',
+      format(
+        '⏳ It''s %s''s turn. The story has been waiting for %s, past this session''s turn deadline.',
+        COALESCE(w.name, 'the next writer'),
+        CASE
+          WHEN due.turn_deadline_hours % 24 = 0 THEN (due.turn_deadline_hours / 24) || ' day(s)'
+          ELSE due.turn_deadline_hours || ' hour(s)'
+        END
+      )
+    FROM due
+    LEFT JOIN public.writers w ON w.user_id = due.next_turn_user_id
+    RETURNING session_id
+  )
+  UPDATE public.rp_sessions s
+  SET turn_nudged_at = NOW()
+  FROM notices n
+  WHERE s.id = n.session_id;
+
+  GET DIAGNOSTICS nudged_count = ROW_COUNT;
+  RETURN nudged_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION public.send_turn_nudges() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS rp_sessions_turn_deadline_idx
+  ON public.rp_sessions (turn_started_at)
+  WHERE status = 'active' AND turn_deadline_hours IS NOT NULL AND turn_nudged_at IS NULL;
+
+-- -----------------------
+-- SCHEDULE
+-- -----------------------
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'send-turn-nudges',
+  '*/5 * * * *',
+  $$SELECT public.send_turn_nudges()$$
+);
@@ -0,0 +1,101 @@
+-- ============================================================================
+-- SESSION VIEWERS ON REALTIME PRESENCE
+-- ============================================================================
+-- Live viewer counts now come from Realtime presence on the session page
+-- (lib/presence.ts), which also counts logged-out spectators and drops
+-- crashed tabs on its own. The database only keeps aggregated history:
+--   max_viewers        peak concurrent viewers (existing column)
+--   viewer_minutes     total minutes watched, summed across viewers
+-- One signed-in user's page (a viewer's, or a writer's while only logged-out
+-- spectators watch) reports the live count once a minute through
+-- public.record_session_viewers().
+--
+-- Replaces rp_session_viewers, its heartbeat and update_session_max_viewers()
+-- from add_session_viewers.sql / complete_session_viewers_migration.sql.
+-- Run this in your Supabase SQL editor after add_chat_presence.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- AGGREGATES
+-- -----------------------
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS viewer_minutes INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS viewers_recorded_at TIMESTAMPTZ;
+
+-- Existing max_viewers values are kept as they are (the old trigger may have
+-- over-counted, but it's the only history there is)
+
+-- -----------------------
+-- REPORTS
+-- -----------------------
+-- When each signed-in user last reported for a session, so one account
+-- can't flood the aggregates. Only record_session_viewers() touches it.
+CREATE TABLE IF NOT EXISTS public.rp_session_viewer_reports (
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+ALTER TABLE public.rp_session_viewer_reports ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------
+-- RECORD FUNCTION
+-- -----------------------
+-- The count comes from the reporter's own presence channel and can't be
+-- checked here, so only signed-in users may report for a public session
+-- (logged-out spectators still count towards it), each at most once a minute
+-- per session, and the count is capped at more than a real audience reaches.
+-- Viewer-minutes accrue at most once a minute per session.
+CREATE OR REPLACE FUNCTION public.record_session_viewers(p_session_id UUID, p_viewer_count INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  me UUID := auth.uid();
+  viewer_count INTEGER := LEAST(GREATEST(COALESCE(p_viewer_count, 0), 0), 200);
+BEGIN
+  IF me IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.rp_sessions WHERE id = p_session_id AND is_public = true) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rp_session_viewer_reports (session_id, user_id, reported_at)
+  VALUES (p_session_id, me, NOW())
+  ON CONFLICT (session_id, user_id) DO UPDATE
+  SET reported_at = EXCLUDED.reported_at
+  WHERE rp_session_viewer_reports.reported_at <= NOW() - INTERVAL '55 seconds';
+
+  -- Reported within the last minute already
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.rp_sessions
+  SET max_viewers = GREATEST(COALESCE(max_viewers, 0), viewer_count),
+      viewer_minutes = viewer_minutes + CASE
+        WHEN viewers_recorded_at IS NULL OR viewers_recorded_at <= NOW() - INTERVAL '55 seconds'
+        THEN viewer_count ELSE 0 END,
+      viewers_recorded_at = CASE
+        WHEN viewers_recorded_at IS NULL OR viewers_recorded_at <= NOW() - INTERVAL '55 seconds'
+        THEN NOW() ELSE viewers_recorded_at END
+  WHERE id = p_session_id
+    AND (
+      viewer_count > COALESCE(max_viewers, 0) OR
+      viewers_recorded_at IS NULL OR
+      viewers_recorded_at <= NOW() - INTERVAL '55 seconds'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_session_viewers(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_session_viewers(UUID, INTEGER) TO authenticated;
+
+-- -----------------------
+-- DROP THE HEARTBEAT TABLE
+-- -----------------------
+-- Dropping the table takes its max_viewers triggers with it
+DROP TABLE IF EXISTS public.rp_session_viewers;
+DROP FUNCTION IF EXISTS update_session_max_viewers();
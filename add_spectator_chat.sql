@@ -0,0 +1,152 @@
+-- ============================================================================
+-- SPECTATOR CHAT
+-- ============================================================================
+-- A side-chat for people watching a public session, kept in its own table
+-- so the story in rp_session_messages stays clean. Writers can turn it off
+-- for their session (rp_sessions.spectator_chat_enabled), mute individual
+-- viewers (which also hides what they wrote), and remove messages.
+-- Run this in your Supabase SQL editor after add_message_reactions.sql
+-- Safe to run multiple times (uses IF NOT EXISTS and DROP IF EXISTS)
+-- ============================================================================
+
+-- -----------------------
+-- SESSION SETTING
+-- -----------------------
+ALTER TABLE public.rp_sessions
+ADD COLUMN IF NOT EXISTS spectator_chat_enabled BOOLEAN NOT NULL DEFAULT true;
+
+-- -----------------------
+-- TABLES
+-- -----------------------
+CREATE TABLE IF NOT EXISTS public.rp_session_spectator_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rp_session_spectator_messages_session_idx
+  ON public.rp_session_spectator_messages (session_id, created_at DESC);
+
+-- Viewers a writer has muted in this session
+CREATE TABLE IF NOT EXISTS public.rp_session_spectator_mutes (
+  session_id UUID NOT NULL REFERENCES public.rp_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  muted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+-- -----------------------
+-- HELPERS
+-- -----------------------
+CREATE OR REPLACE FUNCTION public.is_spectator_muted(p_session_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.rp_session_spectator_mutes
+    WHERE session_id = p_session_id AND user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- -----------------------
+-- RLS POLICIES
+-- -----------------------
+ALTER TABLE public.rp_session_spectator_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rp_session_spectator_mutes ENABLE ROW LEVEL SECURITY;
+
+-- Readable by anyone who can read the public session, and by its writers
+DROP POLICY IF EXISTS "rp_session_spectator_messages_select" ON public.rp_session_spectator_messages;
+CREATE POLICY "rp_session_spectator_messages_select"
+  ON public.rp_session_spectator_messages FOR SELECT
+  TO authenticated, anon
+  USING (
+    public.is_session_participant(session_id, true)
+    OR EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id AND s.is_public = true
+    )
+  );
+
+-- Signed-in users (viewers and writers) can post while the session is public
+-- and the chat is on, unless they've been muted
+DROP POLICY IF EXISTS "rp_session_spectator_messages_insert" ON public.rp_session_spectator_messages;
+CREATE POLICY "rp_session_spectator_messages_insert"
+  ON public.rp_session_spectator_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    NOT public.is_spectator_muted(session_id, auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id
+        AND s.is_public = true
+        AND s.spectator_chat_enabled = true
+    )
+  );
+
+-- Senders can take back their own messages; writers can remove any
+DROP POLICY IF EXISTS "rp_session_spectator_messages_delete" ON public.rp_session_spectator_messages;
+CREATE POLICY "rp_session_spectator_messages_delete"
+  ON public.rp_session_spectator_messages FOR DELETE
+  TO authenticated
+  USING (auth.uid() = sender_id OR public.is_session_participant(session_id));
+
+-- Same audience as the chat: the panel hides muted viewers' messages, and a
+-- muted viewer sees that they are. Only writers manage mutes.
+DROP POLICY IF EXISTS "rp_session_spectator_mutes_select" ON public.rp_session_spectator_mutes;
+CREATE POLICY "rp_session_spectator_mutes_select"
+  ON public.rp_session_spectator_mutes FOR SELECT
+  TO authenticated, anon
+  USING (
+    public.is_session_participant(session_id, true)
+    OR EXISTS (
+      SELECT 1 FROM public.rp_sessions s
+      WHERE s.id = session_id AND s.is_public = true
+    )
+  );
+
+DROP POLICY IF EXISTS "rp_session_spectator_mutes_insert" ON public.rp_session_spectator_mutes;
+CREATE POLICY "rp_session_spectator_mutes_insert"
+  ON public.rp_session_spectator_mutes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_session_participant(session_id) AND
+    auth.uid() = muted_by AND
+    -- Writers can't mute each other
+    NOT EXISTS (
+      SELECT 1 FROM public.rp_session_participants p
+      WHERE p.session_id = rp_session_spectator_mutes.session_id
+        AND p.user_id = rp_session_spectator_mutes.user_id
+        AND p.left_at IS NULL
+        AND p.invite_status = 'accepted'
+    )
+  );
+
+DROP POLICY IF EXISTS "rp_session_spectator_mutes_delete" ON public.rp_session_spectator_mutes;
+CREATE POLICY "rp_session_spectator_mutes_delete"
+  ON public.rp_session_spectator_mutes FOR DELETE
+  TO authenticated
+  USING (public.is_session_participant(session_id));
+
+-- -----------------------
+-- REALTIME
+-- -----------------------
+-- The chat panel streams new and removed messages, and mutes so a viewer's
+-- composer locks as soon as they're muted
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_spectator_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_spectator_messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'rp_session_spectator_mutes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rp_session_spectator_mutes;
+  END IF;
+END $$;
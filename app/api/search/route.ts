@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import {
+  SEARCH_PAGE_SIZE,
+  parseSearchParams,
+  type SearchMessageType,
+  type SearchResponse,
+  type SearchSource,
+} from "@/lib/messageSearch";
+
+// GET /api/search?q=dragon&source=session|dm&session=&partner=&character=&type=&from=&to=&page=
+// Searches everything the caller can read: their own sessions and DMs, plus
+// public sessions. Access comes from RLS; search_messages() runs as the caller.
+
+const LOOKUP_CHUNK_SIZE = 100;
+
+type SearchRow = {
+  source: SearchSource;
+  message_id: string;
+  session_id: string | null;
+  thread_id: string | null;
+  session_name: string | null;
+  partner_id: string | null;
+  sender_id: string | null;
+  character_id: string | null;
+  npc_id: string | null;
+  message_type: SearchMessageType;
+  created_at: string;
+  snippet: string;
+};
+
+type NameRow = { id: string; user_id?: string; name: string };
+
+export async function GET(request: Request) {
+  const filters = parseSearchParams(new URL(request.url).searchParams);
+  if (!filters.q) {
+    return NextResponse.json({ error: "Enter something to search for" }, { status: 400 });
+  }
+
+  const supabase = await supabaseServer();
+  const page = filters.page || 0;
+
+  // One extra row tells us whether there's another page
+  const { data, error } = await supabase.rpc("search_messages", {
+    p_query: filters.q,
+    p_source: filters.source ?? null,
+    p_session_id: filters.session ?? null,
+    p_partner_id: filters.partner ?? null,
+    p_character_id: filters.character ?? null,
+    p_message_type: filters.type ?? null,
+    p_from: filters.from ? `${filters.from}T00:00:00Z` : null,
+    // Inclusive: up to the start of the next day
+    p_to: filters.to ? new Date(Date.parse(`${filters.to}T00:00:00Z`) + 86400000).toISOString() : null,
+    p_limit: SEARCH_PAGE_SIZE + 1,
+    p_offset: page * SEARCH_PAGE_SIZE,
+  });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const rows = ((data || []) as SearchRow[]).slice(0, SEARCH_PAGE_SIZE);
+  const unique = (ids: Array<string | null>) => Array.from(new Set(ids.filter((id): id is string => !!id)));
+
+  async function lookup(table: string, keyColumn: "id" | "user_id", ids: string[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data: found } = await supabase
+        .from(table)
+        .select(keyColumn === "id" ? "id, name" : "id, user_id, name")
+        .in(keyColumn, ids.slice(i, i + LOOKUP_CHUNK_SIZE));
+      for (const row of (found || []) as unknown as NameRow[]) names.set(row[keyColumn] as string, row.name);
+    }
+    return names;
+  }
+
+  const [writers, characters, npcs] = await Promise.all([
+    lookup("writers", "user_id", unique([...rows.map((r) => r.sender_id), ...rows.map((r) => r.partner_id)])),
+    lookup("characters", "id", unique(rows.map((r) => r.character_id))),
+    lookup("rp_session_npcs", "id", unique(rows.map((r) => r.npc_id))),
+  ]);
+
+  const writerName = (userId: string | null) =>
+    userId ? writers.get(userId) || `User ${userId.slice(0, 8)}` : "Unknown";
+
+  const body: SearchResponse = {
+    results: rows.map((row) => ({
+      source: row.source,
+      message_id: row.message_id,
+      session_id: row.session_id,
+      thread_id: row.thread_id,
+      session_name: row.session_name,
+      message_type: row.message_type,
+      created_at: row.created_at,
+      snippet: row.snippet,
+      sender_name: writerName(row.sender_id),
+      speaker_name: row.npc_id
+        ? npcs.get(row.npc_id) || null
+        : row.character_id
+        ? characters.get(row.character_id) || null
+        : null,
+      partner_name: row.partner_id ? writerName(row.partner_id) : null,
+    })),
+    hasMore: (data || []).length > SEARCH_PAGE_SIZE,
+  };
+
+  return NextResponse.json(body, { headers: { "Cache-Control": "no-store" } });
+}
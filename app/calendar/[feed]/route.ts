@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { toICalendar, type CalendarEvent } from "@/lib/calendar";
+
+// GET /calendar/:token.ics
+// A writer's confirmed session times as a subscribable calendar. Calendar apps
+// can't sign in, so the secret token in the URL is the only credential; it's
+// read through calendar_feed_events(), which returns nothing for unknown tokens.
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: Request, { params }: { params: Promise<{ feed: string }> }) {
+  const { feed } = await params;
+  const token = feed.replace(/\.ics$/i, "");
+
+  if (!TOKEN_PATTERN.test(token)) {
+    return NextResponse.json({ error: "Calendar not found" }, { status: 404 });
+  }
+
+  const supabase = await supabaseServer();
+  const { data, error } = await supabase.rpc("calendar_feed_events", { p_token: token });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const calendar = toICalendar((data || []) as CalendarEvent[], {
+    name: "RP writing sessions",
+    origin: new URL(request.url).origin,
+  });
+
+  return new NextResponse(calendar, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="rp-sessions.ics"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
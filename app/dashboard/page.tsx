@@ -4,6 +4,35 @@ import { useEffect, useState, useRef } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  declineSessionInvitation,
+  formatParticipantNames,
+  loadInvitationOutcomes,
+  loadMySessionIds,
+  loadParticipantsForSessions,
+  loadPendingInvitations,
+  markInvitationOutcomeSeen,
+  type InvitationOutcome,
+  type SessionInvitation,
+  type SessionStatus,
+} from "@/lib/session";
+import {
+  getCachedWriter,
+  loadContentPreferences,
+  onProfilesChanged,
+  resolveWriters,
+  writerDisplayName,
+} from "@/lib/profiles";
+import { loadDraftChats } from "@/lib/drafts";
+import { ScheduleSlot, formatSlotRange, loadUpcomingSlots } from "@/lib/schedule";
+import {
+  ContentRating,
+  DEFAULT_CONTENT_PREFERENCES,
+  matchesContentPreferences,
+  needsContentWarning,
+} from "@/lib/contentRatings";
+import ContentRatingBadge from "@/components/ContentRatingBadge";
+import SessionStatusBadge from "@/components/SessionStatusBadge";
 
 type FeedRow = {
   id: string;
@@ -38,17 +67,25 @@ type Character = {
 type ThreadWithLatest = {
   id: string;
   type: "dm" | "session";
-  user_a: string;
-  user_b: string;
+  // DM threads only; sessions list their writers in other_users
+  user_a?: string;
+  user_b?: string;
   created_at: string;
-  status?: "active" | "paused" | "closed";
+  status?: SessionStatus;
   last_message_at?: string | null;
+  // Sessions only: who is expected to post next
+  next_turn_user_id?: string | null;
   other_user: {
     id: string;
     email: string;
     name?: string;
     portrait_url?: string | null;
   };
+  other_users?: Array<{
+    id: string;
+    name: string;
+    portrait_url: string | null;
+  }>;
   latest_message: {
     id: string;
     sender_id: string;
@@ -56,6 +93,8 @@ type ThreadWithLatest = {
     created_at: string;
   } | null;
   unread_count: number;
+  // An unsent composer draft is waiting there
+  has_draft?: boolean;
 };
 
 type Writer = {
@@ -100,9 +139,12 @@ export default function DashboardPage() {
   // Messages state
   const [messagesLoading, setMessagesLoading] = useState(true);
   const [threads, setThreads] = useState<ThreadWithLatest[]>([]);
+  // Confirmed writing times in my open sessions
+  const [upcomingSlots, setUpcomingSlots] = useState<ScheduleSlot[]>([]);
 
   // Session invitations state
-  const [pendingSessionInvitations, setPendingSessionInvitations] = useState<any[]>([]);
+  const [pendingSessionInvitations, setPendingSessionInvitations] = useState<SessionInvitation[]>([]);
+  const [invitationOutcomes, setInvitationOutcomes] = useState<InvitationOutcome[]>([]);
   
   // Friend requests state
   const [pendingFriendRequests, setPendingFriendRequests] = useState<any[]>([]);
@@ -112,16 +154,19 @@ export default function DashboardPage() {
   const [watchSessions, setWatchSessions] = useState<Array<{
     id: string;
     name: string | null;
-    is_active: boolean;
+    status: SessionStatus;
     last_message_at: string | null;
-    user_a: string;
-    user_b: string;
-    user_a_name: string;
-    user_b_name: string;
-    user_a_portrait: string | null;
-    user_b_portrait: string | null;
+    content_rating: ContentRating;
+    content_warnings: string[];
+    participants: Array<{
+      user_id: string;
+      name: string;
+      portrait_url: string | null;
+    }>;
   }>>([]);
   const [watchSessionsLoading, setWatchSessionsLoading] = useState(true);
+  // Public sessions left out by my content settings
+  const [hiddenWatchCount, setHiddenWatchCount] = useState(0);
 
   // Character search state
   const [allCharacters, setAllCharacters] = useState<Character[]>([]);
@@ -157,6 +202,18 @@ export default function DashboardPage() {
     return () => clearInterval(interval);
   }, []);
 
+  // Keep general chat names and portraits current when someone edits their profile
+  useEffect(() => {
+    return onProfilesChanged(() => {
+      setChatMessages((prev) =>
+        prev.map((m) => {
+          const writer = getCachedWriter(m.sender_id);
+          return writer ? { ...m, sender_name: writer.name, sender_portrait: writer.portrait_url } : m;
+        })
+      );
+    });
+  }, []);
+
   // Scroll chat to bottom
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -208,6 +265,7 @@ export default function DashboardPage() {
       loadMessages(userId);
       loadAllCharacters();
       loadSessionInvitations(userId);
+      loadInvitationOutcomes(userId).then(setInvitationOutcomes).catch(() => setInvitationOutcomes([]));
       loadFriendRequests(userId);
       loadWatchSessions(userId);
       
@@ -237,16 +295,16 @@ export default function DashboardPage() {
         chatChannel = cleanup;
       }
       
-      // Subscribe to session invitations
+      // Subscribe to session invitations (sent to me, and answers to mine)
       const sessionChannel = supabase
         .channel("session_invitations")
         .on(
           "postgres_changes",
           {
-            event: "INSERT",
+            event: "*",
             schema: "public",
-            table: "rp_sessions",
-            filter: `pending_character_selection_user_id=eq.${userId}`,
+            table: "rp_session_participants",
+            filter: `user_id=eq.${userId}`,
           },
           () => {
             loadSessionInvitations(userId);
@@ -257,11 +315,11 @@ export default function DashboardPage() {
           {
             event: "UPDATE",
             schema: "public",
-            table: "rp_sessions",
-            filter: `pending_character_selection_user_id=eq.${userId}`,
+            table: "rp_session_participants",
+            filter: `invited_by=eq.${userId}`,
           },
           () => {
-            loadSessionInvitations(userId);
+            loadInvitationOutcomes(userId).then(setInvitationOutcomes).catch(() => {});
           }
         )
         .subscribe();
@@ -338,24 +396,18 @@ export default function DashboardPage() {
       .order("created_at", { ascending: false });
     
     if (requests && requests.length > 0) {
-      const formatted = await Promise.all(
-        requests.map(async (req: any) => {
-          // Load writer info for the requester
-          const { data: requesterWriter } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", req.requester_id)
-            .maybeSingle();
-          
-          return {
-            id: req.id,
-            requester_id: req.requester_id,
-            requesterName: requesterWriter?.name || `User ${req.requester_id.slice(0, 8)}`,
-            requesterPortrait: requesterWriter?.portrait_url || null,
-            created_at: req.created_at,
-          };
-        })
-      );
+      // Load writer info for the requesters
+      const writerByUser = await resolveWriters(requests.map((req) => req.requester_id));
+      const formatted = requests.map((req) => {
+        const requesterWriter = writerByUser.get(req.requester_id);
+        return {
+          id: req.id,
+          requester_id: req.requester_id,
+          requesterName: writerDisplayName(req.requester_id, requesterWriter),
+          requesterPortrait: requesterWriter?.portrait_url || null,
+          created_at: req.created_at,
+        };
+      });
       setPendingFriendRequests(formatted);
     } else {
       setPendingFriendRequests([]);
@@ -363,36 +415,10 @@ export default function DashboardPage() {
   }
   
   async function loadSessionInvitations(userId: string) {
-    const { data: invitations } = await supabase
-      .from("rp_sessions")
-      .select("id, user_a, user_b, created_at")
-      .eq("pending_character_selection_user_id", userId)
-      .eq("status", "active")
-      .order("created_at", { ascending: false });
-    
-    if (invitations && invitations.length > 0) {
-      const formatted = await Promise.all(
-        invitations.map(async (inv: any) => {
-          const otherUserId = inv.user_a === userId ? inv.user_b : inv.user_a;
-          
-          // Load writer info for the other user
-          const { data: otherWriter } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", otherUserId)
-            .maybeSingle();
-          
-          return {
-            id: inv.id,
-            otherUserId,
-            otherWriterName: otherWriter?.name || `User ${otherUserId.slice(0, 8)}`,
-            otherWriterPortrait: otherWriter?.portrait_url,
-            created_at: inv.created_at,
-          };
-        })
-      );
-      setPendingSessionInvitations(formatted);
-    } else {
+    try {
+      setPendingSessionInvitations(await loadPendingInvitations(userId));
+    } catch (err) {
+      console.error("Error loading session invitations:", err);
       setPendingSessionInvitations([]);
     }
   }
@@ -425,8 +451,11 @@ export default function DashboardPage() {
         console.log("Sample session data:", testQuery);
       }
       
+      // Sessions the current user writes in (excluded from the watch list)
+      const mySessionIds = new Set(await loadMySessionIds(currentUserId));
+      
       // Now load ALL public sessions (active and paused, but not closed)
-      // A session can be paused (is_active=false) but still public and viewable
+      // A paused session is still public and viewable
       // Try multiple approaches to query public sessions
       let publicSessions: any[] | null = null;
       let error: any = null;
@@ -434,7 +463,7 @@ export default function DashboardPage() {
       // First attempt: explicit boolean true
       const { data: publicSessionsData1, error: error1 } = await supabase
         .from("rp_sessions")
-        .select("id, name, is_public, is_active, last_message_at, user_a, user_b, status")
+        .select("id, name, is_public, last_message_at, status, content_rating, content_warnings")
         .eq("is_public", true);
       
       if (error1) {
@@ -443,7 +472,7 @@ export default function DashboardPage() {
         // Second attempt: try without filter to see if query works at all
         const { data: allSessions, error: error2 } = await supabase
           .from("rp_sessions")
-          .select("id, name, is_public, is_active, last_message_at, user_a, user_b, status")
+          .select("id, name, is_public, last_message_at, status, content_rating, content_warnings")
           .limit(20);
         
         if (error2) {
@@ -516,7 +545,7 @@ export default function DashboardPage() {
         // Try to query ALL sessions (without is_public filter) to check if RLS is blocking
         const { data: allSessionsCheck, error: allSessionsError } = await supabase
           .from("rp_sessions")
-          .select("id, is_public, status, user_a, user_b")
+          .select("id, is_public, status")
           .limit(10);
         
         if (allSessionsError) {
@@ -542,7 +571,7 @@ USING (is_public = true);`);
           if (publicOnes.length > 0) {
             console.log("🔍 Found public sessions but query filtered them out. Details:");
             publicOnes.forEach((s: any, i: number) => {
-              const isParticipant = s.user_a === currentUserId || s.user_b === currentUserId;
+              const isParticipant = mySessionIds.has(s.id);
               const isClosed = s.status === "closed";
               console.log(`  Session ${i + 1} (${s.id}):`);
               console.log(`    - is_public: ${s.is_public} (type: ${typeof s.is_public})`);
@@ -573,11 +602,8 @@ USING (is_public = true);`);
             id: s.id,
             name: s.name,
             is_public: s.is_public,
-            is_active: s.is_active,
             status: s.status || "null",
-            user_a: s.user_a,
-            user_b: s.user_b,
-            isUserParticipant: s.user_a === currentUserId || s.user_b === currentUserId
+            isUserParticipant: mySessionIds.has(s.id)
           });
         });
       } else {
@@ -603,21 +629,35 @@ USING (is_public = true);`);
         }
       }
       
+      const contentPreferences = await loadContentPreferences(currentUserId).catch(() => DEFAULT_CONTENT_PREFERENCES);
+      let hiddenByPreferences = 0;
+
       // Filter out closed sessions and sessions where user is a participant (client-side for reliability)
       const filteredSessions = (publicSessions || []).filter(
         (session: any) => {
-          // Exclude closed sessions
-          if (session.status === "closed") {
-            console.log(`Filtering out session ${session.id} - status is closed`);
+          // Only sessions that are under way (active or paused)
+          if (session.status !== "active" && session.status !== "paused") {
+            console.log(`Filtering out session ${session.id} - status is ${session.status}`);
             return false;
           }
           
           // Exclude sessions where user is a participant
-          const isParticipant = session.user_a === currentUserId || session.user_b === currentUserId;
+          const isParticipant = mySessionIds.has(session.id);
           if (isParticipant) {
             console.log(`Filtering out session ${session.id} - user is participant`);
             return false;
           }
+
+          // Rated above what I want to see, or tagged with a warning I've hidden
+          if (
+            !matchesContentPreferences(
+              { content_rating: session.content_rating || "sfw", content_warnings: session.content_warnings || [] },
+              contentPreferences
+            )
+          ) {
+            hiddenByPreferences++;
+            return false;
+          }
           
           return true;
         }
@@ -628,60 +668,35 @@ USING (is_public = true);`);
         console.log("Final sessions to display:", filteredSessions);
       }
       console.log("=== END DEBUG ===");
+      setHiddenWatchCount(hiddenByPreferences);
       
       if (filteredSessions && filteredSessions.length > 0) {
-        const sessionsWithDetails = await Promise.all(
-          filteredSessions.map(async (session: any) => {
-            try {
-              // Load writer info for both users
-              const [userAWriterResult, userBWriterResult] = await Promise.all([
-                supabase
-                  .from("writers")
-                  .select("name, portrait_url")
-                  .eq("user_id", session.user_a)
-                  .maybeSingle(),
-                supabase
-                  .from("writers")
-                  .select("name, portrait_url")
-                  .eq("user_id", session.user_b)
-                  .maybeSingle(),
-              ]);
-              
-              return {
-                id: session.id,
-                name: session.name,
-                is_active: session.is_active,
-                last_message_at: session.last_message_at,
-                user_a: session.user_a,
-                user_b: session.user_b,
-                user_a_name: userAWriterResult.data?.name || `User ${session.user_a.slice(0, 8)}`,
-                user_b_name: userBWriterResult.data?.name || `User ${session.user_b.slice(0, 8)}`,
-                user_a_portrait: userAWriterResult.data?.portrait_url || null,
-                user_b_portrait: userBWriterResult.data?.portrait_url || null,
-              };
-            } catch (err) {
-              console.error("Error loading writer info for session:", session.id, err);
-              // Return session with fallback names even if writer lookup fails
-              return {
-                id: session.id,
-                name: session.name,
-                is_active: session.is_active,
-                last_message_at: session.last_message_at,
-                user_a: session.user_a,
-                user_b: session.user_b,
-                user_a_name: `User ${session.user_a.slice(0, 8)}`,
-                user_b_name: `User ${session.user_b.slice(0, 8)}`,
-                user_a_portrait: null,
-                user_b_portrait: null,
-              };
-            }
-          })
-        );
+        let participantsBySession: Awaited<ReturnType<typeof loadParticipantsForSessions>> = {};
+        try {
+          participantsBySession = await loadParticipantsForSessions(filteredSessions.map((s) => s.id));
+        } catch (err) {
+          // Still list the sessions, just without writer names and portraits
+          console.error("Error loading writer info for watch sessions:", err);
+        }
+
+        const sessionsWithDetails = filteredSessions.map((session) => ({
+          id: session.id as string,
+          name: session.name as string | null,
+          status: session.status as SessionStatus,
+          last_message_at: session.last_message_at as string | null,
+          content_rating: (session.content_rating || "sfw") as ContentRating,
+          content_warnings: (session.content_warnings || []) as string[],
+          participants: (participantsBySession[session.id] || []).map((p) => ({
+            user_id: p.user_id,
+            name: p.name,
+            portrait_url: p.portrait_url,
+          })),
+        }));
       
       // Sort: active sessions first, then by last_message_at (most recent first)
       sessionsWithDetails.sort((a, b) => {
-        if (a.is_active && !b.is_active) return -1;
-        if (!a.is_active && b.is_active) return 1;
+        if (a.status === "active" && b.status !== "active") return -1;
+        if (a.status !== "active" && b.status === "active") return 1;
         if (a.last_message_at && b.last_message_at) {
           return new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime();
         }
@@ -825,25 +840,19 @@ USING (is_public = true);`);
       .limit(100);
 
     if (chatData) {
-      // Get sender names and portraits
-      const messagesWithSenders = await Promise.all(
-        chatData.map(async (msg: any) => {
-          const { data: writer } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", msg.sender_id)
-            .maybeSingle();
-
-          return {
-            id: msg.id,
-            sender_id: msg.sender_id,
-            body: msg.body,
-            created_at: msg.created_at,
-            sender_name: writer?.name || `User ${msg.sender_id.slice(0, 8)}`,
-            sender_portrait: writer?.portrait_url || null,
-          };
-        })
-      );
+      // Get sender names and portraits (one batched lookup)
+      const writerByUser = await resolveWriters(chatData.map((msg) => msg.sender_id));
+      const messagesWithSenders: ChatMessage[] = chatData.map((msg) => {
+        const writer = writerByUser.get(msg.sender_id);
+        return {
+          id: msg.id,
+          sender_id: msg.sender_id,
+          body: msg.body,
+          created_at: msg.created_at,
+          sender_name: writerDisplayName(msg.sender_id, writer),
+          sender_portrait: writer?.portrait_url || null,
+        };
+      });
       setChatMessages(messagesWithSenders);
     }
 
@@ -859,18 +868,14 @@ USING (is_public = true);`);
         },
         async (payload) => {
           const newMsg = payload.new as any;
-          const { data: writer } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", newMsg.sender_id)
-            .maybeSingle();
+          const writer = (await resolveWriters([newMsg.sender_id])).get(newMsg.sender_id);
 
           const messageWithSender: ChatMessage = {
             id: newMsg.id,
             sender_id: newMsg.sender_id,
             body: newMsg.body,
             created_at: newMsg.created_at,
-            sender_name: writer?.name || `User ${newMsg.sender_id.slice(0, 8)}`,
+            sender_name: writerDisplayName(newMsg.sender_id, writer),
             sender_portrait: writer?.portrait_url || null,
           };
 
@@ -1016,6 +1021,7 @@ USING (is_public = true);`);
     setMessagesLoading(true);
 
     const allChats: ThreadWithLatest[] = [];
+    const drafts = await loadDraftChats().catch(() => null);
 
     // Load DM threads
     const { data: threadsData } = await supabase
@@ -1025,18 +1031,17 @@ USING (is_public = true);`);
       .order("created_at", { ascending: false });
 
     if (threadsData && threadsData.length > 0) {
+      // Writer profiles for everyone on the other side, in one lookup
+      const writerByUser = await resolveWriters(
+        threadsData.map((thread) => (thread.user_a === userId ? thread.user_b : thread.user_a))
+      );
+
       const threadsWithDetails = await Promise.all(
         threadsData.map(async (thread) => {
           const otherUserId = thread.user_a === userId ? thread.user_b : thread.user_a;
+          const otherWriter = writerByUser.get(otherUserId);
 
-          // Fetch writer profile for the other user
-          const { data: otherWriter } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", otherUserId)
-            .maybeSingle();
-
-          const otherUserEmail = otherWriter?.name || `User ${otherUserId.slice(0, 8)}`;
+          const otherUserEmail = writerDisplayName(otherUserId, otherWriter);
 
           const { data: latestMsg } = await supabase
             .from("dm_messages")
@@ -1088,6 +1093,7 @@ USING (is_public = true);`);
             },
             latest_message: latestMsg || null,
             unread_count: unreadCount,
+            has_draft: !!drafts?.threadIds.has(thread.id),
           };
         })
       );
@@ -1095,27 +1101,25 @@ USING (is_public = true);`);
       allChats.push(...threadsWithDetails);
     }
 
-    // Load sessions - exclude closed sessions from dashboard
+    // Load sessions - exclude closed and failed invitations from dashboard
+    const mySessionIds = await loadMySessionIds(userId).catch(() => [] as string[]);
     const { data: sessionsData } = await supabase
       .from("rp_sessions")
-      .select("id, user_a, user_b, status, created_at, last_message_at")
-      .or(`user_a.eq.${userId},user_b.eq.${userId}`)
-      .neq("status", "closed")
+      .select("id, status, created_at, last_message_at, next_turn_user_id")
+      .in("id", mySessionIds)
+      .not("status", "in", "(closed,declined,expired)")
       .order("created_at", { ascending: false });
 
     if (sessionsData && sessionsData.length > 0) {
+      const participantsBySession = await loadParticipantsForSessions(sessionsData.map((s) => s.id))
+        .catch(() => ({} as Awaited<ReturnType<typeof loadParticipantsForSessions>>));
+
       const sessionsWithDetails = await Promise.all(
         sessionsData.map(async (session) => {
-          const otherUserId = session.user_a === userId ? session.user_b : session.user_a;
-
-          // Fetch writer profile for the other user
-          const { data: otherWriter } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", otherUserId)
-            .maybeSingle();
-
-          const otherUserEmail = otherWriter?.name || `User ${otherUserId.slice(0, 8)}`;
+          const otherUsers = (participantsBySession[session.id] || [])
+            .filter((p) => p.user_id !== userId)
+            .map((p) => ({ id: p.user_id, name: p.name, portrait_url: p.portrait_url }));
+          const firstOther = otherUsers[0];
 
           const { data: latestMsg } = await supabase
             .from("rp_session_messages")
@@ -1135,38 +1139,38 @@ USING (is_public = true);`);
 
           let unreadCount = 0;
           if (readData && readData.last_read_at) {
-            // Count messages from other user that are newer than last_read_at
+            // Count messages from other participants that are newer than last_read_at
             const { count } = await supabase
               .from("rp_session_messages")
               .select("id", { count: "exact", head: true })
               .eq("session_id", session.id)
-              .eq("sender_id", otherUserId)
+              .neq("sender_id", userId)
               .gt("created_at", readData.last_read_at);
             unreadCount = count || 0;
           } else {
-            // No read record - count all messages from other user
+            // No read record - count all messages from other participants
             const { count } = await supabase
               .from("rp_session_messages")
               .select("id", { count: "exact", head: true })
               .eq("session_id", session.id)
-              .eq("sender_id", otherUserId);
+              .neq("sender_id", userId);
             unreadCount = count || 0;
           }
 
           return {
             id: session.id,
             type: "session" as const,
-            user_a: session.user_a,
-            user_b: session.user_b,
-            status: session.status as "active" | "paused" | "closed",
+            status: session.status as SessionStatus,
             created_at: session.created_at,
             last_message_at: session.last_message_at || null,
+            next_turn_user_id: session.next_turn_user_id || null,
             other_user: {
-              id: otherUserId,
-              email: otherUserEmail,
-              name: otherWriter?.name,
-              portrait_url: otherWriter?.portrait_url,
+              id: firstOther?.id || "",
+              email: firstOther?.name || "Session",
+              name: formatParticipantNames(otherUsers) || undefined,
+              portrait_url: firstOther?.portrait_url,
             },
+            other_users: otherUsers,
             latest_message: latestMsg ? {
               id: latestMsg.id,
               sender_id: latestMsg.sender_id,
@@ -1174,6 +1178,7 @@ USING (is_public = true);`);
               created_at: latestMsg.created_at,
             } : null,
             unread_count: unreadCount,
+            has_draft: !!drafts?.sessionIds.has(session.id),
           };
         })
       );
@@ -1181,14 +1186,23 @@ USING (is_public = true);`);
       allChats.push(...sessionsWithDetails);
     }
 
+    const upcoming = await loadUpcomingSlots((sessionsData || []).map((s) => s.id), 5).catch(() => []);
+
     // Sort all chats by latest message, with better sorting for sessions
     allChats.sort((a, b) => {
       // For sessions, prioritize active status, then sort by last_message_at or latest message
       if (a.type === "session" && b.type === "session") {
-        // Active sessions first, then paused, then others
-        const statusOrder = { active: 0, paused: 1, closed: 2 };
-        const aStatusOrder = statusOrder[a.status || "closed"] ?? 2;
-        const bStatusOrder = statusOrder[b.status || "closed"] ?? 2;
+        // Active sessions first, then pending invitations, then paused, then others
+        const statusOrder: Record<SessionStatus, number> = {
+          active: 0,
+          pending: 1,
+          paused: 2,
+          closed: 3,
+          declined: 4,
+          expired: 4,
+        };
+        const aStatusOrder = statusOrder[a.status || "closed"];
+        const bStatusOrder = statusOrder[b.status || "closed"];
         if (aStatusOrder !== bStatusOrder) return aStatusOrder - bStatusOrder;
         
         // For same status, sort by last_message_at (preferred) or latest_message.created_at
@@ -1218,6 +1232,7 @@ USING (is_public = true);`);
     });
 
     setThreads(allChats);
+    setUpcomingSlots(upcoming);
     setMessagesLoading(false);
   }
 
@@ -1263,17 +1278,101 @@ USING (is_public = true);`);
         <div className="bg-purple-50 border-l-4 border-purple-500 p-4 max-w-7xl mx-auto">
           <div className="flex items-center justify-between">
             <div>
-              <h3 className="font-semibold text-purple-900">New Session Invitation!</h3>
+              <h3 className="font-semibold text-purple-900">
+                New Session Invitation!
+                {pendingSessionInvitations.length > 1 && (
+                  <span className="ml-2 text-xs font-normal">
+                    (+{pendingSessionInvitations.length - 1} more)
+                  </span>
+                )}
+              </h3>
               <p className="text-sm text-purple-700">
-                {pendingSessionInvitations[0].otherWriterName} wants to start a roleplay with you.
+                {pendingSessionInvitations[0].inviter_name} wants to start
+                {pendingSessionInvitations[0].session_name
+                  ? ` "${pendingSessionInvitations[0].session_name}"`
+                  : " a roleplay"}{" "}
+                with you.
               </p>
+              {pendingSessionInvitations[0].invite_expires_at && (
+                <p className="text-xs text-purple-600">
+                  Expires {new Date(pendingSessionInvitations[0].invite_expires_at).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Link
+                href={`/session/${pendingSessionInvitations[0].session_id}`}
+                className="bg-purple-500 text-white px-4 py-2 rounded text-sm hover:bg-purple-600"
+              >
+                Accept & Select Characters
+              </Link>
+              <button
+                onClick={async () => {
+                  if (!currentUserId) return;
+                  const invitation = pendingSessionInvitations[0];
+                  try {
+                    await declineSessionInvitation(invitation.session_id, currentUserId);
+                    setPendingSessionInvitations((prev) =>
+                      prev.filter((inv) => inv.session_id !== invitation.session_id)
+                    );
+                  } catch (err) {
+                    console.error("Error declining session invitation:", err);
+                  }
+                }}
+                className="bg-gray-500 text-white px-4 py-2 rounded text-sm hover:bg-gray-600"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Answers to session invitations I sent */}
+      {invitationOutcomes.length > 0 && (
+        <div
+          className={`border-l-4 p-4 max-w-7xl mx-auto ${
+            invitationOutcomes[0].invite_status === "accepted"
+              ? "bg-green-50 border-green-500"
+              : "bg-gray-50 border-gray-400"
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-800">
+              <span className="font-semibold">{invitationOutcomes[0].name}</span>{" "}
+              {invitationOutcomes[0].invite_status === "accepted"
+                ? "accepted"
+                : invitationOutcomes[0].invite_status === "declined"
+                ? "declined"
+                : "didn't answer"}{" "}
+              your invitation
+              {invitationOutcomes[0].session_name ? ` to "${invitationOutcomes[0].session_name}"` : ""}
+              {invitationOutcomes[0].invite_status === "expired" ? " before it expired" : ""}.
+            </p>
+            <div className="flex gap-2 ml-4">
+              {invitationOutcomes[0].invite_status === "accepted" && (
+                <Link
+                  href={`/session/${invitationOutcomes[0].session_id}`}
+                  className="bg-green-500 text-white px-4 py-2 rounded text-sm hover:bg-green-600"
+                >
+                  Open Session
+                </Link>
+              )}
+              <button
+                onClick={async () => {
+                  const outcome = invitationOutcomes[0];
+                  setInvitationOutcomes((prev) => prev.slice(1));
+                  try {
+                    await markInvitationOutcomeSeen(outcome.session_id, outcome.user_id);
+                  } catch (err) {
+                    console.error("Error dismissing invitation outcome:", err);
+                  }
+                }}
+                className="text-gray-600 hover:text-gray-800 text-sm"
+              >
+                ✕ Dismiss
+              </button>
             </div>
-            <Link
-              href={`/session/${pendingSessionInvitations[0].id}`}
-              className="bg-purple-500 text-white px-4 py-2 rounded text-sm hover:bg-purple-600"
-            >
-              Accept & Select Characters
-            </Link>
           </div>
         </div>
       )}
@@ -1351,7 +1450,12 @@ USING (is_public = true);`);
                 className="w-full panel flex items-center justify-between px-4 py-3"
                 style={{ background: "var(--bg2)", border: "1px solid var(--borderSoft)" }}
               >
-                <span className="text-primary font-medium">Direct Messages</span>
+                <span className="text-primary font-medium">
+                  Direct Messages
+                  {threads.some((t) => t.type === "dm" && t.has_draft) && (
+                    <span className="ml-2 text-xs text-secondary font-normal">✎ Draft</span>
+                  )}
+                </span>
                 {threads.some((t) => t.type === "dm" && t.unread_count > 0) && (
                   <span className="bg-fuchsia-500 text-white text-xs px-2 py-1 rounded-full font-semibold">
                     {threads
@@ -1361,6 +1465,30 @@ USING (is_public = true);`);
               )}
             </button>
 
+              {upcomingSlots.length > 0 && (
+                <div className="panel p-4" style={{ background: "var(--bg2)", border: "1px solid var(--borderSoft)" }}>
+                  <div className="text-secondary font-medium mb-3">Upcoming writing times</div>
+                  <ul className="space-y-2">
+                    {upcomingSlots.map((slot) => {
+                      const session = threads.find((t) => t.type === "session" && t.id === slot.session_id);
+                      return (
+                        <li key={slot.id}>
+                          <Link href={`/session/${slot.session_id}`} className="card p-3 block">
+                            <div className="text-primary text-sm font-medium">
+                              🗓 {formatSlotRange(slot.starts_at, slot.ends_at)}
+                            </div>
+                            <div className="text-secondary text-xs truncate">
+                              {session ? `with ${session.other_user.name || session.other_user.email}` : "Session"}
+                              {slot.note && ` · ${slot.note}`}
+                            </div>
+                          </Link>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
               {/* Sessions list - vertical, like Discord servers */}
               <div className="panel p-4" style={{ background: "var(--bg2)", border: "1px solid var(--borderSoft)" }}>
                 <Link 
@@ -1385,7 +1513,7 @@ USING (is_public = true);`);
                             href={`/session/${thread.id}`}
                             className="card p-3 flex items-center gap-3"
                           >
-                            {/* Two overlapped circles: current user + other user */}
+                            {/* Overlapped circles: current user + the other writers */}
                             <div className="flex -space-x-2">
                               {currentWriter?.portrait_url ? (
                                 <img
@@ -1398,18 +1526,22 @@ USING (is_public = true);`);
                                   {currentWriter?.name?.charAt(0).toUpperCase() || "U"}
           </div>
                               )}
-                              {thread.other_user.portrait_url ? (
-                                <img
-                                  src={thread.other_user.portrait_url}
-                                  alt={thread.other_user.name || thread.other_user.email}
-                                  className="w-8 h-8 rounded-full object-cover border border-gray-200"
-                                />
-                              ) : (
-                                <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-xs text-gray-600 border border-gray-200">
-                                  {(thread.other_user.name || thread.other_user.email)
-                                    .charAt(0)
-                                    .toUpperCase()}
-                                </div>
+                              {(thread.other_users || []).slice(0, 3).map((user) =>
+                                user.portrait_url ? (
+                                  <img
+                                    key={user.id}
+                                    src={user.portrait_url}
+                                    alt={user.name}
+                                    className="w-8 h-8 rounded-full object-cover border border-gray-200"
+                                  />
+                                ) : (
+                                  <div
+                                    key={user.id}
+                                    className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-xs text-gray-600 border border-gray-200"
+                                  >
+                                    {user.name.charAt(0).toUpperCase()}
+                                  </div>
+                                )
                               )}
                             </div>
                             <div className="flex-1 min-w-0">
@@ -1418,9 +1550,23 @@ USING (is_public = true);`);
                                   {thread.other_user.name || thread.other_user.email}
                                 </div>
                                 {thread.status && thread.status !== "active" && (
-                                  <span className="badge text-xs" style={{ opacity: 0.7 }}>
-                                    {thread.status === "paused" ? "Paused" : thread.status}
-                                  </span>
+                                  <SessionStatusBadge status={thread.status} />
+                                )}
+                                {thread.has_draft && (
+                                  <span className="text-xs text-secondary whitespace-nowrap">✎ Draft</span>
+                                )}
+                                {thread.status === "active" && thread.next_turn_user_id && (
+                                  thread.next_turn_user_id === currentUserId ? (
+                                    <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-700 whitespace-nowrap">
+                                      Your turn
+                                    </span>
+                                  ) : (
+                                    <span className="text-xs text-secondary whitespace-nowrap">
+                                      Waiting on{" "}
+                                      {(thread.other_users || []).find((u) => u.id === thread.next_turn_user_id)?.name ||
+                                        "a partner"}
+                                    </span>
+                                  )
                                 )}
                               </div>
                               {thread.latest_message && (
@@ -1472,54 +1618,62 @@ USING (is_public = true);`);
                           href={`/session/${session.id}`}
                           className="card p-3 flex items-center gap-3 hover:bg-opacity-80 transition-colors"
                         >
-                          {/* Two overlapped circles: user a + user b */}
+                          {/* Overlapped circles, one per writer */}
                           <div className="flex -space-x-2 relative">
-                            {session.user_a_portrait ? (
-                              <img
-                                src={session.user_a_portrait}
-                                alt={session.user_a_name}
-                                className="w-8 h-8 rounded-full object-cover border border-gray-200"
-                              />
-                            ) : (
-                              <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-xs text-gray-600 border border-gray-200">
-                                {session.user_a_name.charAt(0).toUpperCase()}
-                              </div>
-                            )}
-                            {session.user_b_portrait ? (
-                              <img
-                                src={session.user_b_portrait}
-                                alt={session.user_b_name}
-                                className="w-8 h-8 rounded-full object-cover border border-gray-200"
-                              />
-                            ) : (
-                              <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-xs text-gray-600 border border-gray-200">
-                                {session.user_b_name.charAt(0).toUpperCase()}
-                              </div>
+                            {session.participants.slice(0, 4).map((participant) =>
+                              participant.portrait_url ? (
+                                <img
+                                  key={participant.user_id}
+                                  src={participant.portrait_url}
+                                  alt={participant.name}
+                                  className="w-8 h-8 rounded-full object-cover border border-gray-200"
+                                />
+                              ) : (
+                                <div
+                                  key={participant.user_id}
+                                  className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-xs text-gray-600 border border-gray-200"
+                                >
+                                  {participant.name.charAt(0).toUpperCase()}
+                                </div>
+                              )
                             )}
                             {/* Green dot indicator for live sessions */}
-                            {session.is_active && (
+                            {session.status === "active" && (
                               <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-500 rounded-full border-2 border-white shadow-sm"></div>
                             )}
                           </div>
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2">
                               <div className="text-primary font-medium truncate">
-                                {session.name || `${session.user_a_name} & ${session.user_b_name}`}
+                                {session.name || formatParticipantNames(session.participants)}
                               </div>
-                              {session.is_active && (
+                              {session.status === "active" ? (
                                 <span className="flex items-center gap-1 text-xs text-green-600 font-medium">
                                   <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
                                   Live
                                 </span>
+                              ) : (
+                                <SessionStatusBadge status={session.status} />
+                              )}
+                              {needsContentWarning(session) && (
+                                <ContentRatingBadge rating={session.content_rating} warnings={session.content_warnings} />
                               )}
                             </div>
                             <div className="text-secondary mt-1 truncate text-xs">
-                              {session.user_a_name} & {session.user_b_name}
+                              {formatParticipantNames(session.participants)}
                             </div>
                           </div>
                         </Link>
                       </li>
                     ))}
+                    {hiddenWatchCount > 0 && (
+                      <li className="text-secondary text-xs">
+                        {hiddenWatchCount} hidden by your{" "}
+                        <Link href="/profile/edit" className="underline">
+                          content settings
+                        </Link>
+                      </li>
+                    )}
                   </ul>
                 )}
               </div>
@@ -4,6 +4,26 @@ import { useEffect, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { MAX_SESSION_PARTICIPANTS, SESSION_STYLES, addSessionParticipants } from "@/lib/session";
+import { getCachedWriter, onProfilesChanged, resolveWriters, writerDisplayName } from "@/lib/profiles";
+import { SlashCommand } from "@/lib/slashCommands";
+import {
+  MessageReaction,
+  ReactionRow,
+  addReaction,
+  groupReactions,
+  loadThreadReactions,
+  mergeReaction,
+  removeReaction,
+  toMessageReaction,
+} from "@/lib/reactions";
+import { formatPresence, latestTime, useChatPresence, useMarkChatSeen } from "@/lib/presence";
+import { formatDraftStatus, useMessageDraft } from "@/lib/drafts";
+import { CONTENT_RATINGS, ContentRating, contentRatings } from "@/lib/contentRatings";
+import ContentWarningPicker from "@/components/ContentWarningPicker";
+import ReactionBar from "@/components/ReactionBar";
+import SlashCommandInput from "@/components/SlashCommandInput";
+import WriterPicker from "@/components/WriterPicker";
 
 type Msg = {
   id: string;
@@ -38,12 +58,32 @@ export default function DmThreadPage() {
   const [showStartSessionModal, setShowStartSessionModal] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingText, setEditingText] = useState("");
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const [otherLastSeen, setOtherLastSeen] = useState<string | null>(null);
+  // The message a search result linked to (#message-<id>)
+  const [linkedMessageId, setLinkedMessageId] = useState<string | null>(null);
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  const linkedScrolledRef = useRef(false);
+
+  const presence = useChatPresence(me ? `dm:${threadId}` : null, me);
+  useMarkChatSeen("thread", me ? threadId : null);
+  // Unsent composer text is kept on the server, so it survives a crash or a change of device
+  const draft = useMessageDraft("thread", me ? threadId : null, text, {
+    onRestore: (saved) => setText(saved.body),
+  });
 
   useEffect(() => {
+    // Land on a linked message once, then follow new messages as usual
+    const linked =
+      linkedMessageId && !linkedScrolledRef.current ? document.getElementById(`message-${linkedMessageId}`) : null;
+    if (linked) {
+      linkedScrolledRef.current = true;
+      linked.scrollIntoView({ block: "center" });
+      return;
+    }
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages.length]);
+  }, [messages.length, linkedMessageId]);
 
   useEffect(() => {
     let mounted = true;
@@ -92,34 +132,28 @@ export default function DmThreadPage() {
       // Load thread info to get other user
       const { data: threadData } = await supabase
         .from("dm_threads")
-        .select("user_a, user_b")
+        .select("user_a, user_b, user_a_last_seen_at, user_b_last_seen_at")
         .eq("id", threadId)
         .single();
 
       if (threadData && mounted) {
         const otherUserIdValue = threadData.user_a === currentUserId ? threadData.user_b : threadData.user_a;
         setOtherUserId(otherUserIdValue);
+        setOtherLastSeen(
+          threadData.user_a === currentUserId ? threadData.user_b_last_seen_at : threadData.user_a_last_seen_at
+        );
         
-        // Load other user's writer info
-        const { data: otherWriter } = await supabase
-          .from("writers")
-          .select("id, name, portrait_url")
-          .eq("user_id", otherUserIdValue)
-          .maybeSingle();
+        // Load both writers in one lookup
+        const writerByUser = await resolveWriters([otherUserIdValue, currentUserId]);
+        const otherWriter = writerByUser.get(otherUserIdValue);
+        const currentWriter = writerByUser.get(currentUserId);
 
         if (otherWriter && mounted) {
-          setOtherUser(otherWriter as Writer);
+          setOtherUser(otherWriter);
         }
 
-        // Load current user's writer info
-        const { data: currentWriter } = await supabase
-          .from("writers")
-          .select("id, name, portrait_url")
-          .eq("user_id", currentUserId)
-          .maybeSingle();
-
         if (currentWriter && mounted) {
-          setCurrentUser(currentWriter as Writer);
+          setCurrentUser(currentWriter);
         }
       }
 
@@ -138,24 +172,29 @@ export default function DmThreadPage() {
         return;
       }
 
-      // Load writer info for each message
+      // Attach writer info to the messages (one batched lookup)
       if (messagesData) {
-        const messagesWithSenders = await Promise.all(
-          messagesData.map(async (msg: any) => {
-            const { data: writer } = await supabase
-              .from("writers")
-              .select("name, portrait_url")
-              .eq("user_id", msg.sender_id)
-              .maybeSingle();
-
+        const writerByUser = await resolveWriters(messagesData.map((msg) => msg.sender_id));
+        if (!mounted) return;
+        const linkedId = window.location.hash.match(/^#message-([0-9a-f-]+)$/i)?.[1];
+        if (linkedId && messagesData.some((msg) => msg.id === linkedId)) setLinkedMessageId(linkedId);
+        setMessages(
+          messagesData.map((msg) => {
+            const writer = writerByUser.get(msg.sender_id);
             return {
               ...msg,
-              sender_name: writer?.name || `User ${msg.sender_id.slice(0, 8)}`,
+              sender_name: writerDisplayName(msg.sender_id, writer),
               sender_portrait: writer?.portrait_url || null,
             };
           })
         );
-        setMessages(messagesWithSenders as Msg[]);
+      }
+
+      try {
+        const threadReactions = await loadThreadReactions(threadId);
+        if (mounted) setReactions(threadReactions);
+      } catch (err) {
+        console.error("Error loading reactions:", err);
       }
 
       // Mark all messages as read when viewing the thread
@@ -186,15 +225,11 @@ export default function DmThreadPage() {
         { event: "INSERT", schema: "public", table: "dm_messages", filter: `thread_id=eq.${threadId}` },
         async (payload) => {
           const newMsg = payload.new as any;
-          const { data: writer } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", newMsg.sender_id)
-            .maybeSingle();
+          const writer = (await resolveWriters([newMsg.sender_id])).get(newMsg.sender_id);
 
           const msgWithSender: Msg = {
             ...newMsg,
-            sender_name: writer?.name || `User ${newMsg.sender_id.slice(0, 8)}`,
+            sender_name: writerDisplayName(newMsg.sender_id, writer),
             sender_portrait: writer?.portrait_url || null,
           };
           setMessages((prev) => [...prev, msgWithSender]);
@@ -233,6 +268,23 @@ export default function DmThreadPage() {
           );
         }
       )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "message_reactions", filter: `thread_id=eq.${threadId}` },
+        (payload) => {
+          const reaction = toMessageReaction(payload.new as ReactionRow);
+          setReactions((prev) => mergeReaction(prev, reaction));
+        }
+      )
+      .on(
+        // Delete events can't be filtered and only carry the id; unknown ids are ignored
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "message_reactions" },
+        (payload) => {
+          const removedId = (payload.old as { id?: string }).id;
+          if (removedId) setReactions((prev) => prev.filter((r) => r.id !== removedId));
+        }
+      )
       .subscribe();
 
     return () => {
@@ -241,12 +293,39 @@ export default function DmThreadPage() {
     };
   }, [threadId]);
 
+  // Pick up name/portrait edits without reloading the thread
+  useEffect(() => {
+    return onProfilesChanged(() => {
+      setMessages((prev) =>
+        prev.map((m) => {
+          const writer = getCachedWriter(m.sender_id);
+          return writer ? { ...m, sender_name: writer.name, sender_portrait: writer.portrait_url } : m;
+        })
+      );
+
+      const otherWriter = getCachedWriter(otherUserId);
+      if (otherWriter) setOtherUser(otherWriter);
+    });
+  }, [otherUserId]);
+
   async function send() {
-    if (!me) return;
     if (!text.trim()) return;
 
     const body = text;
     setText("");
+    presence.setTyping(false);
+
+    try {
+      await postMessage(body);
+      draft.clear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send message");
+      setText(body); // restore
+    }
+  }
+
+  async function postMessage(body: string) {
+    if (!me) return;
 
     const { data: insertedMessage, error } = await supabase
       .from("dm_messages")
@@ -258,10 +337,9 @@ export default function DmThreadPage() {
       .select("id")
       .single();
 
-    if (error) {
-      setError(error.message);
-      setText(body); // restore
-    } else if (insertedMessage && me) {
+    if (error) throw error;
+
+    if (insertedMessage) {
       // Mark the message as read immediately when user sends it
       await supabase
         .from("dm_thread_reads")
@@ -309,6 +387,53 @@ export default function DmThreadPage() {
     cancelEdit();
   }
 
+  async function toggleReaction(message: Msg, emoji: string, existing: MessageReaction | null) {
+    if (!me) return;
+    setError(null);
+
+    try {
+      if (existing) {
+        await removeReaction(existing.id);
+        setReactions((prev) => prev.filter((r) => r.id !== existing.id));
+      } else {
+        const reaction = await addReaction("dm", { messageId: message.id, parentId: threadId, userId: me }, emoji);
+        setReactions((prev) => mergeReaction(prev, reaction));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update reaction");
+    }
+  }
+
+  // Composer slash commands; same framework as the session composer
+  const dmCommands: SlashCommand[] = [
+    {
+      name: "me",
+      args: "<action>",
+      description: "Describe what you're doing, e.g. /me waves",
+      run: (args) => {
+        if (!args) throw new Error("Usage: /me <action>");
+        return postMessage(`*${currentUser?.name || "Someone"} ${args}*`);
+      },
+    },
+    {
+      name: "edit",
+      description: "Edit your last message",
+      run: () => {
+        const lastMine = [...messages].reverse().find((m) => m.sender_id === me);
+        if (!lastMine) throw new Error("You haven't sent anything to edit yet");
+        startEdit(lastMine);
+      },
+    },
+    {
+      name: "session",
+      description: "Start a roleplay session with this writer",
+      run: () => setShowStartSessionModal(true),
+    },
+  ];
+
+  const reactionsByMessage = groupReactions(reactions);
+  const otherPresence = otherUserId ? presence.online[otherUserId] : undefined;
+
   return (
     <div className="max-w-3xl mx-auto p-6 flex flex-col gap-4">
       <div className="flex items-center justify-between">
@@ -340,7 +465,9 @@ export default function DmThreadPage() {
             )}
             <div>
               <div className="font-medium">{otherUser.name}</div>
-              <div className="text-xs text-gray-500">Conversation partner</div>
+              <div className={`text-xs ${otherPresence ? "text-green-600" : "text-gray-500"}`}>
+                {formatPresence(otherPresence, latestTime(otherLastSeen, otherUserId ? presence.leftAt[otherUserId] : null))}
+              </div>
             </div>
           </div>
           <div className="flex items-center gap-3">
@@ -371,7 +498,13 @@ export default function DmThreadPage() {
           const mine = m.sender_id === me;
           const isEditing = editingId === m.id;
           return (
-            <div key={m.id} className={`flex items-start gap-2 ${mine ? "flex-row-reverse" : "flex-row"}`}>
+            <div
+              key={m.id}
+              id={`message-${m.id}`}
+              className={`flex items-start gap-2 ${mine ? "flex-row-reverse" : "flex-row"} ${
+                m.id === linkedMessageId ? "rounded ring-2 ring-amber-300" : ""
+              }`}
+            >
               {!mine && (
                 <div className="flex-shrink-0">
                   {m.sender_portrait ? (
@@ -431,6 +564,13 @@ export default function DmThreadPage() {
                     </button>
                   )}
                 </div>
+                <ReactionBar
+                  reactions={reactionsByMessage.get(m.id) || []}
+                  me={me}
+                  canReact={!!me}
+                  onToggle={(emoji, existing) => toggleReaction(m, emoji, existing)}
+                  align={mine ? "end" : "start"}
+                />
               </div>
               {mine && (
                 <div className="flex-shrink-0">
@@ -453,23 +593,30 @@ export default function DmThreadPage() {
         <div ref={bottomRef} />
       </div>
 
+      {otherPresence?.typing && (
+        <p className="text-xs italic text-gray-500 -mt-2">{otherUser?.name || "Your partner"} is writing…</p>
+      )}
+
       <div className="flex gap-2">
-        <input
-          className="flex-1 border rounded p-2"
-          placeholder="Write…"
+        <SlashCommandInput
+          commands={dmCommands}
+          placeholder="Write… (type / for commands)"
           value={text}
-          onChange={(e) => setText(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === "Enter" && !e.shiftKey) {
-              e.preventDefault();
-              send();
-            }
+          onChange={(value) => {
+            setText(value);
+            // Commands aren't writing
+            presence.setTyping(!!value.trim() && !value.startsWith("/"));
           }}
+          onSubmit={send}
+          onError={setError}
         />
         <button className="bg-black text-white px-4 rounded" onClick={send}>
           Send
         </button>
       </div>
+      {formatDraftStatus(draft.status, draft.savedAt) && (
+        <p className="text-[10px] -mt-1 text-right text-gray-400">{formatDraftStatus(draft.status, draft.savedAt)}</p>
+      )}
 
       {/* Start Session Modal */}
       {showStartSessionModal && otherUserId && (
@@ -502,22 +649,14 @@ function StartSessionModal({
   const [selectedStyle, setSelectedStyle] = useState("fantasy");
   const [selectedCharacterId, setSelectedCharacterId] = useState<string>("");
   const [isPublic, setIsPublic] = useState(false);
+  const [contentRating, setContentRating] = useState<ContentRating>("sfw");
+  const [contentWarnings, setContentWarnings] = useState<string[]>([]);
+  const [coWriters, setCoWriters] = useState<Array<{ user_id: string; name: string }>>([]);
   const [characters, setCharacters] = useState<Array<{ id: string; name: string }>>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const availableStyles = [
-    { value: "fantasy", label: "Fantasy", emoji: "🧙" },
-    { value: "sci-fi", label: "Sci-Fi", emoji: "🚀" },
-    { value: "gothic", label: "Gothic", emoji: "🦇" },
-    { value: "egypt", label: "Egypt", emoji: "🏺" },
-    { value: "modern", label: "Modern", emoji: "🏙️" },
-    { value: "medieval", label: "Medieval", emoji: "⚔️" },
-    { value: "steampunk", label: "Steampunk", emoji: "⚙️" },
-    { value: "cyberpunk", label: "Cyberpunk", emoji: "🤖" },
-  ];
-
   useEffect(() => {
     async function loadCharacters() {
       const { data: userRes } = await supabase.auth.getUser();
@@ -569,16 +708,32 @@ function StartSessionModal({
       const { data: sessionData, error: sessionError } = await supabase
         .from("rp_sessions")
         .insert({
-          user_a: userRes.user.id,
-          user_b: otherUserId,
-          status: "active",
-          is_active: true,
+          created_by: userRes.user.id,
+          // Becomes active once the invitees accept
+          status: "pending",
         })
         .select("id")
         .single();
 
       if (sessionError) throw sessionError;
 
+      // Creator joins as owner, then the DM partner and any extra co-writers are invited
+      const { error: ownerError } = await supabase
+        .from("rp_session_participants")
+        .insert({
+          session_id: sessionData.id,
+          user_id: userRes.user.id,
+          role: "owner",
+        });
+
+      if (ownerError) throw ownerError;
+
+      const me = userRes.user.id;
+      await addSessionParticipants(
+        sessionData.id,
+        [otherUserId, ...coWriters.map((w) => w.user_id)].filter((id) => id !== me)
+      );
+
       // Add character to session
       const { error: charError } = await supabase
         .from("rp_session_characters")
@@ -589,13 +744,15 @@ function StartSessionModal({
 
       if (charError) throw charError;
 
-      // Update session with name, style, and is_public
+      // Update session with name, style, visibility and rating
       const { error: updateError } = await supabase
         .from("rp_sessions")
         .update({
           name: sessionName.trim() || null,
           style: selectedStyle || null,
           is_public: isPublic,
+          content_rating: contentRating,
+          content_warnings: contentWarnings,
         })
         .eq("id", sessionData.id);
 
@@ -652,10 +809,40 @@ function StartSessionModal({
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-1">Invite More Writers (optional)</label>
+            {coWriters.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {coWriters.map((writer) => (
+                  <span key={writer.user_id} className="text-xs bg-gray-100 border px-2 py-1 rounded flex items-center gap-1">
+                    {writer.name}
+                    <button
+                      type="button"
+                      onClick={() => setCoWriters(coWriters.filter((w) => w.user_id !== writer.user_id))}
+                      className="text-gray-500 hover:text-black"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {/* You and your DM partner take two of the seats */}
+            {coWriters.length < MAX_SESSION_PARTICIPANTS - 2 && (
+              <WriterPicker
+                excludeUserIds={[otherUserId || "", ...coWriters.map((w) => w.user_id)]}
+                onSelect={(writer) => setCoWriters([...coWriters, { user_id: writer.user_id, name: writer.name }])}
+              />
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Group sessions can have up to {MAX_SESSION_PARTICIPANTS} writers
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium mb-1">Style</label>
             <div className="grid grid-cols-4 gap-2">
-              {availableStyles.map((style) => (
+              {SESSION_STYLES.map((style) => (
                 <button
                   key={style.value}
                   onClick={() => setSelectedStyle(style.value)}
@@ -672,6 +859,33 @@ function StartSessionModal({
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-1">Content Rating</label>
+            <div className="grid grid-cols-3 gap-2">
+              {CONTENT_RATINGS.map((rating) => (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => setContentRating(rating)}
+                  className={`p-2 border rounded text-center ${
+                    contentRating === rating ? "bg-black text-white border-black" : "bg-white hover:bg-gray-50"
+                  }`}
+                >
+                  <div className="text-sm font-medium">{contentRatings[rating].label}</div>
+                  <div className="text-[10px] opacity-70">{contentRatings[rating].description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Content Warnings (optional)</label>
+            <ContentWarningPicker selected={contentWarnings} onChange={setContentWarnings} />
+            <p className="text-xs text-gray-500 mt-1">
+              Spectators see the rating and warnings before they can read a public session
+            </p>
+          </div>
+
           <div>
             <label className="flex items-center gap-2">
               <input
@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { loadDraftChats } from "@/lib/drafts";
 
 type ThreadWithLatest = {
   id: string;
@@ -22,6 +23,8 @@ type ThreadWithLatest = {
     created_at: string;
   } | null;
   unread_count: number;
+  // An unsent composer draft is waiting there
+  has_draft: boolean;
 };
 
 export default function DmInboxPage() {
@@ -66,6 +69,8 @@ export default function DmInboxPage() {
         return;
       }
 
+      const drafts = await loadDraftChats().catch(() => null);
+
       // For each thread, get the other user and latest message
       const threadsWithDetails = await Promise.all(
         threadsData.map(async (thread) => {
@@ -142,6 +147,7 @@ export default function DmInboxPage() {
             },
             latest_message: latestMsg || null,
             unread_count: unreadCount,
+            has_draft: !!drafts?.threadIds.has(thread.id),
           };
         })
       );
@@ -236,6 +242,7 @@ export default function DmInboxPage() {
                             {thread.unread_count}
                           </span>
                         )}
+                        {thread.has_draft && <span className="text-xs text-gray-500">✎ Draft</span>}
                       </div>
                       {thread.latest_message && (
                         <div className="text-sm text-gray-600 mt-1 truncate">
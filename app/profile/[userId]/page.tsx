@@ -92,12 +92,12 @@ export default function ProfilePage() {
       // Load feedback received by this writer
       // Get all sessions where this user participated
       const { data: sessions } = await supabase
-        .from("rp_sessions")
-        .select("id")
-        .or(`user_a.eq.${userId},user_b.eq.${userId}`);
+        .from("rp_session_participants")
+        .select("session_id")
+        .eq("user_id", userId);
 
       if (sessions && sessions.length > 0) {
-        const sessionIds = sessions.map((s) => s.id);
+        const sessionIds = sessions.map((s) => s.session_id);
 
         // Load all feedback for these sessions (excluding feedback from the writer themselves)
         const { data: allFeedback } = await supabase
@@ -4,12 +4,37 @@ import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  AvailabilityWindow,
+  WEEKDAYS,
+  browserTimezone,
+  getCalendarFeedToken,
+  isValidTimezone,
+} from "@/lib/schedule";
+import {
+  CONTENT_RATINGS,
+  ContentRating,
+  DEFAULT_CONTENT_PREFERENCES,
+  contentRatings,
+} from "@/lib/contentRatings";
+import ContentWarningPicker from "@/components/ContentWarningPicker";
+
+// Every zone the browser knows, falling back to just the writer's own
+function timezoneOptions(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
 
 export default function EditProfilePage() {
   const router = useRouter();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [portraitUrl, setPortraitUrl] = useState("");
+  const [timezone, setTimezone] = useState("");
+  const [availability, setAvailability] = useState<AvailabilityWindow[]>([]);
+  const [calendarUrl, setCalendarUrl] = useState<string | null>(null);
+  const [maxRating, setMaxRating] = useState<ContentRating>(DEFAULT_CONTENT_PREFERENCES.max_rating);
+  const [hiddenWarnings, setHiddenWarnings] = useState<string[]>([]);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -47,6 +72,10 @@ export default function EditProfilePage() {
         setName(data.name || "");
         setDescription(data.description || "");
         setPortraitUrl(data.portrait_url || "");
+        setTimezone(data.timezone || browserTimezone());
+        setAvailability(Array.isArray(data.weekly_availability) ? data.weekly_availability : []);
+        setMaxRating(data.content_max_rating || DEFAULT_CONTENT_PREFERENCES.max_rating);
+        setHiddenWarnings(data.hidden_content_warnings || []);
       }
 
       setLoading(false);
@@ -106,6 +135,16 @@ export default function EditProfilePage() {
       return;
     }
 
+    if (availability.some((w) => w.start >= w.end)) {
+      setError("Each availability window needs to end after it starts");
+      return;
+    }
+
+    if (!isValidTimezone(timezone)) {
+      setError("Pick a valid timezone");
+      return;
+    }
+
     setSaving(true);
 
     const { data: userRes } = await supabase.auth.getUser();
@@ -132,6 +171,10 @@ export default function EditProfilePage() {
         name: name.trim(),
         description: description.trim() || null,
         portrait_url: finalPortraitUrl,
+        timezone,
+        weekly_availability: availability,
+        content_max_rating: maxRating,
+        hidden_content_warnings: hiddenWarnings,
       })
       .eq("user_id", userRes.user.id);
 
@@ -145,6 +188,22 @@ export default function EditProfilePage() {
     router.push(`/profile/${userRes.user.id}`);
   }
 
+  function updateWindow(index: number, patch: Partial<AvailabilityWindow>) {
+    setAvailability((prev) => prev.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  }
+
+  async function showCalendarUrl(reset: boolean) {
+    if (reset && !confirm("Calendars subscribed to the old link will stop updating. Make a new link?")) return;
+
+    setError(null);
+    try {
+      const token = await getCalendarFeedToken({ reset });
+      setCalendarUrl(`${window.location.origin}/calendar/${token}.ics`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to get your calendar link");
+    }
+  }
+
   if (loading) {
     return (
       <div className="max-w-2xl mx-auto p-6">
@@ -240,6 +299,130 @@ export default function EditProfilePage() {
         />
       </div>
 
+      <div>
+        <label className="block text-sm font-medium mb-1">Timezone</label>
+        <select
+          className="w-full border p-2 rounded bg-white text-black"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          disabled={saving || uploading}
+        >
+          {timezoneOptions(timezone).map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Weekly availability (optional)</label>
+        <p className="text-xs text-gray-500 mb-2">
+          When you&apos;re usually free to write, in your timezone. Sessions use this to suggest times that suit
+          everyone.
+        </p>
+        <div className="space-y-2">
+          {availability.map((entry, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                className="border p-2 rounded bg-white text-black"
+                value={entry.day}
+                onChange={(e) => updateWindow(index, { day: Number(e.target.value) })}
+                disabled={saving || uploading}
+              >
+                {WEEKDAYS.map((day, i) => (
+                  <option key={day} value={i}>
+                    {day}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="time"
+                className="border p-2 rounded"
+                value={entry.start}
+                onChange={(e) => updateWindow(index, { start: e.target.value })}
+                disabled={saving || uploading}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                className="border p-2 rounded"
+                // Midnight is stored as 24:00 so the window ends after it starts
+                value={entry.end === "24:00" ? "00:00" : entry.end}
+                onChange={(e) => updateWindow(index, { end: e.target.value === "00:00" ? "24:00" : e.target.value })}
+                disabled={saving || uploading}
+              />
+              <button
+                className="text-sm underline text-gray-600"
+                onClick={() => setAvailability((prev) => prev.filter((_, i) => i !== index))}
+                disabled={saving || uploading}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            className="text-sm underline"
+            onClick={() =>
+              setAvailability((prev) => [
+                ...prev,
+                prev.length > 0 ? { ...prev[prev.length - 1] } : { day: 6, start: "19:00", end: "22:00" },
+              ])
+            }
+            disabled={saving || uploading || availability.length >= 50}
+          >
+            + Add time
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Public sessions I want to see</label>
+        <p className="text-xs text-gray-500 mb-2">
+          Sessions to Watch leaves out anything rated higher or tagged with a warning you hide. You can still open a
+          session from a link after a warning.
+        </p>
+        <select
+          className="w-full border p-2 rounded bg-white text-black mb-2"
+          value={maxRating}
+          onChange={(e) => setMaxRating(e.target.value as ContentRating)}
+          disabled={saving || uploading}
+        >
+          {CONTENT_RATINGS.map((rating) => (
+            <option key={rating} value={rating}>
+              Up to {contentRatings[rating].label} ({contentRatings[rating].description.toLowerCase()})
+            </option>
+          ))}
+        </select>
+        <label className="block text-xs text-gray-600 mb-1">Hide sessions with these warnings</label>
+        <ContentWarningPicker selected={hiddenWarnings} onChange={setHiddenWarnings} disabled={saving || uploading} />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Calendar feed</label>
+        <p className="text-xs text-gray-500 mb-2">
+          Subscribe to this link in Google Calendar, Apple Calendar or Outlook to see your confirmed writing times.
+          Anyone with the link can see them, so keep it to yourself.
+        </p>
+        {calendarUrl ? (
+          <div className="space-y-1">
+            <input
+              className="w-full border p-2 rounded text-sm"
+              value={calendarUrl}
+              readOnly
+              onFocus={(e) => e.currentTarget.select()}
+            />
+            <button className="text-xs underline text-gray-600" onClick={() => showCalendarUrl(true)}>
+              Make a new link
+            </button>
+          </div>
+        ) : (
+          <button className="border px-3 py-1 rounded text-sm hover:bg-gray-50" onClick={() => showCalendarUrl(false)}>
+            Show my calendar link
+          </button>
+        )}
+      </div>
+
       {error && <p className="text-red-600 text-sm">{error}</p>}
 
       <div className="flex gap-2">
@@ -0,0 +1,312 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { loadMySessionIds, loadParticipantsForSessions } from "@/lib/session";
+import {
+  SEARCH_MESSAGE_TYPES,
+  SearchFilters,
+  SearchMessageType,
+  SearchResponse,
+  SearchResult,
+  parseSearchParams,
+  searchParamsFor,
+  searchResultHref,
+  splitSnippet,
+} from "@/lib/messageSearch";
+
+const TYPE_LABELS: Record<SearchMessageType, string> = {
+  narration: "Narration",
+  ooc: "OOC",
+  roll: "Rolls",
+  scene: "Scene breaks",
+  dm: "DMs",
+};
+
+type Option = { id: string; name: string };
+
+export default function SearchPage() {
+  const router = useRouter();
+  const [filters, setFilters] = useState<SearchFilters>({ q: "" });
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [searched, setSearched] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter choices: my sessions, the writers I share them or DMs with, my characters
+  const [sessionOptions, setSessionOptions] = useState<Option[]>([]);
+  const [partnerOptions, setPartnerOptions] = useState<Option[]>([]);
+  const [characterOptions, setCharacterOptions] = useState<Option[]>([]);
+
+  const runSearch = useCallback(async (next: SearchFilters) => {
+    setFilters(next);
+    setError(null);
+    if (!next.q) {
+      setResults([]);
+      setHasMore(false);
+      setSearched(false);
+      return;
+    }
+
+    setSearching(true);
+    const params = searchParamsFor(next);
+    window.history.replaceState(null, "", `/search?${params}`);
+    try {
+      const response = await fetch(`/api/search?${params}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || "Search failed");
+      const { results: found, hasMore: more } = body as SearchResponse;
+      // Later pages add on to what's shown
+      setResults((prev) => (next.page ? [...prev, ...found] : found));
+      setHasMore(more);
+      setSearched(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      const { data: userRes } = await supabase.auth.getUser();
+      if (!userRes.user) {
+        if (mounted) router.push("/login");
+        return;
+      }
+      const userId = userRes.user.id;
+
+      // Shared links (/search?q=…) run straight away
+      const initial = parseSearchParams(new URLSearchParams(window.location.search));
+      if (mounted && initial.q) {
+        setQuery(initial.q);
+        runSearch(initial);
+      }
+
+      try {
+        const sessionIds = await loadMySessionIds(userId);
+        const [{ data: sessionsData }, participantsBySession, { data: threadsData }, { data: charactersData }] =
+          await Promise.all([
+            supabase.from("rp_sessions").select("id, name").in("id", sessionIds).order("created_at", { ascending: false }),
+            loadParticipantsForSessions(sessionIds, { includeLeft: true }),
+            supabase.from("dm_threads").select("user_a, user_b").or(`user_a.eq.${userId},user_b.eq.${userId}`),
+            supabase.from("characters").select("id, name").eq("user_id", userId).order("name", { ascending: true }),
+          ]);
+
+        const partners = new Map<string, string>();
+        for (const participants of Object.values(participantsBySession)) {
+          for (const p of participants) if (p.user_id !== userId) partners.set(p.user_id, p.name);
+        }
+        const dmPartnerIds = (threadsData || [])
+          .map((t) => (t.user_a === userId ? t.user_b : t.user_a))
+          .filter((id) => !partners.has(id));
+        if (dmPartnerIds.length > 0) {
+          const { data: writersData } = await supabase
+            .from("writers")
+            .select("user_id, name")
+            .in("user_id", dmPartnerIds);
+          for (const w of writersData || []) partners.set(w.user_id, w.name);
+        }
+
+        if (!mounted) return;
+        setSessionOptions((sessionsData || []).map((s) => ({ id: s.id, name: s.name || "Untitled session" })));
+        setPartnerOptions(
+          Array.from(partners, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setCharacterOptions(charactersData || []);
+      } catch (err) {
+        console.error("Error loading search filters:", err);
+      }
+    }
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, runSearch]);
+
+  function updateFilter(patch: Partial<SearchFilters>) {
+    runSearch({ ...filters, ...patch, q: query.trim(), page: 0 });
+  }
+
+  const selectClass = "border rounded px-2 py-1 text-sm bg-white text-black";
+
+  return (
+    <div className="min-h-screen" style={{ background: "var(--bg0)", color: "var(--text)" }}>
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Search</h1>
+            <p className="text-secondary mt-1">Your sessions, your DMs and public transcripts</p>
+          </div>
+          <Link
+            href="/dashboard"
+            className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateFilter({});
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              className="flex-1 border rounded px-3 py-2 bg-white text-black"
+              placeholder='the dragon, "silver court", ambush -tavern'
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={searching || !query.trim()}
+              className="bg-black text-white px-4 rounded disabled:opacity-50"
+            >
+              {searching ? "Searching..." : "Search"}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 items-center">
+            <select
+              className={selectClass}
+              value={filters.source || ""}
+              onChange={(e) => updateFilter({ source: (e.target.value || undefined) as SearchFilters["source"] })}
+            >
+              <option value="">Sessions and DMs</option>
+              <option value="session">Sessions only</option>
+              <option value="dm">DMs only</option>
+            </select>
+            <select
+              className={selectClass}
+              value={filters.session || ""}
+              onChange={(e) => updateFilter({ session: e.target.value || undefined })}
+            >
+              <option value="">Any session</option>
+              {sessionOptions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClass}
+              value={filters.partner || ""}
+              onChange={(e) => updateFilter({ partner: e.target.value || undefined })}
+            >
+              <option value="">Any partner</option>
+              {partnerOptions.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClass}
+              value={filters.character || ""}
+              onChange={(e) => updateFilter({ character: e.target.value || undefined })}
+            >
+              <option value="">Any character</option>
+              {characterOptions.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClass}
+              value={filters.type || ""}
+              onChange={(e) => updateFilter({ type: (e.target.value || undefined) as SearchMessageType | undefined })}
+            >
+              <option value="">Any kind</option>
+              {SEARCH_MESSAGE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <label className="text-sm flex items-center gap-1">
+              From
+              <input
+                type="date"
+                className={selectClass}
+                value={filters.from || ""}
+                onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              />
+            </label>
+            <label className="text-sm flex items-center gap-1">
+              to
+              <input
+                type="date"
+                className={selectClass}
+                value={filters.to || ""}
+                onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              />
+            </label>
+          </div>
+        </form>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {searched && results.length === 0 && !searching ? (
+          <div className="text-center py-12 bg-white border rounded p-6">
+            <p className="text-secondary">Nothing matched. Try fewer words or loosen the filters.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {results.map((result) => (
+              <Link
+                key={`${result.source}:${result.message_id}`}
+                href={searchResultHref(result)}
+                className="block bg-white border rounded p-4 hover:bg-gray-50 transition-colors text-black"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span className="truncate">
+                    {result.source === "dm"
+                      ? `DM with ${result.partner_name || "a writer"}`
+                      : result.session_name || "Untitled session"}
+                    {" · "}
+                    {result.speaker_name ? `${result.speaker_name} (${result.sender_name})` : result.sender_name}
+                    {result.source === "session" && ` · ${TYPE_LABELS[result.message_type]}`}
+                  </span>
+                  <span className="flex-shrink-0">{new Date(result.created_at).toLocaleDateString()}</span>
+                </div>
+                <p className="mt-1 text-sm whitespace-pre-line">
+                  {splitSnippet(result.snippet).map((part, i) =>
+                    part.match ? (
+                      <mark key={i} className="bg-amber-200 rounded px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={i}>{part.text}</span>
+                    )
+                  )}
+                </p>
+              </Link>
+            ))}
+            {hasMore && (
+              <button
+                onClick={() => runSearch({ ...filters, page: (filters.page || 0) + 1 })}
+                disabled={searching}
+                className="w-full border rounded py-2 text-sm bg-white text-black hover:bg-gray-50 disabled:opacity-50"
+              >
+                {searching ? "Loading..." : "More results"}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import {
+  EXPORT_FORMATS,
+  exportFileName,
+  toEpub,
+  toHtml,
+  toMarkdown,
+  type EmbeddedImage,
+  type ExportFormat,
+  type Transcript,
+  type TranscriptEntry,
+} from "@/lib/sessionExport";
+import { needsContentWarning, type ContentRating } from "@/lib/contentRatings";
+import type { RollResult } from "@/lib/dice";
+import type { SceneKind } from "@/lib/session";
+
+// GET /session/:id/export?format=md|html|epub&ooc=1&acknowledged=1
+// Participants can export any of their sessions, with or without OOC chat.
+// Anyone can export a public session, narration, rolls and scene breaks only (same as the public view).
+// Rated or tagged public sessions go through the session page's content warning
+// first: without `acknowledged=1` non-participants are sent there.
+
+const PAGE_SIZE = 1000;
+const LOOKUP_CHUNK_SIZE = 100;
+const MAX_PORTRAIT_BYTES = 2 * 1024 * 1024;
+
+type MessageRow = {
+  id: string;
+  sender_id: string | null;
+  character_id: string | null;
+  npc_id: string | null;
+  message_type: "ooc" | "narration" | "roll" | "scene";
+  body: string;
+  created_at: string;
+  roll_result: RollResult | null;
+  scene_kind: SceneKind | null;
+};
+
+type ProfileRow = { id: string; user_id: string; name: string; portrait_url: string | null };
+type NpcRow = { id: string; name: string; portrait_url: string | null };
+
+export async function GET(request: Request, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  const url = new URL(request.url);
+
+  const format = url.searchParams.get("format") || "md";
+  if (!(format in EXPORT_FORMATS)) {
+    return NextResponse.json({ error: "Unknown export format" }, { status: 400 });
+  }
+
+  const supabase = await supabaseServer();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  // RLS hides private sessions from non-participants
+  const { data: session, error: sessionError } = await supabase
+    .from("rp_sessions")
+    .select("id, name, style, is_public, content_rating, content_warnings, created_at")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (sessionError || !session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const { data: participantRows, error: participantsError } = await supabase
+    .from("rp_session_participants")
+    .select("user_id, invite_status")
+    .eq("session_id", sessionId)
+    .eq("invite_status", "accepted");
+
+  if (participantsError) {
+    return NextResponse.json({ error: participantsError.message }, { status: 500 });
+  }
+
+  const participantIds = (participantRows || []).map((p) => p.user_id as string);
+  const isParticipant = !!user && participantIds.includes(user.id);
+
+  if (!isParticipant && !session.is_public) {
+    return NextResponse.json({ error: "You don't have access to this session" }, { status: 403 });
+  }
+
+  const content = {
+    content_rating: session.content_rating as ContentRating,
+    content_warnings: (session.content_warnings || []) as string[],
+  };
+  if (!isParticipant && needsContentWarning(content) && url.searchParams.get("acknowledged") !== "1") {
+    return NextResponse.redirect(new URL(`/session/${sessionId}`, url));
+  }
+
+  const includeOoc = isParticipant && url.searchParams.get("ooc") === "1";
+
+  // Oldest first, paged because PostgREST caps response size
+  const messages: MessageRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("rp_session_messages")
+      .select("id, sender_id, character_id, npc_id, message_type, body, created_at, roll_result, scene_kind")
+      .eq("session_id", sessionId)
+      .is("deleted_at", null)
+      .in("message_type", includeOoc ? ["narration", "roll", "scene", "ooc"] : ["narration", "roll", "scene"])
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    messages.push(...((data || []) as MessageRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const writerIds = Array.from(
+    new Set([...participantIds, ...messages.map((m) => m.sender_id).filter((id): id is string => !!id)])
+  );
+  const characterIds = Array.from(
+    new Set(messages.map((m) => m.character_id).filter((id): id is string => !!id))
+  );
+
+  const writers = new Map<string, ProfileRow>();
+  const characters = new Map<string, ProfileRow>();
+
+  for (let i = 0; i < writerIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data } = await supabase
+      .from("writers")
+      .select("id, user_id, name, portrait_url")
+      .in("user_id", writerIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+    for (const row of (data || []) as ProfileRow[]) writers.set(row.user_id, row);
+  }
+
+  for (let i = 0; i < characterIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data } = await supabase
+      .from("characters")
+      .select("id, user_id, name, portrait_url")
+      .in("id", characterIds.slice(i, i + LOOKUP_CHUNK_SIZE));
+    for (const row of (data || []) as ProfileRow[]) characters.set(row.id, row);
+  }
+
+  // NPCs belong to the session, archived ones included
+  const npcs = new Map<string, NpcRow>();
+  if (messages.some((m) => m.npc_id)) {
+    const { data } = await supabase
+      .from("rp_session_npcs")
+      .select("id, name, portrait_url")
+      .eq("session_id", sessionId);
+    for (const row of (data || []) as NpcRow[]) npcs.set(row.id, row);
+  }
+
+  // The character or NPC a narration or roll is voiced by
+  const speakerOf = (m: MessageRow) =>
+    m.npc_id ? npcs.get(m.npc_id) : m.character_id ? characters.get(m.character_id) : undefined;
+
+  const writerName = (userId: string) => writers.get(userId)?.name || `User ${userId.slice(0, 8)}`;
+
+  const entries: TranscriptEntry[] = messages.map((m) => {
+    const character = speakerOf(m);
+    return {
+      id: m.id,
+      message_type: m.message_type,
+      body: m.body,
+      created_at: m.created_at,
+      author_name: m.sender_id ? writerName(m.sender_id) : "Unknown",
+      character_name: character?.name || null,
+      character_portrait: character?.portrait_url || null,
+      roll_result: m.roll_result,
+      scene_kind: m.scene_kind,
+    };
+  });
+
+  // Cast in order of first appearance
+  const cast = Array.from(
+    new Set(messages.map(speakerOf).filter((speaker): speaker is ProfileRow | NpcRow => !!speaker))
+  ).map((speaker) => ({ name: speaker.name, portrait_url: speaker.portrait_url }));
+
+  const transcript: Transcript = {
+    session_id: session.id,
+    title: session.name || "Untitled Session",
+    style: session.style || null,
+    ...content,
+    writers: participantIds.map(writerName),
+    characters: cast,
+    started_at: session.created_at,
+    entries,
+  };
+
+  const exportFormat = format as ExportFormat;
+  let body: string | Uint8Array;
+  if (exportFormat === "epub") {
+    body = toEpub(transcript, await fetchPortraits(cast.map((c) => c.portrait_url)));
+  } else if (exportFormat === "html") {
+    body = toHtml(transcript);
+  } else {
+    body = toMarkdown(transcript);
+  }
+
+  return new NextResponse(body as BodyInit, {
+    headers: {
+      "Content-Type": EXPORT_FORMATS[exportFormat].contentType,
+      "Content-Disposition": `attachment; filename="${exportFileName(transcript, exportFormat)}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// EPUB readers won't load remote images, so portraits are bundled into the file.
+// Only our own storage is fetched; anything else, or anything that fails to
+// download, is just left out.
+async function fetchPortraits(urls: Array<string | null>): Promise<Map<string, EmbeddedImage>> {
+  const images = new Map<string, EmbeddedImage>();
+  const storageOrigin = new URL(process.env.NEXT_PUBLIC_SUPABASE_URL!).origin;
+
+  await Promise.all(
+    Array.from(new Set(urls.filter((u): u is string => !!u))).map(async (portraitUrl) => {
+      try {
+        if (new URL(portraitUrl).origin !== storageOrigin) return;
+        const response = await fetch(portraitUrl, { signal: AbortSignal.timeout(5000) });
+        if (!response.ok) return;
+        const mediaType = (response.headers.get("content-type") || "").split(";")[0].trim();
+        const data = new Uint8Array(await response.arrayBuffer());
+        if (data.length > MAX_PORTRAIT_BYTES) return;
+        images.set(portraitUrl, { data, mediaType });
+      } catch (err) {
+        console.error("Error fetching portrait for export:", err);
+      }
+    })
+  );
+
+  return images;
+}
@@ -1,18 +1,123 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { ReactNode, useEffect, useLayoutEffect, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import { feedbackTags } from "@/lib/feedbackTags";
+import { RollResult, formatRoll, parseRollCommand } from "@/lib/dice";
+import { SlashCommand } from "@/lib/slashCommands";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/sessionExport";
+import { ImportSource, importSources } from "@/lib/sessionImport";
+import {
+  MAX_SESSION_PARTICIPANTS,
+  SessionAction,
+  SceneKind,
+  SessionParticipant,
+  SessionScene,
+  SessionStatus,
+  sessionStatuses,
+  acceptSessionInvitation,
+  canTransitionSession,
+  addSessionCharacter,
+  addSessionParticipants,
+  agreeToReopenSession,
+  branchSession,
+  declineSessionInvitation,
+  formatParticipantNames,
+  loadSessionParticipants,
+  loadSessionBranches,
+  loadSessionScenes,
+  loadSessionSeries,
+  deleteSessionMessage,
+  editSessionMessage,
+  loadMessageRevisions,
+  passSessionTurn,
+  removeSessionCharacter,
+  rollDice,
+  SeriesPart,
+  SessionBranch,
+  startSessionSequel,
+  transitionSession,
+  turnOrders,
+  TurnOrder,
+} from "@/lib/session";
+import { diffWords } from "@/lib/textDiff";
+import {
+  NPC_NAME_MAX_LENGTH,
+  NPC_NOTE_MAX_LENGTH,
+  SessionNpc,
+  createSessionNpc,
+  loadSessionNpcs,
+  setSessionNpcArchived,
+  updateSessionNpc,
+} from "@/lib/sessionNpcs";
+import { SessionPin, loadSessionPins, setMessagePinned } from "@/lib/sessionLore";
+import { formatDraftStatus, useMessageDraft } from "@/lib/drafts";
+import {
+  CONTENT_RATINGS,
+  ContentPreferences,
+  ContentRating,
+  acknowledgeContent,
+  contentRatings,
+  hasAcknowledgedContent,
+  matchesContentPreferences,
+  needsContentWarning,
+} from "@/lib/contentRatings";
+import {
+  ViewerPresence,
+  formatPresence,
+  latestTime,
+  useChatPresence,
+  useMarkChatSeen,
+  useSessionViewers,
+} from "@/lib/presence";
+import {
+  MessageReaction,
+  ReactionRow,
+  addReaction,
+  groupReactions,
+  loadSessionReactions,
+  mergeReaction,
+  removeReaction,
+  toMessageReaction,
+} from "@/lib/reactions";
+import {
+  getCachedCharacter,
+  getCachedWriter,
+  loadContentPreferences,
+  onProfilesChanged,
+  resolveCharacters,
+  resolveWriters,
+  writerDisplayName,
+} from "@/lib/profiles";
+import ContentRatingBadge from "@/components/ContentRatingBadge";
+import ContentWarningPicker from "@/components/ContentWarningPicker";
+import ReactionBar from "@/components/ReactionBar";
+import SessionLorebook from "@/components/SessionLorebook";
+import SessionSchedule from "@/components/SessionSchedule";
+import SessionStatusBadge from "@/components/SessionStatusBadge";
+import SlashCommandInput from "@/components/SlashCommandInput";
+import SpectatorChat from "@/components/SpectatorChat";
+import WriterPicker from "@/components/WriterPicker";
 
 type SessionMessage = {
   id: string;
-  sender_id: string;
+  // null for system notices (e.g. inactivity reminders)
+  sender_id: string | null;
   body: string;
-  message_type: "ooc" | "narration";
+  message_type: "ooc" | "narration" | "system" | "roll" | "scene";
   character_id: string | null;
   created_at: string;
+  edited_at?: string | null;
+  // Soft-deleted: shown as a tombstone, body is empty
+  deleted_at?: string | null;
+  // Server-computed breakdown for rolls
+  roll_result?: RollResult | null;
+  // For scene/chapter breaks; the body is the title
+  scene_kind?: SceneKind | null;
+  // Narration voiced as a session NPC instead of a character
+  npc_id?: string | null;
   character_portrait?: string | null;
   character_name?: string | null;
   sender_portrait?: string | null;
@@ -21,18 +126,135 @@ type SessionMessage = {
 
 type Session = {
   id: string;
-  user_a: string;
-  user_b: string;
-  status: "active" | "closed";
-  is_active: boolean;
+  created_by: string | null;
+  status: SessionStatus;
+  status_changed_at: string | null;
+  status_changed_by: string | null;
   last_message_at: string | null;
   reminder_sent_at: string | null;
+  inactivity_reminder_minutes: number | null;
   name: string | null;
   style: string | null;
   is_public: boolean;
+  spectator_chat_enabled: boolean;
+  turn_order: TurnOrder;
+  // Who is expected to post next (server-maintained); null when not tracked
+  next_turn_user_id: string | null;
+  turn_started_at: string | null;
+  turn_deadline_hours: number | null;
+  // Set when this session was forked from another at a message
+  branched_from_session_id: string | null;
+  branched_from_message_id: string | null;
+  imported_from: ImportSource | null;
+  imported_at: string | null;
+  content_rating: ContentRating;
+  content_warnings: string[];
   max_viewers?: number;
+  // Total minutes watched by viewers (aggregated from presence)
+  viewer_minutes?: number;
 };
 
+// Choices for how long a session can stay quiet before the server posts a reminder
+const REMINDER_THRESHOLDS: Array<{ minutes: number | null; label: string }> = [
+  { minutes: null, label: "Off" },
+  { minutes: 30, label: "30 min" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 360, label: "6 hours" },
+  { minutes: 1440, label: "1 day" },
+  { minutes: 4320, label: "3 days" },
+];
+
+// Choices for how long a writer has to take their turn before the server nudges them
+const TURN_DEADLINES: Array<{ hours: number | null; label: string }> = [
+  { hours: null, label: "None" },
+  { hours: 12, label: "12 hours" },
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+// Transcript is loaded newest-first in pages of this size
+const MESSAGE_PAGE_SIZE = 50;
+
+const MESSAGE_COLUMNS =
+  "id, sender_id, body, message_type, character_id, npc_id, created_at, edited_at, deleted_at, roll_result, scene_kind";
+
+// What public viewers see of a session: the story, its breaks and the dice, no OOC chat
+const PUBLIC_MESSAGE_TYPES: SessionMessage["message_type"][] = ["narration", "roll", "scene"];
+
+/**
+ * Fetch one page of messages older than `before` (or the newest page),
+ * returned oldest-first. Public viewers only get PUBLIC_MESSAGE_TYPES.
+ */
+async function fetchMessagePage(
+  sessionId: string,
+  { before, publicOnly }: { before?: { id: string; created_at: string }; publicOnly?: boolean }
+): Promise<{ messages: SessionMessage[]; hasMore: boolean }> {
+  let query = supabase
+    .from("rp_session_messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("session_id", sessionId);
+
+  if (publicOnly) {
+    query = query.in("message_type", PUBLIC_MESSAGE_TYPES);
+  }
+
+  // Keyset cursor on (created_at, id) so equal timestamps never skip or repeat rows
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const page = rows.slice(0, MESSAGE_PAGE_SIZE).reverse();
+  return { messages: await withSenderInfo(page), hasMore: rows.length > MESSAGE_PAGE_SIZE };
+}
+
+/**
+ * Attach writer and character names/portraits from the shared profile cache.
+ */
+async function withSenderInfo(rows: SessionMessage[]): Promise<SessionMessage[]> {
+  await Promise.all([
+    resolveWriters(rows.map((m) => m.sender_id)),
+    resolveCharacters(rows.filter((m) => m.message_type !== "ooc").map((m) => m.character_id)),
+  ]);
+  return rows.map(applyProfiles);
+}
+
+// Re-read names/portraits from the cache (no network), e.g. after a profile edit
+function applyProfiles(m: SessionMessage): SessionMessage {
+  // System notices have no sender
+  if (!m.sender_id) return m;
+
+  const writer = getCachedWriter(m.sender_id);
+  // Narration is always in character; rolls are when a character was picked
+  const inCharacter = m.message_type === "narration" || m.message_type === "roll";
+  const character = inCharacter ? getCachedCharacter(m.character_id) : null;
+  return {
+    ...m,
+    sender_name: writerDisplayName(m.sender_id, writer),
+    sender_portrait: writer?.portrait_url || null,
+    character_name: inCharacter ? character?.name || null : undefined,
+    character_portrait: inCharacter ? character?.portrait_url || null : undefined,
+  };
+}
+
+// "in 40 min", "in 5 h", "Mar 3"
+function formatTurnDeadline(deadline: Date): string {
+  const minutes = Math.ceil((deadline.getTime() - Date.now()) / 60000);
+  if (minutes < 60) return `in ${minutes} min`;
+  if (minutes < 24 * 60) return `in ${Math.round(minutes / 60)} h`;
+  return deadline.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
 type Viewer = {
   user_id: string;
   name: string;
@@ -49,16 +271,22 @@ export default function SessionPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [otherUser, setOtherUser] = useState<{ name: string; portrait_url: string | null } | null>(null);
-  const [participantA, setParticipantA] = useState<{ name: string; portrait_url: string | null } | null>(null);
-  const [participantB, setParticipantB] = useState<{ name: string; portrait_url: string | null } | null>(null);
+  const [participants, setParticipants] = useState<SessionParticipant[]>([]);
+  const [showInvite, setShowInvite] = useState(false);
   const [messages, setMessages] = useState<SessionMessage[]>([]);
   const [text, setText] = useState("");
-  const [messageType, setMessageType] = useState<"ooc" | "narration">("ooc");
-  const [characters, setCharacters] = useState<Array<{ id: string; name: string }>>([]);
+  const [messageType, setMessageType] = useState<"ooc" | "narration" | "roll">("ooc");
+  const [characters, setCharacters] = useState<Array<{ id: string; name: string; portrait_url: string | null }>>([]);
   const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
-  const [inactivityReminder, setInactivityReminder] = useState<string | null>(null);
-  const [lastActivityCheck, setLastActivityCheck] = useState<Date>(new Date());
+  const [npcs, setNpcs] = useState<SessionNpc[]>([]);
+  // Set when narrating as an NPC; takes precedence over the selected character
+  const [selectedNpcId, setSelectedNpcId] = useState<string | null>(null);
+  const [showCastEditor, setShowCastEditor] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showContentSettings, setShowContentSettings] = useState(false);
+  // Spectators click through the rating and warnings before the transcript shows
+  const [contentAcknowledged, setContentAcknowledged] = useState(false);
+  const [contentPreferences, setContentPreferences] = useState<ContentPreferences | null>(null);
   const [showCloseModal, setShowCloseModal] = useState(false);
   const [feedback, setFeedback] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
@@ -67,79 +295,150 @@ export default function SessionPage() {
   const [isPublicView, setIsPublicView] = useState(false);
   const [viewers, setViewers] = useState<Viewer[]>([]);
   const [maxViewers, setMaxViewers] = useState<number>(0);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [scenes, setScenes] = useState<SessionScene[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState("");
+  const [historyFor, setHistoryFor] = useState<SessionMessage | null>(null);
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const [spectatorChatHidden, setSpectatorChatHidden] = useState(false);
+  const [series, setSeries] = useState<SeriesPart[]>([]);
+  const [startingSequel, setStartingSequel] = useState(false);
+  const [branches, setBranches] = useState<SessionBranch[]>([]);
+  const [pins, setPins] = useState<SessionPin[]>([]);
+  // The message a search result linked to, highlighted once
+  const [linkedMessageId, setLinkedMessageId] = useState<string | null>(null);
+  const [branchOrigin, setBranchOrigin] = useState<{ id: string; name: string | null } | null>(null);
+  const [branching, setBranching] = useState(false);
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
-  const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const reminderTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const viewerHeartbeatRef = useRef<NodeJS.Timeout | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  // Message to scroll to once it has rendered (table of contents jumps)
+  const scrollTargetRef = useRef<string | null>(null);
+  // Messages whose reactions have been fetched; later ones arrive over realtime
+  const reactionsLoadedRef = useRef<Set<string>>(new Set());
+
+  // Current writers announce themselves (and their typing); everyone else just watches
+  const amWriting = participants.some((p) => p.user_id === me && !p.left_at && p.invite_status === "accepted");
+  const presence = useChatPresence(session ? `session:${sessionId}` : null, me, { track: amWriting });
+  useMarkChatSeen("session", amWriting ? sessionId : null);
+  // Anyone who isn't writing in the session counts as a viewer of a public one
+  const liveViewers = useSessionViewers(session?.is_public ? sessionId : null, me, { watching: !amWriting });
+  // Unsent composer text is kept on the server, so it survives a crash or a change of device
+  const draft = useMessageDraft("session", amWriting ? sessionId : null, text, {
+    messageType,
+    onRestore: (saved) => {
+      setText(saved.body);
+      if (saved.message_type === "ooc" || saved.message_type === "narration" || saved.message_type === "roll") {
+        setMessageType(saved.message_type);
+      }
+    },
+  });
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    const anchor = prependAnchorRef.current;
+    const targetId = scrollTargetRef.current;
+    scrollTargetRef.current = null;
+    const target = targetId ? document.getElementById(`message-${targetId}`) : null;
+
+    if (container && target) {
+      container.scrollTop = target.offsetTop - container.offsetTop;
+    } else if (container && anchor) {
+      // Older page went in above: shift by the added height so nothing jumps
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      prependAnchorRef.current = null;
+    } else {
+      // Only follow the bottom when something new arrived there
+      const lastId = messages.length > 0 ? messages[messages.length - 1].id : null;
+      if (lastId !== lastMessageIdRef.current) {
+        bottomRef.current?.scrollIntoView({ behavior: lastMessageIdRef.current ? "smooth" : "auto" });
+      }
+    }
 
-  useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages.length]);
+    lastMessageIdRef.current = messages.length > 0 ? messages[messages.length - 1].id : null;
+  }, [messages]);
 
-  // Check for inactivity and send reminders
+  // Fetch reactions for messages as their pages load
   useEffect(() => {
-    if (!session || !me || !session.is_active) return;
-
-    const checkInactivity = () => {
-      if (!session.last_message_at) return;
-
-      const lastMessageTime = new Date(session.last_message_at);
-      const now = new Date();
-      const minutesSinceLastMessage = (now.getTime() - lastMessageTime.getTime()) / (1000 * 60);
+    const ids = messages.map((m) => m.id).filter((id) => !reactionsLoadedRef.current.has(id));
+    if (ids.length === 0) return;
+    ids.forEach((id) => reactionsLoadedRef.current.add(id));
+
+    loadSessionReactions(ids)
+      .then((loaded) => setReactions((prev) => loaded.reduce(mergeReaction, prev)))
+      .catch((err) => console.error("Error loading reactions:", err));
+  }, [messages]);
+
+  // Scroll to a scene break, loading older pages first if it isn't loaded yet
+  async function jumpToMessage(messageId: string) {
+    if (!messages.some((m) => m.id === messageId)) {
+      let older: SessionMessage[] = [];
+      let hasMore = hasOlderMessages;
+      let cursor = messages[0];
 
-      // If 5 minutes have passed since last message and no reminder sent
-      if (minutesSinceLastMessage >= 5 && !inactivityReminder) {
-        // Check if reminder was already sent (within last hour)
-        const shouldSendReminder = !session.reminder_sent_at || 
-          (new Date().getTime() - new Date(session.reminder_sent_at).getTime()) > 60 * 60 * 1000;
-
-        if (shouldSendReminder) {
-          sendInactivityReminder();
+      try {
+        while (hasMore && cursor && !older.some((m) => m.id === messageId)) {
+          const page = await fetchMessagePage(sessionId, {
+            before: { id: cursor.id, created_at: cursor.created_at },
+            publicOnly: isPublicView,
+          });
+          older = [...page.messages, ...older];
+          hasMore = page.hasMore;
+          cursor = page.messages[0];
         }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load older messages");
+        return;
       }
-    };
 
-    // Check every minute
-    inactivityTimerRef.current = setInterval(checkInactivity, 60000);
-    checkInactivity(); // Initial check
+      scrollTargetRef.current = messageId;
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...older.filter((m) => !seen.has(m.id)), ...prev];
+      });
+      setHasOlderMessages(hasMore);
+      return;
+    }
+
+    const container = scrollRef.current;
+    const target = document.getElementById(`message-${messageId}`);
+    if (container && target) {
+      container.scrollTo({ top: target.offsetTop - container.offsetTop, behavior: "smooth" });
+    }
+  }
 
-    return () => {
-      if (inactivityTimerRef.current) {
-        clearInterval(inactivityTimerRef.current);
-      }
-    };
-  }, [session, me, inactivityReminder]);
+  async function loadOlderMessages() {
+    if (loadingOlder || !hasOlderMessages || messages.length === 0) return;
 
-  async function sendInactivityReminder() {
-    if (!session || !me) return;
+    setLoadingOlder(true);
+    try {
+      const oldest = messages[0];
+      const { messages: older, hasMore } = await fetchMessagePage(sessionId, {
+        before: { id: oldest.id, created_at: oldest.created_at },
+        publicOnly: isPublicView,
+      });
 
-    const otherUserId = session.user_a === me ? session.user_b : session.user_a;
-    
-    // Send reminder message
-    const reminderText = "⏸️ This session has been inactive for 5 minutes. Consider pausing the session if you'll be away, or let your partner know you'll be back soon!";
-    
-    const { error } = await supabase.from("rp_session_messages").insert({
-      session_id: sessionId,
-      sender_id: me,
-      message_type: "ooc",
-      body: reminderText,
-      character_id: null,
-    });
+      if (scrollRef.current) {
+        prependAnchorRef.current = {
+          scrollHeight: scrollRef.current.scrollHeight,
+          scrollTop: scrollRef.current.scrollTop,
+        };
+      }
 
-    if (!error) {
-      // Mark reminder as sent
-      await supabase
-        .from("rp_sessions")
-        .update({ reminder_sent_at: new Date().toISOString() })
-        .eq("id", sessionId);
-      
-      setInactivityReminder(reminderText);
-      
-      // Clear reminder after 10 minutes
-      reminderTimerRef.current = setTimeout(() => {
-        setInactivityReminder(null);
-      }, 10 * 60 * 1000);
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...older.filter((m) => !seen.has(m.id)), ...prev];
+      });
+      setHasOlderMessages(hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load older messages");
+    } finally {
+      setLoadingOlder(false);
     }
   }
 
@@ -183,7 +482,7 @@ export default function SessionPage() {
       // Load session (including max_viewers)
       const { data: sessionData, error: sessionError } = await supabase
         .from("rp_sessions")
-        .select("id, user_a, user_b, status, is_active, last_message_at, reminder_sent_at, name, style, is_public, max_viewers")
+        .select("id, created_by, status, status_changed_at, status_changed_by, last_message_at, reminder_sent_at, inactivity_reminder_minutes, name, style, is_public, spectator_chat_enabled, turn_order, next_turn_user_id, turn_started_at, turn_deadline_hours, branched_from_session_id, branched_from_message_id, imported_from, imported_at, content_rating, content_warnings, max_viewers, viewer_minutes")
         .eq("id", sessionId)
         .single();
 
@@ -193,9 +492,17 @@ export default function SessionPage() {
         return;
       }
 
+      // Load everyone who is or was in the session (left writers keep read access)
+      let sessionParticipants: SessionParticipant[] = [];
+      try {
+        sessionParticipants = await loadSessionParticipants(sessionId, { includeLeft: true });
+      } catch (err) {
+        console.error("Error loading participants:", err);
+      }
+
       // Check if this is a public view (user is not a participant)
       if (sessionData && userId) {
-        const isParticipant = sessionData.user_a === userId || sessionData.user_b === userId;
+        const isParticipant = sessionParticipants.some((p) => p.user_id === userId);
         if (!isParticipant) {
           if (sessionData.is_public) {
             setIsPublicView(true);
@@ -221,100 +528,49 @@ export default function SessionPage() {
       if (!mounted) return;
       setSession(sessionData as Session);
       setMaxViewers(sessionData.max_viewers || 0);
+      setSpectatorChatHidden(localStorage.getItem("spectator_chat_hidden") === "true");
+      setContentAcknowledged(hasAcknowledgedContent(sessionId, sessionData));
 
-      // Determine participant status (reuse the check from above)
-      // Note: userId might be null if viewing as public user
-      const isParticipant = userId && (sessionData.user_a === userId || sessionData.user_b === userId);
-      
-      if (isPublicView) {
-        // For public viewers, load both participants' info
-        const [userAWriterResult, userBWriterResult] = await Promise.all([
-          supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", sessionData.user_a)
-            .maybeSingle(),
-          supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", sessionData.user_b)
-            .maybeSingle(),
-        ]);
-
-        if (mounted) {
-          setParticipantA({
-            name: userAWriterResult.data?.name || `User ${sessionData.user_a.slice(0, 8)}`,
-            portrait_url: userAWriterResult.data?.portrait_url || null,
-          });
-          setParticipantB({
-            name: userBWriterResult.data?.name || `User ${sessionData.user_b.slice(0, 8)}`,
-            portrait_url: userBWriterResult.data?.portrait_url || null,
-          });
-        }
-      } else if (userId) {
-        // For participants, load other user info as before
-        const otherUserId = sessionData.user_a === userId ? sessionData.user_b : sessionData.user_a;
-        const { data: otherWriter } = await supabase
-          .from("writers")
-          .select("name, portrait_url")
-          .eq("user_id", otherUserId)
-          .maybeSingle();
+      setParticipants(sessionParticipants);
 
-        if (otherWriter && mounted) {
-          setOtherUser({
-            name: otherWriter.name || `User ${otherUserId.slice(0, 8)}`,
-            portrait_url: otherWriter.portrait_url,
-          });
-        }
+      // Load the newest page of messages; older pages load on scroll-up
+      const viewingPublicly = !!sessionData.is_public && !sessionParticipants.some((p) => p.user_id === userId);
+      if (viewingPublicly && userId) {
+        loadContentPreferences(userId)
+          .then((preferences) => {
+            if (mounted) setContentPreferences(preferences);
+          })
+          .catch((err) => console.error("Error loading content preferences:", err));
       }
+      try {
+        const { messages: firstPage, hasMore } = await fetchMessagePage(sessionId, {
+          publicOnly: viewingPublicly,
+        });
 
-      // Load messages
-      const { data: messagesData, error: messagesError } = await supabase
-        .from("rp_session_messages")
-        .select("id, sender_id, body, message_type, character_id, created_at")
-        .eq("session_id", sessionId)
-        .order("created_at", { ascending: true });
+        // Links from search end in #message-<id>: page back until that message is in
+        const linkedId = window.location.hash.match(/^#message-([0-9a-f-]+)$/i)?.[1];
+        let loaded = firstPage;
+        let loadedHasMore = hasMore;
+        while (linkedId && loadedHasMore && loaded.length > 0 && !loaded.some((m) => m.id === linkedId)) {
+          const page = await fetchMessagePage(sessionId, {
+            before: { id: loaded[0].id, created_at: loaded[0].created_at },
+            publicOnly: viewingPublicly,
+          });
+          loaded = [...page.messages, ...loaded];
+          loadedHasMore = page.hasMore;
+        }
+        if (!mounted) return;
 
-      if (!mounted) return;
+        if (linkedId && loaded.some((m) => m.id === linkedId)) {
+          scrollTargetRef.current = linkedId;
+          setLinkedMessageId(linkedId);
+        }
+        setMessages(loaded);
+        setHasOlderMessages(loadedHasMore);
 
-      if (messagesError) {
-        setError(messagesError.message);
-      } else if (messagesData) {
-        // Load character and writer info for each message
-        const messagesWithPortraits = await Promise.all(
-          messagesData.map(async (msg: any) => {
-            const message: SessionMessage = { ...msg };
-            
-            // Load sender writer info
-            const { data: senderWriter } = await supabase
-              .from("writers")
-              .select("name, portrait_url")
-              .eq("user_id", msg.sender_id)
-              .maybeSingle();
-            
-            message.sender_name = senderWriter?.name || `User ${msg.sender_id.slice(0, 8)}`;
-            message.sender_portrait = senderWriter?.portrait_url || null;
-            
-            // Load character info if it's a narration message
-            if (msg.message_type === "narration" && msg.character_id) {
-              const { data: character } = await supabase
-                .from("characters")
-                .select("name, portrait_url")
-                .eq("id", msg.character_id)
-                .maybeSingle(); // Use maybeSingle to handle missing characters gracefully
-              
-              message.character_name = character?.name || null;
-              message.character_portrait = character?.portrait_url || null;
-            }
-            
-            return message;
-          })
-        );
-        setMessages(messagesWithPortraits);
-        
         // Mark all messages as read when viewing the session
-        if (userId && messagesData && messagesData.length > 0) {
-          const latestMessage = messagesData[messagesData.length - 1]; // Last message (most recent)
+        if (userId && firstPage.length > 0) {
+          const latestMessage = firstPage[firstPage.length - 1]; // Last message (most recent)
           await supabase
             .from("rp_session_reads")
             .upsert({
@@ -326,6 +582,56 @@ export default function SessionPage() {
               onConflict: "session_id,user_id"
             });
         }
+      } catch (err) {
+        if (!mounted) return;
+        setError(err instanceof Error ? err.message : "Failed to load messages");
+      }
+
+      // Table of contents covers the whole session, not just the loaded pages
+      try {
+        const sessionScenes = await loadSessionScenes(sessionId);
+        if (mounted) setScenes(sessionScenes);
+      } catch (err) {
+        console.error("Error loading scenes:", err);
+      }
+
+      try {
+        const sessionNpcs = await loadSessionNpcs(sessionId);
+        if (mounted) setNpcs(sessionNpcs);
+      } catch (err) {
+        console.error("Error loading NPCs:", err);
+      }
+
+      // Writers only; public viewers get none back
+      try {
+        const sessionPins = await loadSessionPins(sessionId);
+        if (mounted) setPins(sessionPins);
+      } catch (err) {
+        console.error("Error loading pins:", err);
+      }
+
+      // Prequels and sequels, for the series navigation
+      try {
+        const sessionSeries = await loadSessionSeries(sessionId);
+        if (mounted) setSeries(sessionSeries);
+      } catch (err) {
+        console.error("Error loading series:", err);
+      }
+
+      // Forks of this session, and where this one was forked from
+      try {
+        const sessionBranches = await loadSessionBranches(sessionId);
+        if (mounted) setBranches(sessionBranches);
+      } catch (err) {
+        console.error("Error loading branches:", err);
+      }
+      if (sessionData.branched_from_session_id) {
+        const { data: originData } = await supabase
+          .from("rp_sessions")
+          .select("id, name")
+          .eq("id", sessionData.branched_from_session_id)
+          .maybeSingle();
+        if (mounted) setBranchOrigin(originData || null);
       }
 
       // Load my feedback if session is closed (only for participants)
@@ -345,39 +651,9 @@ export default function SessionPage() {
         }
       }
 
-      // Load user's characters for narration - get character from session (only for participants)
-      if (userId) {
-        const { data: sessionCharacters } = await supabase
-          .from("rp_session_characters")
-          .select("character_id")
-          .eq("session_id", sessionId);
-
-        if (sessionCharacters && sessionCharacters.length > 0) {
-          // Get the character that belongs to current user
-          const { data: charactersData } = await supabase
-            .from("characters")
-            .select("id, name")
-            .eq("user_id", userId)
-            .in("id", sessionCharacters.map(sc => sc.character_id));
-
-          if (charactersData && charactersData.length > 0 && mounted) {
-            setCharacters(charactersData);
-            setSelectedCharacterId(charactersData[0].id);
-          }
-        } else {
-          // Fallback: load all user's characters
-          const { data: charactersData } = await supabase
-            .from("characters")
-            .select("id, name")
-            .eq("user_id", userId);
-
-          if (charactersData && mounted) {
-            setCharacters(charactersData);
-            if (charactersData.length > 0) {
-              setSelectedCharacterId(charactersData[0].id);
-            }
-          }
-        }
+      // Load the characters I brought into this session (picked when accepting the invite)
+      if (userId && mounted) {
+        await loadMySessionCharacters(userId);
       }
 
       setLoading(false);
@@ -400,6 +676,46 @@ export default function SessionPage() {
           }
         }
       )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "rp_session_participants", filter: `session_id=eq.${sessionId}` },
+        async () => {
+          try {
+            const updatedParticipants = await loadSessionParticipants(sessionId, { includeLeft: true });
+            if (mounted) setParticipants(updatedParticipants);
+          } catch (err) {
+            console.error("Error reloading participants:", err);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "rp_session_npcs", filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          const npc = payload.new as SessionNpc;
+          if (!npc?.id) return;
+          setNpcs((prev) =>
+            prev.some((n) => n.id === npc.id) ? prev.map((n) => (n.id === npc.id ? npc : n)) : [...prev, npc]
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "rp_session_pins", filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          const pin = payload.new as SessionPin;
+          setPins((prev) => (prev.some((p) => p.message_id === pin.message_id) ? prev : [...prev, pin]));
+        }
+      )
+      .on(
+        // Delete events can't be filtered; the old row is just the primary key
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "rp_session_pins" },
+        (payload) => {
+          const old = payload.old as { session_id?: string; message_id?: string };
+          if (old.session_id === sessionId) setPins((prev) => prev.filter((p) => p.message_id !== old.message_id));
+        }
+      )
       .subscribe();
 
     // Subscribe to new messages
@@ -409,35 +725,17 @@ export default function SessionPage() {
         "postgres_changes",
         { event: "INSERT", schema: "public", table: "rp_session_messages", filter: `session_id=eq.${sessionId}` },
         async (payload) => {
-          const newMsg = payload.new as any;
-          
-          // Load sender writer info
-          const { data: senderWriter } = await supabase
-            .from("writers")
-            .select("name, portrait_url")
-            .eq("user_id", newMsg.sender_id)
-            .maybeSingle();
-          
-          const message: SessionMessage = {
-            ...newMsg,
-            sender_name: senderWriter?.name || `User ${newMsg.sender_id.slice(0, 8)}`,
-            sender_portrait: senderWriter?.portrait_url || null,
-          };
+          const newMsg = payload.new as SessionMessage;
+          const [message] = await withSenderInfo([newMsg]);
           
-          // Load character info if it's a narration message
-          if (newMsg.message_type === "narration" && newMsg.character_id) {
-            const { data: character } = await supabase
-              .from("characters")
-              .select("name, portrait_url")
-              .eq("id", newMsg.character_id)
-              .maybeSingle(); // Use maybeSingle to handle missing characters gracefully
-            
-            message.character_name = character?.name || null;
-            message.character_portrait = character?.portrait_url || null;
+          // New messages always go at the bottom, whatever older pages are loaded
+          setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+
+          if (newMsg.message_type === "scene" && newMsg.scene_kind) {
+            const scene = { id: newMsg.id, title: newMsg.body, kind: newMsg.scene_kind, created_at: newMsg.created_at };
+            setScenes((prev) => (prev.some((sc) => sc.id === scene.id) ? prev : [...prev, scene]));
           }
           
-          setMessages((prev) => [...prev, message]);
-          
           // Mark new message as read if user is viewing the session
           // If it's from the current user, mark it as read immediately
           // If it's from the other user, mark it as read since user is viewing
@@ -453,28 +751,46 @@ export default function SessionPage() {
                 onConflict: "session_id,user_id"
               });
           }
-          
-          // Reset inactivity reminder when ANY new message arrives
-          // Any message means the session is active, so clear the warning
-          setInactivityReminder(null);
-          
-          // Clear reminder_sent_at in database when any message arrives
-          // This ensures the inactivity check resets properly
-          await supabase
-            .from("rp_sessions")
-            .update({ reminder_sent_at: null })
-            .eq("id", sessionId);
-          
-          // Update session state to clear reminder_sent_at and update last_message_at
-          // This ensures the inactivity timer resets properly
-          setSession((prevSession) => {
-            if (!prevSession) return prevSession;
-            return {
-              ...prevSession,
-              reminder_sent_at: null,
-              last_message_at: newMsg.created_at
-            };
-          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "rp_session_messages", filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          // Edits and deletions; sender and character never change, so the profile info stays
+          const updated = payload.new as SessionMessage;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === updated.id
+                ? { ...m, body: updated.body, edited_at: updated.edited_at, deleted_at: updated.deleted_at }
+                : m
+            )
+          );
+
+          if (updated.message_type === "scene") {
+            setScenes((prev) =>
+              updated.deleted_at
+                ? prev.filter((sc) => sc.id !== updated.id)
+                : prev.map((sc) => (sc.id === updated.id ? { ...sc, title: updated.body } : sc))
+            );
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "message_reactions", filter: `session_id=eq.${sessionId}` },
+        (payload) => {
+          const reaction = toMessageReaction(payload.new as ReactionRow);
+          setReactions((prev) => mergeReaction(prev, reaction));
+        }
+      )
+      .on(
+        // Delete events can't be filtered and only carry the id; unknown ids are ignored
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "message_reactions" },
+        (payload) => {
+          const removedId = (payload.old as { id?: string }).id;
+          if (removedId) setReactions((prev) => prev.filter((r) => r.id !== removedId));
         }
       )
       .subscribe();
@@ -483,226 +799,321 @@ export default function SessionPage() {
       mounted = false;
       supabase.removeChannel(sessionChannel);
       supabase.removeChannel(messagesChannel);
-      if (inactivityTimerRef.current) {
-        clearInterval(inactivityTimerRef.current);
-      }
-      if (reminderTimerRef.current) {
-        clearTimeout(reminderTimerRef.current);
-      }
     };
   }, [sessionId, me]);
 
-  // Separate useEffect for viewer tracking (runs after session is loaded)
+  // Keep names and portraits current when someone edits their profile or character
   useEffect(() => {
-    if (!session || !session.is_public) return; // Only track viewers for public sessions
-    
-    let mounted = true;
-    const currentSession = session;
-    let viewersChannel: any = null;
-
-    // Load current viewers (shared function for both authenticated and unauthenticated)
-    async function loadViewers() {
-      try {
-        // Get active viewers (seen in last 2 minutes)
-        const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000).toISOString();
-        const { data: viewersData, error: viewersError } = await supabase
-          .from("rp_session_viewers")
-          .select("user_id, joined_at, last_seen")
-          .eq("session_id", sessionId)
-          .gte("last_seen", twoMinutesAgo)
-          .order("joined_at", { ascending: false })
-          .limit(20);
-
-        if (viewersError) {
-          console.error("Error loading viewers:", viewersError);
-          return;
-        }
-
-        if (!viewersData || viewersData.length === 0) {
-          if (mounted) setViewers([]);
-          return;
-        }
-
-        // Load writer info for each viewer
-        const viewersWithDetails = await Promise.all(
-          viewersData.map(async (viewer: any) => {
-            const { data: writer } = await supabase
-              .from("writers")
-              .select("name, portrait_url")
-              .eq("user_id", viewer.user_id)
-              .maybeSingle();
-
-            return {
-              user_id: viewer.user_id,
-              name: writer?.name || `User ${viewer.user_id.slice(0, 8)}`,
-              portrait_url: writer?.portrait_url || null,
-              joined_at: viewer.joined_at,
-            };
-          })
-        );
+    return onProfilesChanged(() => {
+      const refreshWriter = <T extends { user_id: string; name: string; portrait_url: string | null }>(row: T): T => {
+        const writer = getCachedWriter(row.user_id);
+        return writer ? { ...row, name: writer.name, portrait_url: writer.portrait_url } : row;
+      };
+
+      setMessages((prev) => prev.map(applyProfiles));
+      setParticipants((prev) => prev.map(refreshWriter));
+      setViewers((prev) => prev.map(refreshWriter));
+    });
+  }, []);
 
-        // Filter out participants (only show viewers, not participants)
-        const nonParticipantViewers = viewersWithDetails.filter((viewer) => {
-          return viewer.user_id !== currentSession.user_a && viewer.user_id !== currentSession.user_b;
-        });
+  // Signed-in viewers' names and portraits; guests are only counted
+  useEffect(() => {
+    let mounted = true;
+    const signedIn = liveViewers.filter((v): v is ViewerPresence & { user_id: string } => !!v.user_id);
 
-        // Sort by joined_at (most recent first) and limit to 10 for display
-        nonParticipantViewers.sort((a, b) => 
-          new Date(b.joined_at).getTime() - new Date(a.joined_at).getTime()
+    resolveWriters(signedIn.map((v) => v.user_id))
+      .then((writerByUser) => {
+        if (!mounted) return;
+        setViewers(
+          signedIn
+            .map((viewer) => {
+              const writer = writerByUser.get(viewer.user_id);
+              return {
+                user_id: viewer.user_id,
+                name: writerDisplayName(viewer.user_id, writer),
+                portrait_url: writer?.portrait_url || null,
+                joined_at: viewer.joined_at,
+              };
+            })
+            // Most recent first; participants are filtered out at render time
+            .sort((a, b) => new Date(b.joined_at).getTime() - new Date(a.joined_at).getTime())
         );
-        
-        if (mounted) {
-          setViewers(nonParticipantViewers.slice(0, 10));
-        }
-      } catch (err) {
-        console.error("Error in loadViewers:", err);
-      }
-    }
-
-    // Track viewer join (only for authenticated users)
-    async function trackViewer() {
-      if (!me) return;
+      })
+      .catch((err) => console.error("Error resolving viewers:", err));
 
-      try {
-        const { error: viewerError } = await supabase
-          .from("rp_session_viewers")
-          .upsert({
-            session_id: sessionId,
-            user_id: me,
-            last_seen: new Date().toISOString(),
-          }, {
-            onConflict: "session_id,user_id"
-          });
+    return () => {
+      mounted = false;
+    };
+  }, [liveViewers]);
 
-        if (viewerError) {
-          console.error("Error tracking viewer:", viewerError);
-        } else {
-          // Load viewers after joining
-          await loadViewers();
-        }
+  async function loadMySessionCharacters(userId: string) {
+    const { data: sessionCharacters } = await supabase
+      .from("rp_session_characters")
+      .select("character_id")
+      .eq("session_id", sessionId);
 
-        // Update heartbeat every 30 seconds to keep viewer status active
-        viewerHeartbeatRef.current = setInterval(async () => {
-          if (me && mounted) {
-            await supabase
-              .from("rp_session_viewers")
-              .update({ last_seen: new Date().toISOString() })
-              .eq("session_id", sessionId)
-              .eq("user_id", me);
-          }
-        }, 30000);
-      } catch (err) {
-        console.error("Error in trackViewer:", err);
-      }
+    if (!sessionCharacters || sessionCharacters.length === 0) {
+      setCharacters([]);
+      setSelectedCharacterId(null);
+      return;
     }
 
-    // Load initial viewers (for all users)
-    loadViewers();
+    const { data: charactersData } = await supabase
+      .from("characters")
+      .select("id, name, portrait_url")
+      .eq("user_id", userId)
+      .in("id", sessionCharacters.map((sc) => sc.character_id))
+      .order("name", { ascending: true });
+
+    const mine = charactersData || [];
+    setCharacters(mine);
+    // Keep the current pick when the cast changes
+    setSelectedCharacterId((current) =>
+      current && mine.some((c) => c.id === current) ? current : mine.length > 0 ? mine[0].id : null
+    );
+  }
 
-    // For authenticated users, also track as viewer
-    if (me) {
-      trackViewer();
+  async function acceptInvitation(characterIds: string[]) {
+    if (!me) return;
+    setError(null);
+    try {
+      await acceptSessionInvitation(sessionId, me, characterIds);
+      setParticipants(await loadSessionParticipants(sessionId, { includeLeft: true }));
+      await loadMySessionCharacters(me);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept invitation");
     }
+  }
 
-    // Subscribe to viewer updates (for all users)
-    viewersChannel = supabase
-      .channel(`session_viewers:${sessionId}`)
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "rp_session_viewers", filter: `session_id=eq.${sessionId}` },
-        () => {
-          if (mounted) {
-            loadViewers(); // Reload viewers when someone joins/leaves
-          }
-        }
-      )
-      .subscribe();
-
-    // Cleanup: Remove viewer when component unmounts or session changes
-    return () => {
-      mounted = false;
-
-      // Stop heartbeat
-      if (viewerHeartbeatRef.current) {
-        clearInterval(viewerHeartbeatRef.current);
-        viewerHeartbeatRef.current = null;
-      }
-
-      // Remove viewer from session (only for authenticated users who were tracked)
-      if (me) {
-        // Fire and forget - cleanup doesn't need to wait for this
-        void (async () => {
-          try {
-            await supabase
-              .from("rp_session_viewers")
-              .delete()
-              .eq("session_id", sessionId)
-              .eq("user_id", me);
-          } catch (err) {
-            console.error("Error removing viewer on cleanup:", err);
-          }
-        })();
-      }
-
-      // Unsubscribe from viewer channel
-      if (viewersChannel) {
-        supabase.removeChannel(viewersChannel);
-      }
-    };
-  }, [sessionId, session, me]); // Re-run when session or me changes
+  async function declineInvitation() {
+    if (!me) return;
+    if (!confirm("Decline this session invitation?")) return;
+    setError(null);
+    try {
+      await declineSessionInvitation(sessionId, me);
+      router.push("/dashboard");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decline invitation");
+    }
+  }
 
-  async function toggleSessionActive() {
-    if (!session || !me) return;
+  async function updateReminderThreshold(minutes: number | null) {
+    if (!session) return;
+    setError(null);
 
-    const newIsActive = !session.is_active;
     const { error } = await supabase
       .from("rp_sessions")
-      .update({ is_active: newIsActive })
+      .update({ inactivity_reminder_minutes: minutes })
       .eq("id", sessionId);
 
     if (error) {
       setError(error.message);
     } else {
-      setSession({ ...session, is_active: newIsActive });
+      setSession({ ...session, inactivity_reminder_minutes: minutes });
     }
   }
 
-  async function send() {
-    if (!me || !session) return;
-    if (!text.trim()) return;
+  async function updateTurnSettings(changes: { turn_order?: TurnOrder; turn_deadline_hours?: number | null }) {
+    if (!session) return;
+    setError(null);
 
-    // Don't allow messages if session is closed
-    if (session.status === "closed") {
-      setError("Your session is closed. You cannot send messages.");
-      return;
-    }
+    // Whose turn it is may change with the order; that arrives via realtime
+    const { error } = await supabase.from("rp_sessions").update(changes).eq("id", sessionId);
 
-    // Don't allow narration if session is paused
-    if (messageType === "narration" && !session.is_active) {
-      setError("Cannot send narration messages when your session is paused. Please resume first.");
-      return;
+    if (error) {
+      setError(error.message);
+    } else {
+      setSession({ ...session, ...changes });
     }
+  }
 
-    const body = text;
-    setText("");
+  async function updateContentSettings(changes: { content_rating?: ContentRating; content_warnings?: string[] }) {
+    if (!session) return;
+    setError(null);
 
-    const { data: insertedMessage, error } = await supabase
-      .from("rp_session_messages")
-      .insert({
-        session_id: sessionId,
-        sender_id: me,
-        message_type: messageType,
-        body,
-        character_id: messageType === "narration" ? selectedCharacterId : null,
-      })
-      .select("id")
-      .single();
+    const { error } = await supabase.from("rp_sessions").update(changes).eq("id", sessionId);
 
     if (error) {
       setError(error.message);
-      setText(body); // restore
-    } else if (insertedMessage) {
-      // Mark the message as read immediately when user sends it
+    } else {
+      setSession({ ...session, ...changes });
+    }
+  }
+
+  async function passTurn() {
+    if (!session) return;
+    setError(null);
+
+    try {
+      const next = await passSessionTurn(sessionId);
+      setSession({ ...session, next_turn_user_id: next, turn_started_at: new Date().toISOString() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to pass the turn");
+    }
+  }
+
+  async function changeSessionStatus(action: SessionAction) {
+    if (!session || !me) return;
+    setError(null);
+
+    try {
+      const status = await transitionSession(sessionId, action);
+      setSession({ ...session, status, status_changed_at: new Date().toISOString(), status_changed_by: me });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update session");
+    }
+  }
+
+  async function setReopenAgreement(agree: boolean) {
+    if (!session) return;
+    setError(null);
+
+    try {
+      const reopened = await agreeToReopenSession(sessionId, agree);
+      if (reopened) {
+        setSession({ ...session, status: "active", status_changed_at: new Date().toISOString(), status_changed_by: me });
+      }
+      setParticipants(await loadSessionParticipants(sessionId, { includeLeft: true }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update reopen request");
+    }
+  }
+
+  async function startSequel() {
+    if (startingSequel) return;
+    setStartingSequel(true);
+    setError(null);
+
+    try {
+      const sequelId = await startSessionSequel(sessionId);
+      router.push(`/session/${sequelId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start the sequel");
+      setStartingSequel(false);
+    }
+  }
+
+  async function branchFrom(message: SessionMessage) {
+    if (branching) return;
+    if (!confirm("Start a new branch from this message? The story so far is copied and this session stays as it is.")) return;
+
+    setBranching(true);
+    setError(null);
+    try {
+      const branchId = await branchSession(message.id);
+      router.push(`/session/${branchId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to branch the session");
+      setBranching(false);
+    }
+  }
+
+  async function togglePin(messageId: string, pinned: boolean) {
+    if (!me) return;
+    await setMessagePinned(sessionId, messageId, me, pinned);
+    setPins((prev) =>
+      pinned
+        ? [
+            ...prev.filter((p) => p.message_id !== messageId),
+            { session_id: sessionId, message_id: messageId, pinned_by: me, pinned_at: new Date().toISOString() },
+          ]
+        : prev.filter((p) => p.message_id !== messageId)
+    );
+  }
+
+  async function inviteWriter(userId: string) {
+    setError(null);
+    try {
+      await addSessionParticipants(sessionId, [userId]);
+      setParticipants(await loadSessionParticipants(sessionId, { includeLeft: true }));
+      setShowInvite(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to invite writer");
+    }
+  }
+
+  async function leaveSession() {
+    if (!me) return;
+    if (!confirm("Leave this session? You will keep read access to the story so far.")) return;
+
+    const { error } = await supabase
+      .from("rp_session_participants")
+      .update({ left_at: new Date().toISOString() })
+      .eq("session_id", sessionId)
+      .eq("user_id", me);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      router.push("/dashboard");
+    }
+  }
+
+  async function send() {
+    if (!text.trim()) return;
+
+    const body = text;
+    setText("");
+    presence.setTyping(false);
+
+    try {
+      await postMessage(messageType, body);
+      draft.clear();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send message");
+      setText(body); // restore
+    }
+  }
+
+  // Post OOC, narration, a dice roll or a scene break. Throws if it can't be sent.
+  async function postMessage(
+    type: "ooc" | "narration" | "roll" | "scene",
+    body: string,
+    { sceneKind = "scene" }: { sceneKind?: SceneKind } = {}
+  ) {
+    if (!me || !session) return;
+
+    // Don't allow messages if session is closed
+    if (session.status === "closed") {
+      throw new Error("Your session is closed. You cannot send messages.");
+    }
+
+    // Don't allow narration if session is paused
+    if (type !== "ooc" && session.status === "paused") {
+      throw new Error("Cannot send narration messages when your session is paused. Please resume first.");
+    }
+
+    if (type === "roll") {
+      const roll = parseRollCommand(body);
+      if (!roll) {
+        throw new Error("That isn't a dice roll. Try something like 2d6+3 or 4dF.");
+      }
+      // NPCs don't roll; the roll goes to the writer
+      await rollDice(sessionId, roll.expression, {
+        characterId: selectedNpcId ? null : selectedCharacterId,
+        label: roll.label,
+      });
+      return;
+    }
+
+    const { data: insertedMessage, error } = await supabase
+      .from("rp_session_messages")
+      .insert({
+        session_id: sessionId,
+        sender_id: me,
+        message_type: type,
+        body,
+        character_id: type === "narration" && !selectedNpcId ? selectedCharacterId : null,
+        npc_id: type === "narration" ? selectedNpcId : null,
+        scene_kind: type === "scene" ? sceneKind : null,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    if (insertedMessage) {
+      // Mark the message as read immediately when user sends it
       await supabase
         .from("rp_session_reads")
         .upsert({
@@ -713,24 +1124,94 @@ export default function SessionPage() {
         }, {
           onConflict: "session_id,user_id"
         });
-      
-      // Clear inactivity reminder when user sends a message (they're actively roleplaying)
-      setInactivityReminder(null);
-      
-      // Clear reminder_sent_at in database and update last_message_at
-      await supabase
-        .from("rp_sessions")
-        .update({ 
-          last_message_at: new Date().toISOString(),
-          reminder_sent_at: null 
-        })
-        .eq("id", sessionId);
-      
-      // Update local session state to reflect the cleared reminder
-      setSession({ ...session, reminder_sent_at: null, last_message_at: new Date().toISOString() });
     }
   }
 
+  function startEdit(message: SessionMessage) {
+    setEditingId(message.id);
+    setEditingText(message.body);
+  }
+
+  function cancelEdit() {
+    setEditingId(null);
+    setEditingText("");
+  }
+
+  async function saveEdit() {
+    if (!editingId) return;
+    const body = editingText.trim();
+    if (!body) return;
+
+    try {
+      await editSessionMessage(editingId, body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to edit message");
+      return;
+    }
+
+    setMessages((prev) =>
+      prev.map((m) => (m.id === editingId ? { ...m, body, edited_at: new Date().toISOString() } : m))
+    );
+    cancelEdit();
+  }
+
+  async function deleteMessage(message: SessionMessage) {
+    if (!confirm("Delete this message? It will show as deleted in the transcript.")) return;
+    setError(null);
+
+    try {
+      await deleteSessionMessage(message.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete message");
+      return;
+    }
+
+    setMessages((prev) =>
+      prev.map((m) => (m.id === message.id ? { ...m, body: "", deleted_at: new Date().toISOString() } : m))
+    );
+    setScenes((prev) => prev.filter((sc) => sc.id !== message.id));
+    if (editingId === message.id) cancelEdit();
+  }
+
+  async function toggleReaction(message: SessionMessage, emoji: string, existing: MessageReaction | null) {
+    if (!me) return;
+    setError(null);
+
+    try {
+      if (existing) {
+        await removeReaction(existing.id);
+        setReactions((prev) => prev.filter((r) => r.id !== existing.id));
+      } else {
+        const reaction = await addReaction("session", { messageId: message.id, parentId: sessionId, userId: me }, emoji);
+        setReactions((prev) => mergeReaction(prev, reaction));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update reaction");
+    }
+  }
+
+  async function updateSpectatorChatEnabled(enabled: boolean) {
+    if (!session) return;
+    setError(null);
+
+    const { error } = await supabase
+      .from("rp_sessions")
+      .update({ spectator_chat_enabled: enabled })
+      .eq("id", sessionId);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setSession({ ...session, spectator_chat_enabled: enabled });
+    }
+  }
+
+  function toggleSpectatorChatHidden() {
+    const hidden = !spectatorChatHidden;
+    setSpectatorChatHidden(hidden);
+    localStorage.setItem("spectator_chat_hidden", String(hidden));
+  }
+
   async function closeSession() {
     if (!me || !session || closing) return;
 
@@ -738,19 +1219,11 @@ export default function SessionPage() {
     setError(null);
 
     try {
-      // Close the session
-      const { error: closeError } = await supabase
-        .from("rp_sessions")
-        .update({
-          status: "closed",
-          closed_by: me,
-          closed_at: new Date().toISOString(),
-          is_active: false,
-        })
-        .eq("id", sessionId);
-
-      if (closeError) {
-        setError(closeError.message);
+      // Close the session (the database records who closed it and when)
+      try {
+        await transitionSession(sessionId, "close");
+      } catch (closeError) {
+        setError(closeError instanceof Error ? closeError.message : "Failed to close session");
         setClosing(false);
         return;
       }
@@ -778,7 +1251,8 @@ export default function SessionPage() {
       setSession({
         ...session,
         status: "closed",
-        is_active: false,
+        status_changed_at: new Date().toISOString(),
+        status_changed_by: me,
       });
 
       setShowCloseModal(false);
@@ -898,9 +1372,197 @@ export default function SessionPage() {
 
   const frameInfo = session.style ? styleFrames[session.style] : null;
 
+  // Pending invitees hold a seat but can't write until they accept
+  const activeParticipants = participants.filter((p) => !p.left_at);
+  const writingParticipants = activeParticipants.filter((p) => p.invite_status === "accepted");
+  const pendingInvitees = activeParticipants.filter((p) => p.invite_status === "pending");
+  const myParticipant = writingParticipants.find((p) => p.user_id === me);
+  const myInvitation = pendingInvitees.find((p) => p.user_id === me);
+  const myPastParticipation = participants.find((p) => p.user_id === me && p.left_at);
+  const isOwner = myParticipant?.role === "owner";
+  const reopenAgreed = writingParticipants.filter((p) => p.reopen_agreed_at);
+  const reopenWaitingOn = writingParticipants.filter((p) => !p.reopen_agreed_at);
+  const branchesByMessage = new Map<string, SessionBranch[]>();
+  for (const branch of branches) {
+    if (!branch.branched_from_message_id) continue;
+    const list = branchesByMessage.get(branch.branched_from_message_id) || [];
+    branchesByMessage.set(branch.branched_from_message_id, [...list, branch]);
+  }
+  const seriesIndex = series.findIndex((part) => part.id === sessionId);
+  const prevPart = seriesIndex > 0 ? series[seriesIndex - 1] : null;
+  const nextPart = seriesIndex >= 0 && seriesIndex < series.length - 1 ? series[seriesIndex + 1] : null;
+  const turnHolder = session.next_turn_user_id
+    ? writingParticipants.find((p) => p.user_id === session.next_turn_user_id) || null
+    : null;
+  const turnDeadline =
+    turnHolder && session.turn_deadline_hours
+      ? new Date(
+          Math.max(
+            new Date(session.turn_started_at || 0).getTime(),
+            new Date(session.last_message_at || 0).getTime()
+          ) +
+            session.turn_deadline_hours * 3600000
+        )
+      : null;
+  // Anyone who took part (even if they've since left) can export with OOC; public viewers get narration
+  const isWriter = participants.some((p) => p.user_id === me && p.invite_status === "accepted");
+  const isOpen = session.status === "active" || session.status === "paused" || session.status === "pending";
+  const isUnderWay = session.status === "active" || session.status === "paused";
+  const statusChangedBy = session.status_changed_by
+    ? participants.find((p) => p.user_id === session.status_changed_by)
+    : null;
+  // Participants see their partners in the header; public viewers see everyone
+  const headerParticipants = isPublicView
+    ? writingParticipants
+    : writingParticipants.filter((p) => p.user_id !== me);
+  const inviter = myInvitation
+    ? participants.find((p) => p.user_id === myInvitation.invited_by) || null
+    : null;
+  const participantIds = new Set(participants.map((p) => p.user_id));
+  const spectators = viewers.filter((v) => !participantIds.has(v.user_id));
+  // Logged-out viewers are counted but have no name or portrait
+  const viewerCount = spectators.length + liveViewers.filter((v) => !v.user_id).length;
+  const shownSpectators = spectators.slice(0, 8);
+  const typingNames = writingParticipants
+    .filter((p) => p.user_id !== me && presence.online[p.user_id]?.typing)
+    .map((p) => ({ name: p.name }));
+
+  // Composer slash commands; each maps onto an action the page already has
+  const selectedCharacter = characters.find((c) => c.id === selectedCharacterId) || null;
+  const activeNpcs = npcs.filter((n) => !n.archived_at);
+  const npcById = new Map(npcs.map((n) => [n.id, n]));
+  const selectedNpc = selectedNpcId ? activeNpcs.find((n) => n.id === selectedNpcId) || null : null;
+  // Who narration is posted as right now
+  const speaker = selectedNpc || selectedCharacter;
+  function selectSpeaker(next: { characterId?: string; npcId?: string }) {
+    if (next.characterId) setSelectedCharacterId(next.characterId);
+    setSelectedNpcId(next.npcId || null);
+  }
+
+  const sessionCommands: SlashCommand[] = [
+    {
+      name: "ooc",
+      args: "[message]",
+      description: "Switch to OOC, or send one OOC message",
+      run: (args) => (args ? postMessage("ooc", args) : setMessageType("ooc")),
+    },
+    {
+      name: "narrate",
+      args: "[message]",
+      description: "Switch to narration, or send one narration message",
+      run: (args) => (args ? postMessage("narration", args) : setMessageType("narration")),
+    },
+    {
+      name: "me",
+      args: "<action>",
+      description: "Narrate what your character does, e.g. /me draws her sword",
+      run: (args) => {
+        if (!args) throw new Error("Usage: /me <action>");
+        if (!speaker) throw new Error("Pick a character first with /as");
+        return postMessage("narration", `${speaker.name} ${args}`);
+      },
+    },
+    {
+      name: "as",
+      args: "<character>",
+      description: "Write as one of your characters or an NPC in this session",
+      suggest: () => [...characters.map((c) => c.name), ...activeNpcs.map((n) => n.name)],
+      run: (args) => {
+        const wanted = args.toLowerCase();
+        const speakers = [
+          ...characters.map((c) => ({ name: c.name, select: () => selectSpeaker({ characterId: c.id }) })),
+          ...activeNpcs.map((n) => ({ name: n.name, select: () => selectSpeaker({ npcId: n.id }) })),
+        ];
+        const match =
+          speakers.find((sp) => sp.name.toLowerCase() === wanted) ||
+          speakers.find((sp) => sp.name.toLowerCase().startsWith(wanted));
+        if (!args || !match) {
+          throw new Error(
+            speakers.length > 0
+              ? `Usage: /as <character>. You can write as ${speakers.map((sp) => sp.name).join(", ")}.`
+              : "You haven't brought any characters into this session."
+          );
+        }
+        match.select();
+        setMessageType("narration");
+      },
+    },
+    {
+      name: "roll",
+      args: "<dice> [label]",
+      description: "Roll dice, e.g. /roll 2d20+5 stealth or /roll 4dF",
+      run: (args) => postMessage("roll", args),
+    },
+    {
+      name: "scene",
+      args: "<title>",
+      description: "Start a new scene (shows in the table of contents)",
+      run: (args) => {
+        if (!args) throw new Error("Usage: /scene <title>");
+        return postMessage("scene", args, { sceneKind: "scene" });
+      },
+    },
+    {
+      name: "chapter",
+      args: "<title>",
+      description: "Start a new chapter",
+      run: (args) => {
+        if (!args) throw new Error("Usage: /chapter <title>");
+        return postMessage("scene", args, { sceneKind: "chapter" });
+      },
+    },
+    {
+      name: "edit",
+      description: "Edit your last message",
+      run: () => {
+        const lastMine = [...messages]
+          .reverse()
+          .find((m) => m.sender_id === me && !m.deleted_at && (m.message_type === "ooc" || m.message_type === "narration"));
+        if (!lastMine) throw new Error("You haven't sent anything to edit yet");
+        startEdit(lastMine);
+      },
+    },
+    ...(canTransitionSession(session.status, "pause")
+      ? [{ name: "pause", description: "Pause the session; OOC chat stays open", run: () => changeSessionStatus("pause") }]
+      : []),
+    ...(canTransitionSession(session.status, "resume")
+      ? [{ name: "resume", description: "Resume the session", run: () => changeSessionStatus("resume") }]
+      : []),
+    ...(myParticipant && canTransitionSession(session.status, "close")
+      ? [{ name: "close", description: "Close the session and leave feedback", run: () => setShowCloseModal(true) }]
+      : []),
+  ];
+
+  const showContents = scenes.length > 0 || (isUnderWay && !!myParticipant);
+  // Viewers only get the audience chat while it's on; writers keep it to read back or moderate
+  const showSpectatorChat =
+    session.is_public && !spectatorChatHidden && (session.spectator_chat_enabled || !!myParticipant);
+  // The lorebook is for writers, including those who've left (read-only)
+  const showLorebook = isWriter && !isPublicView;
+  const showSidebar = showContents || showSpectatorChat || showLorebook;
+  const pinnedIds = new Set(pins.map((p) => p.message_id));
+
+  // Writers react to anything in the transcript; signed-in readers of a public session to the story
+  const reactionsByMessage = groupReactions(reactions);
+  const canReactTo = (m: SessionMessage) =>
+    !!me && !m.deleted_at && (!!myParticipant || (isPublicView && m.message_type !== "ooc"));
+
+  if (isPublicView && needsContentWarning(session) && !contentAcknowledged) {
+    return (
+      <ContentWarningGate
+        session={session}
+        outsidePreferences={!!contentPreferences && !matchesContentPreferences(session, contentPreferences)}
+        onContinue={() => {
+          acknowledgeContent(sessionId, session);
+          setContentAcknowledged(true);
+        }}
+      />
+    );
+  }
+
   return (
     <div 
-      className={`max-w-3xl mx-auto p-6 flex flex-col gap-4 min-h-screen ${
+      className={`${showSidebar ? "max-w-3xl md:max-w-5xl" : "max-w-3xl"} mx-auto p-6 flex flex-col gap-4 min-h-screen ${
         frameInfo ? frameInfo.shell : "bg-white"
       } ${frameInfo ? frameInfo.chrome : ""} relative`}
       style={frameInfo ? { color: "var(--text)" } : {}}
@@ -910,87 +1572,218 @@ export default function SessionPage() {
           ← Back to dashboard
         </Link>
         <div className="flex items-center gap-2">
-          {session.status === "closed" ? (
-            <span className="text-xs bg-red-100 text-red-800 px-2 py-1 rounded">Closed</span>
-          ) : session.is_active ? (
-            <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">Active</span>
-          ) : (
-            <span className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded">Paused</span>
-          )}
+          <SessionStatusBadge status={session.status} />
           {session.is_public && !isPublicView && (
             <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">Public</span>
           )}
-          {session.status !== "closed" && !isPublicView && (
+          {(session.is_public || needsContentWarning(session)) && (
+            <ContentRatingBadge rating={session.content_rating} warnings={session.content_warnings} />
+          )}
+          {(isWriter || session.is_public) && (
+            <ExportMenu sessionId={sessionId} canIncludeOoc={isWriter} />
+          )}
+          {isOpen && myParticipant && (
             <>
-              <button
-                onClick={async () => {
-                  if (!session || !me) return;
-                  const newIsPublic = !session.is_public;
-                  setError(null); // Clear previous errors
-                  const { error } = await supabase
-                    .from("rp_sessions")
-                    .update({ is_public: newIsPublic })
-                    .eq("id", sessionId);
-                  if (error) {
-                    console.error("Error updating session public status:", error);
-                    setError(error.message);
-                  } else {
-                    console.log(`✅ Session ${newIsPublic ? 'made public' : 'made private'} successfully`);
-                    setSession({ ...session, is_public: newIsPublic });
-                    // Show a temporary success message
-                    if (newIsPublic) {
-                      const successMsg = "Session is now public! Others can view it in 'Sessions to Watch'.";
-                      setError(null);
-                      setTimeout(() => {
-                        // You can add a toast notification here if needed
-                        console.log(successMsg);
-                      }, 100);
+              {isOwner && activeParticipants.length < MAX_SESSION_PARTICIPANTS && (
+                <button
+                  onClick={() => setShowInvite(!showInvite)}
+                  className="text-sm border px-3 py-1 rounded hover:bg-gray-50"
+                >
+                  + Invite
+                </button>
+              )}
+              {isUnderWay && (
+                <>
+                  <button
+                    onClick={() => setShowSchedule(!showSchedule)}
+                    className={`text-sm border px-3 py-1 rounded hover:bg-gray-50 ${showSchedule ? "bg-gray-100" : ""}`}
+                    title="Plan writing times with your partners"
+                  >
+                    🗓 Schedule
+                  </button>
+                  <button
+                    onClick={async () => {
+                      if (!session || !me) return;
+                      const newIsPublic = !session.is_public;
+                      setError(null); // Clear previous errors
+                      const { error } = await supabase
+                        .from("rp_sessions")
+                        .update({ is_public: newIsPublic })
+                        .eq("id", sessionId);
+                      if (error) {
+                        console.error("Error updating session public status:", error);
+                        setError(error.message);
+                      } else {
+                        console.log(`✅ Session ${newIsPublic ? 'made public' : 'made private'} successfully`);
+                        setSession({ ...session, is_public: newIsPublic });
+                        // Show a temporary success message
+                        if (newIsPublic) {
+                          const successMsg = "Session is now public! Others can view it in 'Sessions to Watch'.";
+                          setError(null);
+                          setTimeout(() => {
+                            // You can add a toast notification here if needed
+                            console.log(successMsg);
+                          }, 100);
+                        }
+                      }
+                    }}
+                    className={`text-sm border px-3 py-1 rounded hover:bg-gray-50 ${
+                      session.is_public ? "bg-blue-50 border-blue-300 text-blue-700" : ""
+                    }`}
+                  >
+                    {session.is_public ? "Make Private" : "Make Public"}
+                  </button>
+                  <select
+                    value={session.inactivity_reminder_minutes ?? ""}
+                    onChange={(e) =>
+                      updateReminderThreshold(e.target.value ? Number(e.target.value) : null)
                     }
-                  }
-                }}
-                className={`text-sm border px-3 py-1 rounded hover:bg-gray-50 ${
-                  session.is_public ? "bg-blue-50 border-blue-300 text-blue-700" : ""
-                }`}
-              >
-                {session.is_public ? "Make Private" : "Make Public"}
-              </button>
-              <button
-                onClick={toggleSessionActive}
-                className="text-sm border px-3 py-1 rounded hover:bg-gray-50"
-              >
-                {session.is_active ? "Pause" : "Resume"}
-              </button>
-              <button
-                onClick={() => setShowCloseModal(true)}
-                className="text-sm border border-red-300 text-red-600 px-3 py-1 rounded hover:bg-red-50"
-              >
-                Close
-              </button>
+                    className="text-sm border px-2 py-1 rounded bg-white text-black"
+                    title="Post a reminder when the session has been quiet this long"
+                  >
+                    {REMINDER_THRESHOLDS.map((t) => (
+                      <option key={t.label} value={t.minutes ?? ""}>
+                        Reminder: {t.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={session.content_rating}
+                    onChange={(e) => updateContentSettings({ content_rating: e.target.value as ContentRating })}
+                    className="text-sm border px-2 py-1 rounded bg-white text-black"
+                    title="Shown to spectators before they can read the session"
+                  >
+                    {CONTENT_RATINGS.map((rating) => (
+                      <option key={rating} value={rating} title={contentRatings[rating].description}>
+                        Rating: {contentRatings[rating].label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setShowContentSettings(!showContentSettings)}
+                    className={`text-sm border px-3 py-1 rounded hover:bg-gray-50 ${showContentSettings ? "bg-gray-100" : ""}`}
+                  >
+                    ⚠ Warnings{session.content_warnings.length > 0 && ` (${session.content_warnings.length})`}
+                  </button>
+                  <select
+                    value={session.turn_order}
+                    onChange={(e) => updateTurnSettings({ turn_order: e.target.value as TurnOrder })}
+                    className="text-sm border px-2 py-1 rounded bg-white text-black"
+                    title={turnOrders[session.turn_order].description}
+                  >
+                    {(Object.keys(turnOrders) as TurnOrder[]).map((order) => (
+                      <option key={order} value={order} title={turnOrders[order].description}>
+                        Turns: {turnOrders[order].label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={session.turn_deadline_hours ?? ""}
+                    onChange={(e) =>
+                      updateTurnSettings({ turn_deadline_hours: e.target.value ? Number(e.target.value) : null })
+                    }
+                    className="text-sm border px-2 py-1 rounded bg-white text-black"
+                    title="Nudge the writer whose turn it is after this long"
+                  >
+                    {TURN_DEADLINES.map((d) => (
+                      <option key={d.label} value={d.hours ?? ""}>
+                        Turn deadline: {d.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => changeSessionStatus(session.status === "paused" ? "resume" : "pause")}
+                    className="text-sm border px-3 py-1 rounded hover:bg-gray-50"
+                  >
+                    {session.status === "paused" ? "Resume" : "Pause"}
+                  </button>
+                  <button
+                    onClick={() => setShowCloseModal(true)}
+                    className="text-sm border border-red-300 text-red-600 px-3 py-1 rounded hover:bg-red-50"
+                  >
+                    Close
+                  </button>
+                </>
+              )}
+              {!isOwner && (
+                <button
+                  onClick={leaveSession}
+                  className="text-sm border px-3 py-1 rounded hover:bg-gray-50"
+                >
+                  Leave
+                </button>
+              )}
             </>
           )}
         </div>
       </div>
 
+      {showContentSettings && isUnderWay && myParticipant && (
+        <div className={`p-3 border rounded space-y-2 ${frameInfo ? "bg-white/10 border-white/20" : "bg-gray-50"}`}>
+          <div className={`text-xs ${frameInfo ? "text-white/80" : "text-gray-600"}`}>
+            Content warnings shown to spectators with the rating
+          </div>
+          <ContentWarningPicker
+            selected={session.content_warnings}
+            onChange={(warnings) => updateContentSettings({ content_warnings: warnings })}
+          />
+        </div>
+      )}
+
+      {showSchedule && isUnderWay && myParticipant && me && (
+        <SessionSchedule
+          sessionId={sessionId}
+          me={me}
+          writers={writingParticipants.map((p) => ({ user_id: p.user_id, name: p.name }))}
+        />
+      )}
+
+      {showInvite && isOwner && (
+        <div className={`p-3 border rounded space-y-2 ${frameInfo ? "bg-white/10 border-white/20" : "bg-gray-50"}`}>
+          <div className={`text-xs ${frameInfo ? "text-white/80" : "text-gray-600"}`}>
+            Invite another writer ({activeParticipants.length}/{MAX_SESSION_PARTICIPANTS} seats taken)
+          </div>
+          <WriterPicker
+            excludeUserIds={activeParticipants.map((p) => p.user_id)}
+            onSelect={(writer) => inviteWriter(writer.user_id)}
+          />
+        </div>
+      )}
+
+      {pendingInvitees.length > 0 && !isPublicView && !myInvitation && (
+        <div className={`text-xs ${frameInfo ? "text-white/80" : "text-gray-600"}`}>
+          Waiting on {formatParticipantNames(pendingInvitees)} to accept the invitation.
+        </div>
+      )}
+
       {/* Viewer Counter - Show for public sessions */}
       {session.is_public && (
         <div className={`flex items-center gap-3 p-3 border rounded ${frameInfo ? "bg-white/10 backdrop-blur-sm border-white/20" : "bg-white/50 backdrop-blur-sm"}`}>
           <div className="flex items-center gap-2 flex-shrink-0">
             <span className={`text-sm font-semibold ${frameInfo ? "text-white" : "text-gray-700"}`}>
-              👁️ {viewers.length} {viewers.length === 1 ? 'viewer' : 'viewers'}
+              👁️ {viewerCount} {viewerCount === 1 ? 'viewer' : 'viewers'}
             </span>
-            {maxViewers > 0 && maxViewers > viewers.length && (
+            {maxViewers > 0 && maxViewers > viewerCount && (
               <span className={`text-xs ${frameInfo ? "text-white/70" : "text-gray-500"}`}>
                 (Peak: {maxViewers})
               </span>
             )}
+            {myParticipant && !!session.viewer_minutes && (
+              <span
+                className={`text-xs ${frameInfo ? "text-white/70" : "text-gray-500"}`}
+                title="Minutes watched, added up across all viewers"
+              >
+                · {session.viewer_minutes.toLocaleString()} viewer-minutes
+              </span>
+            )}
           </div>
-          {viewers.length > 0 && (
+          {viewerCount > 0 && (
             <div className="flex items-center gap-2 flex-1 min-w-0">
               <span className={`text-xs ${frameInfo ? "text-white/80" : "text-gray-600"} whitespace-nowrap`}>
                 Most recent:
               </span>
               <div className="flex -space-x-2 flex-1 min-w-0 overflow-hidden">
-                {viewers.slice(0, 8).map((viewer) => (
+                {shownSpectators.map((viewer) => (
                   <div key={viewer.user_id} className="relative group flex-shrink-0">
                     {viewer.portrait_url ? (
                       <img
@@ -1009,94 +1802,175 @@ export default function SessionPage() {
                     )}
                   </div>
                 ))}
-                {viewers.length > 8 && (
+                {viewerCount > shownSpectators.length && (
                   <div
                     className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold border-2 border-white shadow-sm flex-shrink-0 ${
                       frameInfo ? "bg-white/20 text-white" : "bg-gray-300 text-gray-600"
                     }`}
-                    title={`+${viewers.length - 8} more viewers`}
+                    title={`+${viewerCount - shownSpectators.length} more viewers`}
                   >
-                    +{viewers.length - 8}
+                    +{viewerCount - shownSpectators.length}
                   </div>
                 )}
               </div>
             </div>
           )}
-          {viewers.length === 0 && (
+          {viewerCount === 0 && (
             <span className={`text-xs ${frameInfo ? "text-white/70" : "text-gray-500"} italic`}>
               No viewers currently
             </span>
           )}
+          <div className="flex items-center gap-2 ml-auto flex-shrink-0">
+            {myParticipant && (
+              <button
+                onClick={() => updateSpectatorChatEnabled(!session.spectator_chat_enabled)}
+                className="text-xs border px-2 py-1 rounded bg-white text-black hover:bg-gray-50"
+                title="Let viewers chat alongside the story"
+              >
+                Audience chat: {session.spectator_chat_enabled ? "On" : "Off"}
+              </button>
+            )}
+            {(session.spectator_chat_enabled || myParticipant) && (
+              <button
+                onClick={toggleSpectatorChatHidden}
+                className={`text-xs underline ${frameInfo ? "text-white/80" : "text-gray-600"}`}
+              >
+                {spectatorChatHidden ? "Show chat" : "Hide chat"}
+              </button>
+            )}
+          </div>
         </div>
       )}
 
-      {(otherUser || (isPublicView && participantA && participantB)) && (
-        <div className={`flex items-center gap-3 p-3 border rounded ${frameInfo ? frameInfo.portrait : "bg-gray-50"}`}>
-          {isPublicView && participantA && participantB ? (
-            <>
-              {/* Show both participants for public view */}
-              <div className="flex -space-x-3">
-                {participantA.portrait_url ? (
-                  <img
-                    src={participantA.portrait_url}
-                    alt={participantA.name}
-                    className="w-10 h-10 rounded-full object-cover border-2 border-white"
-                  />
-                ) : (
-                  <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center border-2 border-white">
-                    {participantA.name.charAt(0).toUpperCase()}
-                  </div>
-                )}
-                {participantB.portrait_url ? (
-                  <img
-                    src={participantB.portrait_url}
-                    alt={participantB.name}
-                    className="w-10 h-10 rounded-full object-cover border-2 border-white"
-                  />
-                ) : (
-                  <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center border-2 border-white">
-                    {participantB.name.charAt(0).toUpperCase()}
-                  </div>
-                )}
-              </div>
-              <div>
-                <div className={`font-medium ${frameInfo ? frameInfo.headerAccent.split(' ')[0] : ""}`}>
-                  {session.name || "Roleplay Session"}
-                </div>
-                <div className={`text-xs ${frameInfo ? "opacity-70" : "text-gray-500"}`}>
-                  {participantA.name} & {participantB.name}
-                </div>
-              </div>
-            </>
-          ) : otherUser ? (
-            <>
-              {otherUser.portrait_url ? (
-                <img
-                  src={otherUser.portrait_url}
-                  alt={otherUser.name}
-                  className="w-10 h-10 rounded-full object-cover border-2"
-                />
+      {series.length > 1 && (
+        <nav className={`flex items-center gap-3 text-sm ${frameInfo ? "text-white/80" : "text-gray-600"}`}>
+          {prevPart ? (
+            <Link href={`/session/${prevPart.id}`} className="underline truncate">
+              ← Part {prevPart.part}: {prevPart.name || "Untitled session"}
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="mx-auto whitespace-nowrap">
+            Part {seriesIndex + 1} of {series.length}
+          </span>
+          {nextPart ? (
+            <Link href={`/session/${nextPart.id}`} className="underline truncate">
+              Part {nextPart.part}: {nextPart.name || "Untitled session"} →
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
+      )}
+
+      {(session.branched_from_session_id || branches.length > 0) && (
+        <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 text-sm ${frameInfo ? "text-white/80" : "text-gray-600"}`}>
+          {session.branched_from_session_id && (
+            <span>
+              ⑂ Branch of{" "}
+              {branchOrigin ? (
+                <Link href={`/session/${branchOrigin.id}`} className="underline">
+                  {branchOrigin.name || "Untitled session"}
+                </Link>
               ) : (
-                <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center border-2">
-                  {otherUser.name.charAt(0).toUpperCase()}
-                </div>
+                "another session"
               )}
-              <div>
-                <div className={`font-medium ${frameInfo ? frameInfo.headerAccent.split(' ')[0] : ""}`}>
-                  {session.name || "Roleplay Session"}
-                </div>
-                <div className={`text-xs ${frameInfo ? "opacity-70" : "text-gray-500"}`}>
-                  {otherUser.name}
-                </div>
+            </span>
+          )}
+          {branches.length > 0 && (
+            <span>
+              ⑂ Branches:{" "}
+              {branches.map((branch, i) => (
+                <span key={branch.id}>
+                  {i > 0 && " · "}
+                  <Link href={`/session/${branch.id}`} className="underline">
+                    {branch.name || "Untitled session"}
+                  </Link>
+                  {branch.status !== "active" && ` (${sessionStatuses[branch.status].label.toLowerCase()})`}
+                </span>
+              ))}
+            </span>
+          )}
+        </div>
+      )}
+
+      {headerParticipants.length > 0 && (
+        <div className={`flex items-center gap-3 p-3 border rounded ${frameInfo ? frameInfo.portrait : "bg-gray-50"}`}>
+          <div className="flex -space-x-3">
+            {headerParticipants.map((participant) =>
+              participant.portrait_url ? (
+                <img
+                  key={participant.user_id}
+                  src={participant.portrait_url}
+                  alt={participant.name}
+                  title={participant.name}
+                  className={`w-10 h-10 rounded-full object-cover border-2 ${
+                    presence.online[participant.user_id] ? "border-green-400" : "border-white"
+                  }`}
+                />
+              ) : (
+                <div
+                  key={participant.user_id}
+                  title={participant.name}
+                  className={`w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center border-2 ${
+                    presence.online[participant.user_id] ? "border-green-400" : "border-white"
+                  }`}
+                >
+                  {participant.name.charAt(0).toUpperCase()}
+                </div>
+              )
+            )}
+          </div>
+          <div>
+            <div className={`font-medium ${frameInfo ? frameInfo.headerAccent.split(' ')[0] : ""}`}>
+              {session.name || "Roleplay Session"}
+            </div>
+            <div className={`text-xs ${frameInfo ? "opacity-70" : "text-gray-500"}`}>
+              {isPublicView
+                ? formatParticipantNames(headerParticipants)
+                : headerParticipants.map((participant, i) => (
+                    <span key={participant.user_id}>
+                      {i > 0 && " · "}
+                      {participant.name}{" "}
+                      <span className={presence.online[participant.user_id] ? "text-green-600" : ""}>
+                        (
+                        {formatPresence(
+                          presence.online[participant.user_id],
+                          latestTime(participant.last_seen_at, presence.leftAt[participant.user_id])
+                        )}
+                        )
+                      </span>
+                    </span>
+                  ))}
+            </div>
+            {turnHolder && isUnderWay && (
+              <div className={`text-xs mt-0.5 ${frameInfo ? "opacity-80" : "text-gray-600"}`}>
+                {turnHolder.user_id === me ? (
+                  <span className="font-semibold text-green-700">Your turn</span>
+                ) : (
+                  <>Up next: {turnHolder.name}</>
+                )}
+                {turnDeadline && (
+                  <span title={turnDeadline.toLocaleString()}>
+                    {" "}
+                    · {turnDeadline.getTime() < Date.now() ? "past the deadline" : `due ${formatTurnDeadline(turnDeadline)}`}
+                  </span>
+                )}
+                {myParticipant && (turnHolder.user_id === me || isOwner) && (
+                  <button onClick={passTurn} className="ml-2 underline" title="Hand the turn to the next writer">
+                    {turnHolder.user_id === me ? "Pass" : "Skip"}
+                  </button>
+                )}
               </div>
-            </>
-          ) : null}
+            )}
+          </div>
           {isPublicView && (
             <div className="ml-auto text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
               Public View
             </div>
           )}
-          {isPublicView && session.is_active && (
+          {isPublicView && session.status === "active" && (
             <div className="ml-auto flex items-center gap-1 text-xs bg-green-100 text-green-800 px-2 py-1 rounded font-medium">
               <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
               Live
@@ -1105,12 +1979,6 @@ export default function SessionPage() {
         </div>
       )}
 
-      {inactivityReminder && (
-        <div className="bg-yellow-50 border-l-4 border-yellow-500 p-4">
-          <p className="text-sm text-yellow-800">{inactivityReminder}</p>
-        </div>
-      )}
-
       {error && <p className="text-sm text-red-600">{error}</p>}
 
       {session.status === "closed" && myFeedback && (
@@ -1144,64 +2012,345 @@ export default function SessionPage() {
         </div>
       )}
 
-      <div className="border rounded p-4 h-[60vh] overflow-y-auto space-y-3 bg-white">
-        {(isPublicView 
-          ? messages.filter(m => m.message_type === "narration")
-          : messages
-        ).map((m) => {
-          const mine = m.sender_id === me;
-          const isNarration = m.message_type === "narration";
-          const portraitUrl = isNarration ? m.character_portrait : m.sender_portrait;
-          const displayName = isNarration ? m.character_name : m.sender_name;
-          
-          return (
-            <div key={m.id} className={`flex items-start gap-2 ${mine ? "flex-row-reverse" : "flex-row"}`}>
-              <div className="flex-shrink-0">
-                {portraitUrl ? (
-                  <img
-                    src={portraitUrl}
-                    alt={displayName || "Avatar"}
-                    className="w-10 h-10 rounded-full object-cover border-2"
-                  />
-                ) : (
-                  <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center border-2">
-                    {(displayName || "U").charAt(0).toUpperCase()}
+      <div className="flex gap-4 items-start">
+        <div
+          ref={scrollRef}
+          onScroll={(e) => {
+            if (e.currentTarget.scrollTop < 120) loadOlderMessages();
+          }}
+          className="flex-1 min-w-0 border rounded p-4 h-[60vh] overflow-y-auto space-y-3 bg-white"
+        >
+          {hasOlderMessages && (
+            <div className="text-center">
+              <button
+                onClick={loadOlderMessages}
+                disabled={loadingOlder}
+                className="text-xs text-gray-500 underline disabled:no-underline"
+              >
+                {loadingOlder ? "Loading earlier messages…" : "Load earlier messages"}
+              </button>
+            </div>
+          )}
+          {(isPublicView 
+            ? messages.filter(m => PUBLIC_MESSAGE_TYPES.includes(m.message_type))
+            : messages
+          ).map((m) => {
+            if (m.message_type === "system") {
+              return (
+                <div key={m.id} className="flex justify-center">
+                  <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded px-3 py-2 text-xs text-center max-w-[85%]">
+                    {m.body}
+                    <span className="block text-yellow-600/70 mt-1">
+                      {new Date(m.created_at).toLocaleTimeString()}
+                    </span>
                   </div>
-                )}
-              </div>
-              <div className={`flex flex-col ${mine ? "items-end" : "items-start"} max-w-[75%]`}>
-                {/* Always show character name for narration messages - prominently displayed */}
-                {isNarration ? (
-                  <div className="text-sm text-purple-700 mb-1 font-semibold">
-                    {displayName || "Unknown Character"}
+                </div>
+              );
+            }
+
+            if (m.deleted_at) {
+              return (
+                <div
+                  key={m.id}
+                  id={`message-${m.id}`}
+                  className={`flex ${m.sender_id === me ? "justify-end" : "justify-start"}`}
+                >
+                  <div className="border border-dashed border-gray-300 text-gray-400 rounded px-3 py-1.5 text-xs italic">
+                    {m.sender_id === me ? "You" : m.sender_name || "Someone"} deleted{" "}
+                    {m.message_type === "scene" ? "a scene break" : "a message"}
+                    <span className="ml-2 not-italic">{new Date(m.deleted_at).toLocaleTimeString()}</span>
                   </div>
-                ) : displayName ? (
-                  <div className="text-xs text-gray-500 mb-1">{displayName}</div>
-                ) : null}
+                </div>
+              );
+            }
+
+            if (m.message_type === "scene") {
+              return (
+                <div key={m.id} id={`message-${m.id}`} className="pt-4 pb-1 text-center">
+                  <div className="text-[10px] uppercase tracking-[0.2em] text-gray-400">
+                    {m.scene_kind === "chapter" ? "Chapter" : "Scene"}
+                  </div>
+                  <div
+                    className={`font-semibold text-gray-800 border-b border-gray-200 pb-1 ${
+                      m.scene_kind === "chapter" ? "text-xl" : "text-base"
+                    }`}
+                  >
+                    {m.body}
+                  </div>
+                </div>
+              );
+            }
+
+            if (m.message_type === "roll" && m.roll_result) {
+              return (
                 <div
-                  className={`rounded px-3 py-2 text-sm whitespace-pre-line ${
-                    isNarration
-                      ? "bg-purple-100 text-purple-900 italic"
-                      : mine
-                      ? "bg-black text-white"
-                      : "bg-gray-100"
-                  }`}
+                  key={m.id}
+                  id={`message-${m.id}`}
+                  className={m.id === linkedMessageId ? "rounded ring-2 ring-amber-300" : undefined}
                 >
-                  {m.body}
+                  <RollCard
+                    roller={m.character_name || m.sender_name || "Someone"}
+                    portraitUrl={m.character_name ? m.character_portrait : m.sender_portrait}
+                    result={m.roll_result}
+                    createdAt={m.created_at}
+                    mine={m.sender_id === me}
+                    footer={
+                      <ReactionBar
+                        reactions={reactionsByMessage.get(m.id) || []}
+                        me={me}
+                        canReact={canReactTo(m)}
+                        onToggle={(emoji, existing) => toggleReaction(m, emoji, existing)}
+                        align={m.sender_id === me ? "end" : "start"}
+                      />
+                    }
+                  />
+                </div>
+              );
+            }
+
+            const mine = m.sender_id === me;
+            const isNarration = m.message_type === "narration";
+            const isEditing = editingId === m.id;
+            const messageBranches = branchesByMessage.get(m.id);
+            const npc = isNarration && m.npc_id ? npcById.get(m.npc_id) : undefined;
+            const portraitUrl = npc ? npc.portrait_url : isNarration ? m.character_portrait : m.sender_portrait;
+            const displayName = npc ? npc.name : isNarration ? m.character_name : m.sender_name;
+            
+            return (
+              <div
+                key={m.id}
+                id={`message-${m.id}`}
+                className={`flex items-start gap-2 ${mine ? "flex-row-reverse" : "flex-row"} ${
+                  m.id === linkedMessageId ? "rounded ring-2 ring-amber-300" : ""
+                }`}
+              >
+                <div className="flex-shrink-0">
+                  {portraitUrl ? (
+                    <img
+                      src={portraitUrl}
+                      alt={displayName || "Avatar"}
+                      className="w-10 h-10 rounded-full object-cover border-2"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center border-2">
+                      {(displayName || "U").charAt(0).toUpperCase()}
+                    </div>
+                  )}
                 </div>
-                <div className={`text-xs text-gray-400 mt-1 ${mine ? "text-right" : "text-left"}`}>
-                  {new Date(m.created_at).toLocaleTimeString()}
+                <div className={`flex flex-col ${mine ? "items-end" : "items-start"} max-w-[75%]`}>
+                  {/* Always show character name for narration messages - prominently displayed */}
+                  {isNarration ? (
+                    <div className="text-sm text-purple-700 mb-1 font-semibold" title={npc?.note || undefined}>
+                      {displayName || "Unknown Character"}
+                      {npc && (
+                        <span className="ml-1 text-[10px] font-normal text-purple-500">
+                          NPC · {m.sender_name || "a writer"}
+                        </span>
+                      )}
+                    </div>
+                  ) : displayName ? (
+                    <div className="text-xs text-gray-500 mb-1">{displayName}</div>
+                  ) : null}
+                  <div
+                    className={`rounded px-3 py-2 text-sm whitespace-pre-line ${
+                      isNarration
+                        ? "bg-purple-100 text-purple-900 italic"
+                        : mine
+                        ? "bg-black text-white"
+                        : "bg-gray-100"
+                    }`}
+                  >
+                    {isEditing ? (
+                      <div className="flex flex-col gap-2 not-italic">
+                        <textarea
+                          className="w-full rounded border p-2 text-sm text-black bg-white"
+                          rows={3}
+                          value={editingText}
+                          onChange={(e) => setEditingText(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Escape") cancelEdit();
+                          }}
+                          autoFocus
+                        />
+                        <div className="flex gap-2 justify-end text-xs">
+                          <button className="px-2 py-1 rounded border" onClick={cancelEdit}>
+                            Cancel
+                          </button>
+                          <button
+                            className="px-2 py-1 rounded bg-white text-black border"
+                            onClick={saveEdit}
+                            disabled={!editingText.trim()}
+                          >
+                            Save
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      m.body
+                    )}
+                  </div>
+                  <div className={`text-xs text-gray-400 mt-1 ${mine ? "text-right" : "text-left"}`}>
+                    {new Date(m.created_at).toLocaleTimeString()}
+                    {m.edited_at && (
+                      <button
+                        className="ml-2 text-[10px] underline"
+                        onClick={() => setHistoryFor(m)}
+                        title={`Edited ${new Date(m.edited_at).toLocaleString()}`}
+                      >
+                        (edited)
+                      </button>
+                    )}
+                    {mine && !isEditing && !isPublicView && (
+                      <>
+                        <button className="ml-2 text-[10px] underline" onClick={() => startEdit(m)}>
+                          Edit
+                        </button>
+                        <button className="ml-2 text-[10px] underline" onClick={() => deleteMessage(m)}>
+                          Delete
+                        </button>
+                      </>
+                    )}
+                    {myParticipant && !isEditing && !isPublicView && (
+                      <button
+                        className="ml-2 text-[10px] underline"
+                        onClick={() => branchFrom(m)}
+                        disabled={branching}
+                        title="Start a new session that continues from this message"
+                      >
+                        Branch
+                      </button>
+                    )}
+                    {myParticipant && !isEditing && !isPublicView && !m.deleted_at && (
+                      <button
+                        className="ml-2 text-[10px] underline"
+                        onClick={() =>
+                          togglePin(m.id, !pinnedIds.has(m.id)).catch((err) =>
+                            setError(err instanceof Error ? err.message : "Failed to update pin")
+                          )
+                        }
+                      >
+                        {pinnedIds.has(m.id) ? "📌 Unpin" : "Pin"}
+                      </button>
+                    )}
+                    {messageBranches && (
+                      <Link
+                        href={`/session/${messageBranches[0].id}`}
+                        className="ml-2 text-[10px] underline"
+                        title={`Branched here: ${messageBranches.map((b) => b.name || "Untitled session").join(", ")}`}
+                      >
+                        ⑂ {messageBranches.length}
+                      </Link>
+                    )}
+                  </div>
+                  <ReactionBar
+                    reactions={reactionsByMessage.get(m.id) || []}
+                    me={me}
+                    canReact={canReactTo(m)}
+                    onToggle={(emoji, existing) => toggleReaction(m, emoji, existing)}
+                    align={mine ? "end" : "start"}
+                  />
                 </div>
               </div>
-            </div>
-          );
-        })}
-        <div ref={bottomRef} />
+            );
+          })}
+          <div ref={bottomRef} />
+        </div>
+
+        {showSidebar && (
+          <div className="hidden md:flex flex-col gap-3 w-56 flex-shrink-0 h-[60vh]">
+            {showContents && (
+              <div
+                className={`flex flex-col min-h-0 ${
+                  showSpectatorChat || showLorebook ? "max-h-[40%]" : "max-h-full"
+                }`}
+              >
+                <SceneContents
+                  scenes={scenes}
+                  canAdd={session.status === "active" && !!myParticipant}
+                  onJump={jumpToMessage}
+                  onAdd={(kind, title) => postMessage("scene", title, { sceneKind: kind })}
+                />
+              </div>
+            )}
+            {showLorebook && (
+              <div className="flex-1 min-h-0">
+                <SessionLorebook
+                  sessionId={sessionId}
+                  me={me}
+                  canEdit={!!myParticipant}
+                  pins={pins}
+                  onJump={jumpToMessage}
+                  onUnpin={(messageId) => togglePin(messageId, false)}
+                />
+              </div>
+            )}
+            {showSpectatorChat && (
+              <div className="flex-1 min-h-0">
+                <SpectatorChat
+                  sessionId={sessionId}
+                  me={me}
+                  writerIds={writingParticipants.map((p) => p.user_id)}
+                  isWriter={!!myParticipant}
+                  enabled={session.spectator_chat_enabled}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
-      {session.status !== "closed" && !isPublicView && (
+      {typingNames.length > 0 && (
+        <p className={`text-xs italic -mt-2 ${frameInfo ? "text-white/70" : "text-gray-500"}`}>
+          {formatParticipantNames(typingNames)} {typingNames.length === 1 ? "is" : "are"} writing…
+        </p>
+      )}
+
+      {session.status === "pending" && myParticipant && (
+        <div className="bg-purple-50 border border-purple-200 rounded p-4 text-center">
+          <p className="text-sm text-purple-800">
+            The session starts once your invitees have answered. You&apos;ll be able to post as soon as someone accepts.
+          </p>
+        </div>
+      )}
+
+      {isOpen && myInvitation && (
+        <InvitationPanel
+          inviterName={inviter?.name || "Someone"}
+          userId={myInvitation.user_id}
+          expiresAt={myInvitation.invite_expires_at}
+          onAccept={acceptInvitation}
+          onDecline={declineInvitation}
+        />
+      )}
+
+      {(session.status === "declined" || session.status === "expired") && !isPublicView && (
+        <div className="bg-gray-50 border rounded p-4 text-center">
+          <p className="text-sm text-gray-600">
+            {session.status === "declined"
+              ? "This session invitation was declined."
+              : "This session invitation expired before anyone accepted."}
+          </p>
+        </div>
+      )}
+
+      {session.imported_from && (
+        <p className={`text-xs ${frameInfo ? "text-white/70" : "text-gray-500"}`}>
+          Imported from {importSources[session.imported_from]}
+          {session.imported_at && ` on ${new Date(session.imported_at).toLocaleDateString()}`}. Earlier messages
+          keep their original timestamps.
+        </p>
+      )}
+
+      {session.status === "paused" && !isPublicView && (
+        <p className={`text-xs ${frameInfo ? "text-white/70" : "text-gray-500"}`}>
+          Paused by {statusChangedBy?.name || "a participant"}
+          {session.status_changed_at && ` on ${new Date(session.status_changed_at).toLocaleString()}`}.
+        </p>
+      )}
+
+      {isUnderWay && myParticipant && (
         <div className="space-y-2">
-          {session.is_active && (
+          {session.status === "active" && (
             <div className="flex gap-2">
               <button
                 onClick={() => setMessageType("ooc")}
@@ -1219,44 +2368,169 @@ export default function SessionPage() {
               >
                 Narration
               </button>
+              <button
+                onClick={() => setMessageType("roll")}
+                className={`px-3 py-1 text-sm border rounded ${
+                  messageType === "roll" ? "bg-amber-500 text-white" : "bg-white"
+                }`}
+                title="Roll dice, e.g. 2d6+3 or 4dF. Anything after the dice is a label."
+              >
+                🎲 Roll
+              </button>
+            </div>
+          )}
+
+          {session.status === "active" && messageType === "narration" && (
+            <div className="flex flex-wrap items-center gap-1 text-xs">
+              <span className={frameInfo ? "text-white/70" : "text-gray-500"}>Speaking as:</span>
+              {characters.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => selectSpeaker({ characterId: c.id })}
+                  className={`px-2 py-0.5 border rounded-full ${
+                    !selectedNpc && c.id === selectedCharacterId ? "bg-purple-600 text-white" : "bg-white"
+                  }`}
+                >
+                  {c.name}
+                </button>
+              ))}
+              {activeNpcs.map((n) => (
+                <button
+                  key={n.id}
+                  onClick={() => selectSpeaker({ npcId: n.id })}
+                  title={n.note || undefined}
+                  className={`px-2 py-0.5 border border-dashed rounded-full ${
+                    selectedNpc?.id === n.id ? "bg-purple-600 text-white" : "bg-white"
+                  }`}
+                >
+                  🎭 {n.name}
+                </button>
+              ))}
+              <button
+                onClick={() => setShowCastEditor((v) => !v)}
+                className={`underline ${frameInfo ? "text-white/80" : "text-gray-600"}`}
+              >
+                {showCastEditor ? "Done" : "Manage cast"}
+              </button>
             </div>
           )}
 
+          {showCastEditor && me && session.status === "active" && messageType === "narration" && (
+            <CastEditor
+              sessionId={sessionId}
+              userId={me}
+              characters={characters}
+              npcs={npcs}
+              onCharactersChanged={() => loadMySessionCharacters(me)}
+              onNpcSaved={(npc) => {
+                setNpcs((prev) =>
+                  prev.some((n) => n.id === npc.id) ? prev.map((n) => (n.id === npc.id ? npc : n)) : [...prev, npc]
+                );
+                if (npc.archived_at && npc.id === selectedNpcId) setSelectedNpcId(null);
+              }}
+            />
+          )}
+
 
-          {!session.is_active && (
+          {session.status === "paused" && (
             <p className="text-xs text-gray-500">
               My session is paused. Narration is disabled. Only OOC messages are allowed.
             </p>
           )}
 
           <div className="flex gap-2">
-            <input
-              className="flex-1 border rounded p-2"
-              placeholder={session.is_active ? "Write…" : "My session paused - OOC only"}
+            <SlashCommandInput
+              commands={sessionCommands}
+              placeholder={
+                session.status !== "active"
+                  ? "My session paused - OOC only"
+                  : messageType === "roll"
+                  ? "2d6+3 attack, 4dF, d20…"
+                  : messageType === "narration" && speaker
+                  ? `Write as ${speaker.name}… (type / for commands)`
+                  : "Write… (type / for commands)"
+              }
               value={text}
-              onChange={(e) => setText(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === "Enter" && !e.shiftKey) {
-                  e.preventDefault();
-                  send();
-                }
+              onChange={(value) => {
+                setText(value);
+                // Commands aren't writing
+                presence.setTyping(!!value.trim() && !value.startsWith("/"));
               }}
-              disabled={!session.is_active && messageType === "narration"}
+              onSubmit={send}
+              onError={setError}
             />
             <button
               className="bg-black text-white px-4 rounded disabled:opacity-50"
               onClick={send}
-              disabled={!session.is_active && messageType === "narration"}
+              disabled={session.status === "paused" && messageType !== "ooc"}
             >
               Send
             </button>
           </div>
+          {formatDraftStatus(draft.status, draft.savedAt) && (
+            <p className={`text-[10px] -mt-1 text-right ${frameInfo ? "text-white/60" : "text-gray-400"}`}>
+              {formatDraftStatus(draft.status, draft.savedAt)}
+            </p>
+          )}
         </div>
       )}
 
-      {session.status === "closed" && !isPublicView && (
+      {isOpen && !isPublicView && !myParticipant && !myInvitation && myPastParticipation && (
         <div className="bg-gray-50 border rounded p-4 text-center">
-          <p className="text-sm text-gray-600">Your session is closed. No new messages can be sent.</p>
+          <p className="text-sm text-gray-600">
+            {myPastParticipation.invite_status === "declined"
+              ? "You declined this invitation."
+              : myPastParticipation.invite_status === "expired"
+              ? "Your invitation to this session expired."
+              : "You left this session. You can still read the story so far."}
+          </p>
+        </div>
+      )}
+
+      {session.status === "closed" && !isPublicView && (
+        <div className="bg-gray-50 border rounded p-4 text-center space-y-2">
+          <p className="text-sm text-gray-600">
+            Your session was closed
+            {statusChangedBy ? ` by ${statusChangedBy.name}` : ""}
+            {session.status_changed_at ? ` on ${new Date(session.status_changed_at).toLocaleString()}` : ""}.
+            No new messages can be sent.
+          </p>
+          {reopenAgreed.length > 0 && (
+            <p className="text-xs text-gray-500">
+              {formatParticipantNames(reopenAgreed)} {reopenAgreed.length === 1 ? "wants" : "want"} to reopen it
+              {reopenWaitingOn.length > 0 ? `, waiting on ${formatParticipantNames(reopenWaitingOn)}` : ""}.
+            </p>
+          )}
+          {myParticipant && (
+            <div className="flex justify-center gap-2">
+              <button
+                onClick={() => setReopenAgreement(!myParticipant.reopen_agreed_at)}
+                className="text-sm border px-3 py-1 rounded hover:bg-gray-100"
+                title="The session reopens once every writer agrees"
+              >
+                {myParticipant.reopen_agreed_at
+                  ? "Withdraw reopen request"
+                  : reopenAgreed.length > 0
+                  ? "Agree to reopen"
+                  : "Ask to reopen"}
+              </button>
+              {!nextPart && (
+                <button
+                  onClick={startSequel}
+                  disabled={startingSequel}
+                  className="text-sm border px-3 py-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="A new session with the same name, style, writers and characters"
+                >
+                  {startingSequel ? "Starting…" : "Start a sequel"}
+                </button>
+              )}
+            </div>
+          )}
+          {nextPart && (
+            <Link href={`/session/${nextPart.id}`} className="text-sm underline block">
+              Continue in part {nextPart.part}: {nextPart.name || "Untitled session"} →
+            </Link>
+          )}
         </div>
       )}
       {isPublicView && (
@@ -1265,6 +2539,8 @@ export default function SessionPage() {
         </div>
       )}
 
+      {historyFor && <RevisionHistoryModal message={historyFor} onClose={() => setHistoryFor(null)} />}
+
       {/* Close Session Modal */}
       {showCloseModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1386,3 +2662,624 @@ export default function SessionPage() {
     </div>
   );
 }
+
+// Shown to an invitee: pick which of your characters join, then accept or decline
+function InvitationPanel({
+  inviterName,
+  userId,
+  expiresAt,
+  onAccept,
+  onDecline,
+}: {
+  inviterName: string;
+  userId: string;
+  expiresAt: string | null;
+  onAccept: (characterIds: string[]) => Promise<void>;
+  onDecline: () => Promise<void>;
+}) {
+  const [myCharacters, setMyCharacters] = useState<Array<{ id: string; name: string; portrait_url: string | null }>>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loadingCharacters, setLoadingCharacters] = useState(true);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function loadCharacters() {
+      const { data } = await supabase
+        .from("characters")
+        .select("id, name, portrait_url")
+        .eq("user_id", userId)
+        .order("name", { ascending: true });
+
+      if (!mounted) return;
+      setMyCharacters(data || []);
+      setLoadingCharacters(false);
+    }
+
+    loadCharacters();
+
+    return () => {
+      mounted = false;
+    };
+  }, [userId]);
+
+  function toggleCharacter(id: string) {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+  }
+
+  async function respond(action: () => Promise<void>) {
+    setResponding(true);
+    try {
+      await action();
+    } finally {
+      setResponding(false);
+    }
+  }
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded p-4 space-y-3 text-black">
+      <div>
+        <h3 className="font-semibold text-purple-900">{inviterName} invited you to this session</h3>
+        <p className="text-sm text-purple-700">
+          Choose which of your characters join before you accept.
+          {expiresAt && ` The invitation expires ${new Date(expiresAt).toLocaleDateString()}.`}
+        </p>
+      </div>
+
+      {loadingCharacters ? (
+        <p className="text-sm text-gray-500">Loading your characters...</p>
+      ) : myCharacters.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          You don&apos;t have any characters yet.{" "}
+          <Link href="/characters/new" className="underline">
+            Create one
+          </Link>{" "}
+          to accept this invitation.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {myCharacters.map((character) => (
+            <label
+              key={character.id}
+              className={`flex items-center gap-2 border rounded px-3 py-2 text-sm cursor-pointer ${
+                selectedIds.includes(character.id) ? "bg-purple-100 border-purple-400" : "bg-white"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(character.id)}
+                onChange={() => toggleCharacter(character.id)}
+              />
+              {character.portrait_url ? (
+                <img
+                  src={character.portrait_url}
+                  alt={character.name}
+                  className="w-6 h-6 rounded-full object-cover"
+                />
+              ) : (
+                <div className="w-6 h-6 rounded-full bg-gray-300 flex items-center justify-center text-xs">
+                  {character.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              {character.name}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => respond(() => onAccept(selectedIds))}
+          disabled={responding || selectedIds.length === 0}
+          className="bg-purple-500 text-white px-4 py-2 rounded text-sm hover:bg-purple-600 disabled:opacity-50"
+        >
+          {responding ? "Saving..." : "Accept & Join"}
+        </button>
+        <button
+          onClick={() => respond(onDecline)}
+          disabled={responding}
+          className="border px-4 py-2 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          Decline
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Which of my characters are in the session, plus the shared NPCs any writer can voice
+function CastEditor({
+  sessionId,
+  userId,
+  characters,
+  npcs,
+  onCharactersChanged,
+  onNpcSaved,
+}: {
+  sessionId: string;
+  userId: string;
+  characters: Array<{ id: string; name: string }>;
+  npcs: SessionNpc[];
+  onCharactersChanged: () => Promise<void>;
+  onNpcSaved: (npc: SessionNpc) => void;
+}) {
+  const [myCharacters, setMyCharacters] = useState<Array<{ id: string; name: string; portrait_url: string | null }>>([]);
+  const [editingNpcId, setEditingNpcId] = useState<string | null>(null);
+  const [npcName, setNpcName] = useState("");
+  const [npcPortrait, setNpcPortrait] = useState("");
+  const [npcNote, setNpcNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [castError, setCastError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function loadCharacters() {
+      const { data } = await supabase
+        .from("characters")
+        .select("id, name, portrait_url")
+        .eq("user_id", userId)
+        .order("name", { ascending: true });
+
+      if (mounted) setMyCharacters(data || []);
+    }
+
+    loadCharacters();
+
+    return () => {
+      mounted = false;
+    };
+  }, [userId]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setCastError(null);
+    try {
+      await action();
+    } catch (err) {
+      setCastError(err instanceof Error ? err.message : "Failed to update the cast");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggleCharacter(characterId: string) {
+    const inSession = characters.some((c) => c.id === characterId);
+    return run(async () => {
+      if (inSession) {
+        if (characters.length === 1) throw new Error("Keep at least one of your characters in the session");
+        await removeSessionCharacter(sessionId, characterId);
+      } else {
+        await addSessionCharacter(sessionId, characterId);
+      }
+      await onCharactersChanged();
+    });
+  }
+
+  function editNpc(npc: SessionNpc | null) {
+    setEditingNpcId(npc ? npc.id : null);
+    setNpcName(npc?.name || "");
+    setNpcPortrait(npc?.portrait_url || "");
+    setNpcNote(npc?.note || "");
+  }
+
+  function saveNpc() {
+    const details = {
+      name: npcName.trim(),
+      portrait_url: npcPortrait.trim() || null,
+      note: npcNote.trim() || null,
+    };
+    return run(async () => {
+      if (!details.name) throw new Error("Give the NPC a name");
+      if (editingNpcId) {
+        await updateSessionNpc(editingNpcId, details);
+        const existing = npcs.find((n) => n.id === editingNpcId);
+        if (existing) onNpcSaved({ ...existing, ...details });
+      } else {
+        onNpcSaved(await createSessionNpc(sessionId, userId, details));
+      }
+      editNpc(null);
+    });
+  }
+
+  function toggleArchived(npc: SessionNpc) {
+    return run(async () => {
+      const archived = !npc.archived_at;
+      await setSessionNpcArchived(npc.id, archived);
+      onNpcSaved({ ...npc, archived_at: archived ? new Date().toISOString() : null });
+    });
+  }
+
+  return (
+    <div className="bg-white border rounded p-3 space-y-3 text-sm text-black">
+      {castError && <p className="text-xs text-red-600">{castError}</p>}
+
+      <div className="space-y-1">
+        <h4 className="font-semibold">Your characters</h4>
+        <div className="flex flex-wrap gap-2">
+          {myCharacters.map((character) => (
+            <label
+              key={character.id}
+              className={`flex items-center gap-2 border rounded px-2 py-1 cursor-pointer ${
+                characters.some((c) => c.id === character.id) ? "bg-purple-100 border-purple-400" : "bg-white"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={characters.some((c) => c.id === character.id)}
+                onChange={() => toggleCharacter(character.id)}
+                disabled={busy}
+              />
+              {character.portrait_url ? (
+                <img
+                  src={character.portrait_url}
+                  alt={character.name}
+                  className="w-5 h-5 rounded-full object-cover"
+                />
+              ) : (
+                <div className="w-5 h-5 rounded-full bg-gray-300 flex items-center justify-center text-[10px]">
+                  {character.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              {character.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <h4 className="font-semibold">NPCs</h4>
+        <p className="text-xs text-gray-500">Shared with everyone in the session. Archived NPCs keep their old posts.</p>
+        {npcs.length > 0 && (
+          <ul className="space-y-1">
+            {npcs.map((npc) => (
+              <li key={npc.id} className={`flex items-center gap-2 ${npc.archived_at ? "text-gray-400" : ""}`}>
+                <span className="font-medium">🎭 {npc.name}</span>
+                {npc.note && <span className="text-xs text-gray-500 truncate">{npc.note}</span>}
+                <button onClick={() => editNpc(npc)} disabled={busy} className="ml-auto text-xs underline">
+                  Edit
+                </button>
+                <button onClick={() => toggleArchived(npc)} disabled={busy} className="text-xs underline">
+                  {npc.archived_at ? "Restore" : "Archive"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-1 pt-1">
+          <div className="flex gap-2">
+            <input
+              value={npcName}
+              onChange={(e) => setNpcName(e.target.value)}
+              maxLength={NPC_NAME_MAX_LENGTH}
+              placeholder="NPC name"
+              className="border rounded px-2 py-1 flex-1"
+            />
+            <input
+              value={npcPortrait}
+              onChange={(e) => setNpcPortrait(e.target.value)}
+              placeholder="Portrait URL (optional)"
+              className="border rounded px-2 py-1 flex-1"
+            />
+          </div>
+          <input
+            value={npcNote}
+            onChange={(e) => setNpcNote(e.target.value)}
+            maxLength={NPC_NOTE_MAX_LENGTH}
+            placeholder="Short note, e.g. the innkeeper, owes Mara a favour"
+            className="border rounded px-2 py-1 w-full"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={saveNpc}
+              disabled={busy || !npcName.trim()}
+              className="bg-purple-500 text-white px-3 py-1 rounded text-xs hover:bg-purple-600 disabled:opacity-50"
+            >
+              {editingNpcId ? "Save NPC" : "Add NPC"}
+            </button>
+            {editingNpcId && (
+              <button onClick={() => editNpc(null)} disabled={busy} className="border px-3 py-1 rounded text-xs">
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Download links for the export route; OOC is only offered to writers. The
+// page only gets here past the content warning, so the links say so.
+function ExportMenu({ sessionId, canIncludeOoc }: { sessionId: string; canIncludeOoc: boolean }) {
+  const [includeOoc, setIncludeOoc] = useState(false);
+
+  return (
+    <details className="relative">
+      <summary className="text-sm border px-3 py-1 rounded hover:bg-gray-50 cursor-pointer list-none">
+        Export
+      </summary>
+      <div className="absolute right-0 mt-1 z-20 w-44 p-2 border rounded bg-white text-black shadow space-y-1">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <a
+            key={format}
+            href={`/session/${sessionId}/export?format=${format}&acknowledged=1${canIncludeOoc && includeOoc ? "&ooc=1" : ""}`}
+            className="block text-sm px-2 py-1 rounded hover:bg-gray-100"
+          >
+            {EXPORT_FORMATS[format].label}
+          </a>
+        ))}
+        {canIncludeOoc && (
+          <label className="flex items-center gap-2 text-xs px-2 pt-1 border-t text-gray-600">
+            <input type="checkbox" checked={includeOoc} onChange={(e) => setIncludeOoc(e.target.checked)} />
+            Include OOC chat
+          </label>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// Spectators see the rating and warnings before a non-SFW transcript
+function ContentWarningGate({
+  session,
+  outsidePreferences,
+  onContinue,
+}: {
+  session: Session;
+  // Above the viewer's rating, or tagged with a warning they've hidden
+  outsidePreferences: boolean;
+  onContinue: () => void;
+}) {
+  const rating = contentRatings[session.content_rating];
+
+  return (
+    <div className="max-w-md mx-auto p-6 mt-16 border rounded bg-white text-black space-y-4 text-center">
+      <h1 className="text-xl font-semibold">{session.name || "Untitled session"}</h1>
+      <div className="flex justify-center">
+        <ContentRatingBadge rating={session.content_rating} />
+      </div>
+      <p className="text-sm text-gray-600">
+        {rating.label}: {rating.description.toLowerCase()}.
+      </p>
+      {session.content_warnings.length > 0 && (
+        <p className="text-sm">
+          <span className="font-medium">Content warnings:</span> {session.content_warnings.join(", ")}
+        </p>
+      )}
+      {outsidePreferences && (
+        <p className="text-xs text-amber-700">
+          This session is outside your{" "}
+          <Link href="/profile/edit" className="underline">
+            content settings
+          </Link>
+          .
+        </p>
+      )}
+      <div className="flex gap-2 justify-center">
+        <Link href="/dashboard" className="border px-4 py-2 rounded hover:bg-gray-50 text-sm">
+          Go back
+        </Link>
+        <button onClick={onContinue} className="bg-black text-white px-4 py-2 rounded text-sm">
+          Continue to session
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// A dice roll in the transcript; the breakdown comes from the server
+function RollCard({
+  roller,
+  portraitUrl,
+  result,
+  createdAt,
+  mine,
+  footer,
+}: {
+  roller: string;
+  portraitUrl: string | null | undefined;
+  result: RollResult;
+  createdAt: string;
+  mine: boolean;
+  footer?: ReactNode;
+}) {
+  return (
+    <div className={`flex flex-col ${mine ? "items-end" : "items-start"}`}>
+      <div className="flex items-center gap-3 border-2 border-amber-300 bg-amber-50 text-amber-900 rounded-lg px-4 py-2 max-w-[75%]">
+        {portraitUrl ? (
+          <img src={portraitUrl} alt={roller} className="w-8 h-8 rounded-full object-cover border" />
+        ) : (
+          <span className="text-2xl">🎲</span>
+        )}
+        <div className="min-w-0">
+          <div className="text-xs">
+            <span className="font-semibold">{roller}</span> rolled <code>{result.expression}</code>
+            {result.label && <span className="italic"> for {result.label}</span>}
+          </div>
+          <div className="text-sm">
+            {formatRoll(result)}
+          </div>
+          <div className="text-xs text-amber-700/70">{new Date(createdAt).toLocaleTimeString()}</div>
+        </div>
+        <div className="text-3xl font-bold tabular-nums pl-2">{result.total}</div>
+      </div>
+      {footer}
+    </div>
+  );
+}
+
+// Table of contents beside the transcript; participants can add breaks from here too
+function SceneContents({
+  scenes,
+  canAdd,
+  onJump,
+  onAdd,
+}: {
+  scenes: SessionScene[];
+  canAdd: boolean;
+  onJump: (messageId: string) => void;
+  onAdd: (kind: SceneKind, title: string) => Promise<void>;
+}) {
+  const [title, setTitle] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function add(kind: SceneKind) {
+    if (!title.trim() || adding) return;
+    setAdding(true);
+    setError(null);
+    try {
+      await onAdd(kind, title.trim());
+      setTitle("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add break");
+    } finally {
+      setAdding(false);
+    }
+  }
+
+  return (
+    <aside className="flex flex-col min-h-0 max-h-full border rounded bg-white text-black">
+      <div className="px-3 py-2 border-b text-xs font-semibold uppercase tracking-wide text-gray-500">Contents</div>
+      <nav className="flex-1 overflow-y-auto py-1">
+        {scenes.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-gray-500">
+            No scenes yet. Add one below or with /scene and /chapter.
+          </p>
+        ) : (
+          scenes.map((scene) => (
+            <button
+              key={scene.id}
+              onClick={() => onJump(scene.id)}
+              className={`block w-full text-left px-3 py-1 text-sm hover:bg-gray-100 truncate ${
+                scene.kind === "chapter" ? "font-semibold" : "pl-6 text-gray-700"
+              }`}
+              title={scene.title}
+            >
+              {scene.title}
+            </button>
+          ))
+        )}
+      </nav>
+      {canAdd && (
+        <div className="border-t p-2 space-y-1">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <input
+            className="w-full border rounded px-2 py-1 text-sm"
+            placeholder="Title…"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={adding}
+          />
+          <div className="flex gap-1">
+            <button
+              onClick={() => add("scene")}
+              disabled={adding || !title.trim()}
+              className="flex-1 text-xs border rounded px-2 py-1 hover:bg-gray-50 disabled:opacity-50"
+            >
+              + Scene
+            </button>
+            <button
+              onClick={() => add("chapter")}
+              disabled={adding || !title.trim()}
+              className="flex-1 text-xs border rounded px-2 py-1 hover:bg-gray-50 disabled:opacity-50"
+            >
+              + Chapter
+            </button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+}
+
+// Every version of an edited message, newest first, each diffed against the one before
+function RevisionHistoryModal({ message, onClose }: { message: SessionMessage; onClose: () => void }) {
+  const [versions, setVersions] = useState<Array<{ body: string; at: string }> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      try {
+        const revisions = await loadMessageRevisions(message.id);
+        if (!mounted) return;
+        // Each revision holds a body that was replaced at its created_at, so it
+        // dates from the previous revision (or the original post)
+        const history = revisions.map((revision, i) => ({
+          body: revision.body,
+          at: i === 0 ? message.created_at : revisions[i - 1].created_at,
+        }));
+        const lastReplaced = revisions.length > 0 ? revisions[revisions.length - 1].created_at : message.created_at;
+        setVersions([...history, { body: message.body, at: message.edited_at || lastReplaced }]);
+      } catch (err) {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to load edit history");
+      }
+    }
+
+    load();
+    return () => {
+      mounted = false;
+    };
+  }, [message]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white text-black rounded-lg p-6 max-w-lg w-full mx-4 max-h-[80vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Edit history</h2>
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-black">
+            Close
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!versions && !error && <p className="text-sm text-gray-600">Loading…</p>}
+
+        {versions && (
+          <ol className="space-y-4">
+            {versions
+              .map((version, i) => ({ ...version, previous: i > 0 ? versions[i - 1].body : null, index: i }))
+              .reverse()
+              .map((version) => (
+                <li key={version.index} className="border rounded p-3">
+                  <div className="text-xs text-gray-500 mb-2">
+                    {version.index === versions.length - 1
+                      ? "Current"
+                      : version.index === 0
+                      ? "Original"
+                      : `Version ${version.index + 1}`}{" "}
+                    · {new Date(version.at).toLocaleString()}
+                  </div>
+                  <p className="text-sm whitespace-pre-line">
+                    {version.previous === null
+                      ? version.body
+                      : diffWords(version.previous, version.body).map((part, i) =>
+                          part.kind === "same" ? (
+                            <span key={i}>{part.text}</span>
+                          ) : part.kind === "added" ? (
+                            <ins key={i} className="bg-green-100 text-green-900 no-underline">
+                              {part.text}
+                            </ins>
+                          ) : (
+                            <del key={i} className="bg-red-100 text-red-800">
+                              {part.text}
+                            </del>
+                          )
+                        )}
+                  </p>
+                </li>
+              ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
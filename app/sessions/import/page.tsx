@@ -0,0 +1,363 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { MAX_SESSION_PARTICIPANTS, SESSION_STYLES } from "@/lib/session";
+import {
+  ParsedLog,
+  SpeakerMapping,
+  importSession,
+  listSpeakers,
+  parseChatLog,
+} from "@/lib/sessionImport";
+import { CONTENT_RATINGS, ContentRating, contentRatings } from "@/lib/contentRatings";
+import WriterPicker from "@/components/WriterPicker";
+import ContentWarningPicker from "@/components/ContentWarningPicker";
+
+type MappedWriter = {
+  user_id: string;
+  name: string;
+};
+
+type CharacterOption = {
+  id: string;
+  name: string;
+};
+
+export default function ImportSessionPage() {
+  const router = useRouter();
+  const [me, setMe] = useState<MappedWriter | null>(null);
+  const [log, setLog] = useState<ParsedLog | null>(null);
+  const [sessionName, setSessionName] = useState("");
+  const [selectedStyle, setSelectedStyle] = useState("fantasy");
+  const [isPublic, setIsPublic] = useState(false);
+  const [contentRating, setContentRating] = useState<ContentRating>("sfw");
+  const [contentWarnings, setContentWarnings] = useState<string[]>([]);
+  // Speaker name in the log -> who wrote it
+  const [writers, setWriters] = useState<Record<string, MappedWriter | null>>({});
+  const [characterIds, setCharacterIds] = useState<Record<string, string | null>>({});
+  // Characters of every writer picked so far, by user id
+  const [charactersByWriter, setCharactersByWriter] = useState<Record<string, CharacterOption[]>>({});
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      const { data: userRes } = await supabase.auth.getUser();
+      if (!userRes.user) {
+        router.push("/login");
+        return;
+      }
+
+      const { data: writer } = await supabase
+        .from("writers")
+        .select("name")
+        .eq("user_id", userRes.user.id)
+        .maybeSingle();
+
+      if (!mounted) return;
+      setMe({ user_id: userRes.user.id, name: writer?.name || "Me" });
+    }
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router]);
+
+  const speakers = log ? listSpeakers(log.lines) : [];
+  const mappedWriterIds = Array.from(
+    new Set(Object.values(writers).filter((w): w is MappedWriter => !!w).map((w) => w.user_id))
+  );
+  // Other writers have to accept before their words can go public
+  const hasOtherWriters = mappedWriterIds.some((id) => id !== me?.user_id);
+
+  async function handleFile(file: File) {
+    setError(null);
+    try {
+      const parsed = parseChatLog(file.name, await file.text());
+      setLog(parsed);
+      setSessionName(parsed.title || file.name.replace(/\.[^.]+$/, ""));
+      setWriters({});
+      setCharacterIds({});
+    } catch (err) {
+      setLog(null);
+      setError(err instanceof Error ? err.message : "Failed to read this file");
+    }
+  }
+
+  async function assignWriter(speaker: string, writer: MappedWriter | null) {
+    setWriters((prev) => ({ ...prev, [speaker]: writer }));
+    setCharacterIds((prev) => ({ ...prev, [speaker]: null }));
+    if (!writer) return;
+
+    let options = charactersByWriter[writer.user_id];
+    if (!options) {
+      const { data, error } = await supabase
+        .from("characters")
+        .select("id, name")
+        .eq("user_id", writer.user_id)
+        .order("name", { ascending: true });
+
+      if (error) {
+        console.error("Error loading characters:", error);
+      }
+      options = data || [];
+      setCharactersByWriter((prev) => ({ ...prev, [writer.user_id]: options! }));
+    }
+
+    // Bots like Tupperbox post under the character's name
+    const sameName = options.find((c) => c.name.toLowerCase() === speaker.toLowerCase());
+    if (sameName) {
+      setCharacterIds((prev) => ({ ...prev, [speaker]: sameName.id }));
+    }
+  }
+
+  async function handleImport() {
+    if (!log || !me) return;
+
+    const unmapped = speakers.filter(({ speaker }) => !writers[speaker]);
+    if (unmapped.length > 0) {
+      setError(`Choose a writer for ${unmapped.map((s) => s.speaker).join(", ")}`);
+      return;
+    }
+    if (new Set([me.user_id, ...mappedWriterIds]).size > MAX_SESSION_PARTICIPANTS) {
+      setError(`A session can have at most ${MAX_SESSION_PARTICIPANTS} writers`);
+      return;
+    }
+
+    const mappings: Record<string, SpeakerMapping> = {};
+    for (const { speaker } of speakers) {
+      mappings[speaker] = { user_id: writers[speaker]!.user_id, character_id: characterIds[speaker] || null };
+    }
+
+    setImporting(true);
+    setError(null);
+    try {
+      const sessionId = await importSession({
+        name: sessionName,
+        style: selectedStyle || null,
+        isPublic: isPublic && !hasOtherWriters,
+        contentRating,
+        contentWarnings,
+        log,
+        speakers: mappings,
+      });
+      router.push(`/session/${sessionId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import session");
+      setImporting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ background: "var(--bg0)", color: "var(--text)" }}>
+      <div className="max-w-3xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Import a Session</h1>
+            <p className="text-secondary mt-1">Bring a roleplay over from a Discord export or a plain-text log</p>
+          </div>
+          <Link
+            href="/sessions"
+            className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            ← Back to Sessions
+          </Link>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Chat log</label>
+          <input
+            type="file"
+            accept=".json,.txt,.log,application/json,text/plain"
+            className="w-full border p-2 rounded text-sm"
+            disabled={importing}
+            onChange={(e) => {
+              if (e.target.files && e.target.files[0]) handleFile(e.target.files[0]);
+            }}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            JSON from DiscordChatExporter and similar tools, or a text file with one <code>Name: message</code> per
+            line (optionally starting with a <code>[timestamp]</code>).
+          </p>
+        </div>
+
+        {log && (
+          <>
+            <div className="text-sm text-gray-600">
+              Found {log.lines.length} messages from {speakers.length}{" "}
+              {speakers.length === 1 ? "speaker" : "speakers"}
+              {log.lines[0].created_at && ` starting ${new Date(log.lines[0].created_at).toLocaleDateString()}`}.
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Session Name</label>
+              <input
+                type="text"
+                className="w-full border rounded p-2"
+                value={sessionName}
+                onChange={(e) => setSessionName(e.target.value)}
+                disabled={importing}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold">Speakers</h2>
+                <p className="text-xs text-gray-500">
+                  Match everyone in the log to a writer. Lines from a speaker with a character become narration;
+                  without one, or when they start with <code>((</code>, <code>{"//"}</code> or <code>OOC</code>, they
+                  become OOC chat. Other writers are invited and can accept as usual.
+                </p>
+              </div>
+
+              {speakers.map(({ speaker, count }) => {
+                const writer = writers[speaker];
+                const options = writer ? charactersByWriter[writer.user_id] || [] : [];
+                return (
+                  <div key={speaker} className="p-3 border rounded space-y-2 bg-white/50">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{speaker}</span>
+                      <span className="text-xs text-gray-500">
+                        {count} {count === 1 ? "message" : "messages"}
+                      </span>
+                    </div>
+
+                    {writer ? (
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm bg-gray-100 border px-2 py-1 rounded flex items-center gap-1 text-black">
+                          {writer.user_id === me?.user_id ? `${writer.name} (you)` : writer.name}
+                          <button
+                            type="button"
+                            onClick={() => assignWriter(speaker, null)}
+                            className="text-gray-500 hover:text-black"
+                            disabled={importing}
+                          >
+                            ✕
+                          </button>
+                        </span>
+                        <select
+                          className="border rounded p-1 text-sm bg-white text-black"
+                          value={characterIds[speaker] || ""}
+                          onChange={(e) =>
+                            setCharacterIds((prev) => ({ ...prev, [speaker]: e.target.value || null }))
+                          }
+                          disabled={importing}
+                        >
+                          <option value="">No character (OOC only)</option>
+                          {options.map((character) => (
+                            <option key={character.id} value={character.id}>
+                              {character.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {me && (
+                          <button
+                            type="button"
+                            onClick={() => assignWriter(speaker, me)}
+                            className="text-sm border px-3 py-1 rounded hover:bg-gray-50"
+                            disabled={importing}
+                          >
+                            That&apos;s me
+                          </button>
+                        )}
+                        <WriterPicker
+                          excludeUserIds={me ? [me.user_id] : []}
+                          onSelect={(picked) => assignWriter(speaker, { user_id: picked.user_id, name: picked.name })}
+                          placeholder="Or find the writer by name..."
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Style</label>
+              <div className="grid grid-cols-4 gap-2">
+                {SESSION_STYLES.map((style) => (
+                  <button
+                    key={style.value}
+                    onClick={() => setSelectedStyle(style.value)}
+                    className={`p-3 border rounded text-center ${
+                      selectedStyle === style.value
+                        ? "bg-black text-white border-black"
+                        : "bg-white text-black hover:bg-gray-50"
+                    }`}
+                  >
+                    <div className="text-2xl mb-1">{style.emoji}</div>
+                    <div className="text-xs">{style.label}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Content Rating</label>
+              <div className="grid grid-cols-3 gap-2">
+                {CONTENT_RATINGS.map((rating) => (
+                  <button
+                    key={rating}
+                    type="button"
+                    onClick={() => setContentRating(rating)}
+                    className={`p-2 border rounded text-center ${
+                      contentRating === rating
+                        ? "bg-black text-white border-black"
+                        : "bg-white text-black hover:bg-gray-50"
+                    }`}
+                  >
+                    <div className="text-sm font-medium">{contentRatings[rating].label}</div>
+                    <div className="text-[10px] opacity-70">{contentRatings[rating].description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Content Warnings (optional)</label>
+              <ContentWarningPicker selected={contentWarnings} onChange={setContentWarnings} disabled={importing} />
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={isPublic && !hasOtherWriters}
+                  onChange={(e) => setIsPublic(e.target.checked)}
+                  disabled={hasOtherWriters}
+                  className="rounded"
+                />
+                <span className="text-sm">Allow public viewing (narration only)</span>
+              </label>
+              {hasOtherWriters && (
+                <p className="text-xs text-secondary mt-1">
+                  Imports with other writers start private. Make the session public once everyone has accepted.
+                </p>
+              )}
+            </div>
+
+            <button
+              onClick={handleImport}
+              className="w-full bg-fuchsia-500 text-white px-4 py-2 rounded hover:bg-fuchsia-600 disabled:opacity-50"
+              disabled={importing || !me}
+            >
+              {importing ? "Importing..." : `Import ${log.lines.length} messages`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
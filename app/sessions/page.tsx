@@ -4,21 +4,40 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  SessionStatus,
+  formatParticipantNames,
+  loadMySessionIds,
+  loadParticipantsForSessions,
+  sessionStatuses,
+} from "@/lib/session";
+import SessionStatusBadge from "@/components/SessionStatusBadge";
+
+// Statuses offered as filters, in display order
+const FILTER_STATUSES: SessionStatus[] = ["active", "paused", "pending", "closed"];
+
+// Sessions under way first, then waiting on invitees, then finished ones
+const STATUS_RANK: Record<SessionStatus, number> = {
+  active: 0,
+  paused: 0,
+  pending: 1,
+  closed: 2,
+  declined: 3,
+  expired: 3,
+};
 
 type Session = {
   id: string;
-  user_a: string;
-  user_b: string;
-  status: "active" | "paused" | "closed";
+  status: SessionStatus;
   created_at: string;
   last_message_at: string | null;
   name: string | null;
-  other_user: {
+  imported_from: string | null;
+  other_users: Array<{
     id: string;
     name: string;
-    email: string;
     portrait_url: string | null;
-  };
+  }>;
   latest_message: {
     id: string;
     sender_id: string;
@@ -34,7 +53,7 @@ export default function SessionsPage() {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [currentWriter, setCurrentWriter] = useState<{ name: string; portrait_url: string | null } | null>(null);
-  const [filter, setFilter] = useState<"all" | "active" | "paused" | "closed">("all");
+  const [filter, setFilter] = useState<"all" | SessionStatus>("all");
 
   useEffect(() => {
     let mounted = true;
@@ -65,11 +84,12 @@ export default function SessionsPage() {
           setCurrentWriter(writerData);
         }
 
-        // Load all sessions (including closed)
+        // Load all sessions I take part in or am invited to (including closed)
+        const mySessionIds = await loadMySessionIds(userId, { includePending: true });
         const { data: sessionsData, error: sessionsError } = await supabase
           .from("rp_sessions")
-          .select("id, user_a, user_b, status, created_at, last_message_at, name")
-          .or(`user_a.eq.${userId},user_b.eq.${userId}`)
+          .select("id, status, created_at, last_message_at, name, imported_from")
+          .in("id", mySessionIds)
           .order("created_at", { ascending: false });
 
         if (sessionsError) {
@@ -86,19 +106,14 @@ export default function SessionsPage() {
           return;
         }
 
+        const participantsBySession = await loadParticipantsForSessions(sessionsData.map((s) => s.id));
+
         // Load session details with writer info and latest messages
         const sessionsWithDetails = await Promise.all(
           sessionsData.map(async (session) => {
-            const otherUserId = session.user_a === userId ? session.user_b : session.user_a;
-
-            // Fetch writer profile for the other user
-            const { data: otherWriter } = await supabase
-              .from("writers")
-              .select("name, portrait_url")
-              .eq("user_id", otherUserId)
-              .maybeSingle();
-
-            const otherUserName = otherWriter?.name || `User ${otherUserId.slice(0, 8)}`;
+            const otherUsers = (participantsBySession[session.id] || [])
+              .filter((p) => p.user_id !== userId)
+              .map((p) => ({ id: p.user_id, name: p.name, portrait_url: p.portrait_url }));
 
             // Get latest message
             const { data: latestMsg } = await supabase
@@ -129,38 +144,32 @@ export default function SessionsPage() {
 
             let unreadCount = 0;
             if (readData && readData.last_read_at) {
-              // Count messages from other user that are newer than last_read_at
+              // Count messages from other participants that are newer than last_read_at
               const { count } = await supabase
                 .from("rp_session_messages")
                 .select("id", { count: "exact", head: true })
                 .eq("session_id", session.id)
-                .eq("sender_id", otherUserId)
+                .neq("sender_id", userId)
                 .gt("created_at", readData.last_read_at);
               unreadCount = count || 0;
             } else {
-              // No read record - count all messages from other user
+              // No read record - count all messages from other participants
               const { count } = await supabase
                 .from("rp_session_messages")
                 .select("id", { count: "exact", head: true })
                 .eq("session_id", session.id)
-                .eq("sender_id", otherUserId);
+                .neq("sender_id", userId);
               unreadCount = count || 0;
             }
 
             return {
               id: session.id,
-              user_a: session.user_a,
-              user_b: session.user_b,
-              status: session.status as "active" | "paused" | "closed",
+              status: session.status as Session["status"],
               created_at: session.created_at,
               last_message_at: session.last_message_at,
               name: session.name,
-              other_user: {
-                id: otherUserId,
-                name: otherUserName,
-                email: otherUserName,
-                portrait_url: otherWriter?.portrait_url || null,
-              },
+              imported_from: session.imported_from,
+              other_users: otherUsers,
               latest_message: latestMsg ? {
                 id: latestMsg.id,
                 sender_id: latestMsg.sender_id,
@@ -175,8 +184,9 @@ export default function SessionsPage() {
         // Sort sessions: active by last_message_at, closed by created_at
         sessionsWithDetails.sort((a, b) => {
           // Active and paused sessions first, sorted by last_message_at (most recent first)
-          if ((a.status === "active" || a.status === "paused") && b.status === "closed") return -1;
-          if (a.status === "closed" && (b.status === "active" || b.status === "paused")) return 1;
+          if (STATUS_RANK[a.status] !== STATUS_RANK[b.status]) {
+            return STATUS_RANK[a.status] - STATUS_RANK[b.status];
+          }
 
           // Within active/paused: sort by last_message_at or latest_message
           if (a.status === "active" || a.status === "paused") {
@@ -198,12 +208,8 @@ export default function SessionsPage() {
             }
           }
 
-          // Closed sessions: sort by created_at (most recent first)
-          if (a.status === "closed" && b.status === "closed") {
-            return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-          }
-
-          return 0;
+          // Everything else: sort by created_at (most recent first)
+          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         });
 
         if (mounted) {
@@ -256,19 +262,6 @@ export default function SessionsPage() {
     return session.status === filter;
   });
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "active":
-        return <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-700 font-medium">Active</span>;
-      case "paused":
-        return <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-700 font-medium">Paused</span>;
-      case "closed":
-        return <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600 font-medium">Closed</span>;
-      default:
-        return null;
-    }
-  };
-
   return (
     <div className="min-h-screen" style={{ background: "var(--bg0)", color: "var(--text)" }}>
       <div className="max-w-7xl mx-auto p-6 space-y-6">
@@ -278,12 +271,20 @@ export default function SessionsPage() {
             <h1 className="text-3xl font-bold">My Sessions</h1>
             <p className="text-secondary mt-1">View all your roleplay sessions, including closed ones</p>
           </div>
-          <Link
-            href="/dashboard"
-            className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-50 transition-colors"
-          >
-            ← Back to Dashboard
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/sessions/import"
+              className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-50 transition-colors"
+            >
+              Import from Discord
+            </Link>
+            <Link
+              href="/dashboard"
+              className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-50 transition-colors"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
         </div>
 
         {/* Filter buttons */}
@@ -298,36 +299,19 @@ export default function SessionsPage() {
           >
             All ({sessions.length})
           </button>
-          <button
-            onClick={() => setFilter("active")}
-            className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
-              filter === "active"
-                ? "bg-fuchsia-500 text-white"
-                : "bg-white border border-gray-300 hover:bg-gray-50"
-            }`}
-          >
-            Active ({sessions.filter((s) => s.status === "active").length})
-          </button>
-          <button
-            onClick={() => setFilter("paused")}
-            className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
-              filter === "paused"
-                ? "bg-fuchsia-500 text-white"
-                : "bg-white border border-gray-300 hover:bg-gray-50"
-            }`}
-          >
-            Paused ({sessions.filter((s) => s.status === "paused").length})
-          </button>
-          <button
-            onClick={() => setFilter("closed")}
-            className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
-              filter === "closed"
-                ? "bg-fuchsia-500 text-white"
-                : "bg-white border border-gray-300 hover:bg-gray-50"
-            }`}
-          >
-            Closed ({sessions.filter((s) => s.status === "closed").length})
-          </button>
+          {FILTER_STATUSES.map((status) => (
+            <button
+              key={status}
+              onClick={() => setFilter(status)}
+              className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
+                filter === status
+                  ? "bg-fuchsia-500 text-white"
+                  : "bg-white border border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {sessionStatuses[status].label} ({sessions.filter((s) => s.status === status).length})
+            </button>
+          ))}
         </div>
 
         {/* Sessions list */}
@@ -365,15 +349,26 @@ export default function SessionsPage() {
                         {currentWriter?.name?.charAt(0).toUpperCase() || "U"}
                       </div>
                     )}
-                    {session.other_user.portrait_url ? (
-                      <img
-                        src={session.other_user.portrait_url}
-                        alt={session.other_user.name}
-                        className="w-10 h-10 rounded-full object-cover border-2 border-white"
-                      />
-                    ) : (
-                      <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center text-sm text-gray-600 border-2 border-white">
-                        {session.other_user.name.charAt(0).toUpperCase()}
+                    {session.other_users.slice(0, 3).map((user) =>
+                      user.portrait_url ? (
+                        <img
+                          key={user.id}
+                          src={user.portrait_url}
+                          alt={user.name}
+                          className="w-10 h-10 rounded-full object-cover border-2 border-white"
+                        />
+                      ) : (
+                        <div
+                          key={user.id}
+                          className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center text-sm text-gray-600 border-2 border-white"
+                        >
+                          {user.name.charAt(0).toUpperCase()}
+                        </div>
+                      )
+                    )}
+                    {session.other_users.length > 3 && (
+                      <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-xs text-gray-600 border-2 border-white">
+                        +{session.other_users.length - 3}
                       </div>
                     )}
                   </div>
@@ -382,9 +377,12 @@ export default function SessionsPage() {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <div className="font-semibold text-lg truncate">
-                        {session.name || `${session.other_user.name}`}
+                        {session.name || formatParticipantNames(session.other_users)}
                       </div>
-                      {getStatusBadge(session.status)}
+                      <SessionStatusBadge status={session.status} />
+                      {session.imported_from && (
+                        <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">Imported</span>
+                      )}
                       {session.unread_count > 0 && (
                         <span className="bg-fuchsia-500 text-white text-xs px-2 py-0.5 rounded-full font-semibold">
                           {session.unread_count}
@@ -392,7 +390,7 @@ export default function SessionsPage() {
                       )}
                     </div>
                     <div className="text-sm text-gray-600 mb-2">
-                      With {session.other_user.name}
+                      With {formatParticipantNames(session.other_users)}
                     </div>
                     {session.latest_message && (
                       <div className="text-sm text-gray-700 truncate mb-2">
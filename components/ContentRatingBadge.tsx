@@ -0,0 +1,17 @@
+import { ContentRating, contentRatings } from "@/lib/contentRatings";
+
+// Rating pill for public session listings and the session header; warnings show on hover
+export default function ContentRatingBadge({ rating, warnings = [] }: { rating: ContentRating; warnings?: string[] }) {
+  const info = contentRatings[rating];
+  if (!info) return null;
+
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded font-medium ${info.badgeClass}`}
+      title={warnings.length > 0 ? `Content warnings: ${warnings.join(", ")}` : info.description}
+    >
+      {info.label}
+      {warnings.length > 0 && " ⚠"}
+    </span>
+  );
+}
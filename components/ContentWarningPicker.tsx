@@ -0,0 +1,33 @@
+import { CONTENT_WARNINGS } from "@/lib/contentRatings";
+
+// Toggleable chips for the content-warning tags
+export default function ContentWarningPicker({
+  selected,
+  onChange,
+  disabled = false,
+}: {
+  selected: string[];
+  onChange: (warnings: string[]) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {CONTENT_WARNINGS.map((warning) => {
+        const isSelected = selected.includes(warning);
+        return (
+          <button
+            key={warning}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(isSelected ? selected.filter((w) => w !== warning) : [...selected, warning])}
+            className={`text-xs px-2 py-1 rounded border disabled:opacity-50 ${
+              isSelected ? "bg-black text-white border-black" : "bg-white text-black hover:bg-gray-50"
+            }`}
+          >
+            {warning}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
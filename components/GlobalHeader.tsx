@@ -70,6 +70,9 @@ export default function GlobalHeader() {
           RP Platform
         </Link>
         <div className="flex items-center gap-4">
+          <Link href="/search" className="text-sm text-gray-600 hover:text-gray-900">
+            Search
+          </Link>
           <Link
             href={`/profile/${currentUserId}`}
             className="flex items-center gap-2 hover:opacity-80 transition-opacity"
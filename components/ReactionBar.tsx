@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { MessageReaction, REACTION_EMOJIS } from "@/lib/reactions";
+
+type ReactionCount = { emoji: string; count: number; mine: MessageReaction | null };
+
+function countByEmoji(reactions: MessageReaction[], me: string | null): ReactionCount[] {
+  const counts = new Map<string, ReactionCount>();
+  for (const reaction of reactions) {
+    const entry = counts.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, mine: null };
+    entry.count += 1;
+    if (reaction.user_id === me) entry.mine = reaction;
+    counts.set(reaction.emoji, entry);
+  }
+  return Array.from(counts.values());
+}
+
+// Reaction chips under a chat message, plus a picker. Spectator reactions
+// (public sessions) are shown as a separate, quieter group.
+export default function ReactionBar({
+  reactions,
+  me,
+  canReact,
+  onToggle,
+  align = "start",
+}: {
+  reactions: MessageReaction[];
+  me: string | null;
+  canReact: boolean;
+  // Pass the existing reaction to remove it, or null to add the emoji
+  onToggle: (emoji: string, existing: MessageReaction | null) => void;
+  align?: "start" | "end";
+}) {
+  const [picking, setPicking] = useState(false);
+
+  const writers = countByEmoji(reactions.filter((r) => !r.is_spectator), me);
+  const audience = countByEmoji(reactions.filter((r) => r.is_spectator), me);
+  const mineByEmoji = new Map(reactions.filter((r) => r.user_id === me).map((r) => [r.emoji, r]));
+
+  if (writers.length === 0 && audience.length === 0 && !canReact) return null;
+
+  const chip = (entry: ReactionCount, spectator: boolean) => (
+    <button
+      key={`${spectator ? "a" : "w"}-${entry.emoji}`}
+      type="button"
+      disabled={!canReact}
+      onClick={() => onToggle(entry.emoji, entry.mine)}
+      className={`text-xs px-1.5 py-0.5 rounded-full border flex items-center gap-1 ${
+        entry.mine ? "bg-blue-50 border-blue-300" : "bg-white border-gray-200"
+      } ${spectator ? "opacity-70" : ""} disabled:cursor-default`}
+    >
+      <span>{entry.emoji}</span>
+      <span className="text-gray-600">{entry.count}</span>
+    </button>
+  );
+
+  return (
+    <div className={`relative flex flex-wrap items-center gap-1 mt-1 ${align === "end" ? "justify-end" : ""}`}>
+      {writers.map((entry) => chip(entry, false))}
+      {audience.length > 0 && (
+        <span className="flex items-center gap-1 pl-1 border-l border-gray-200" title="Reactions from readers">
+          <span className="text-[10px] text-gray-400">Readers</span>
+          {audience.map((entry) => chip(entry, true))}
+        </span>
+      )}
+      {canReact && (
+        <button
+          type="button"
+          onClick={() => setPicking(!picking)}
+          className="text-xs px-1.5 py-0.5 rounded-full border border-dashed border-gray-300 text-gray-400 hover:text-gray-600"
+          title="Add reaction"
+        >
+          +
+        </button>
+      )}
+      {picking && (
+        <div
+          className={`absolute top-full mt-1 z-20 flex gap-1 border rounded bg-white shadow px-2 py-1 ${
+            align === "end" ? "right-0" : "left-0"
+          }`}
+        >
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                setPicking(false);
+                onToggle(emoji, mineByEmoji.get(emoji) || null);
+              }}
+              className={`text-base px-1 rounded hover:bg-gray-100 ${mineByEmoji.has(emoji) ? "bg-blue-50" : ""}`}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
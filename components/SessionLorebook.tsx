@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  LORE_BODY_MAX_LENGTH,
+  LORE_TITLE_MAX_LENGTH,
+  LoreEntry,
+  PinnedMessage,
+  SessionPin,
+  createLoreEntry,
+  deleteLoreEntry,
+  loadLoreEntries,
+  loadPinnedMessages,
+  updateLoreEntry,
+} from "@/lib/sessionLore";
+
+// Writers' reference panel next to the transcript: the session lorebook and
+// the pinned messages. Lore entries are loaded and kept live here; pins come
+// from the page, which also needs them for the per-message Pin buttons.
+export default function SessionLorebook({
+  sessionId,
+  me,
+  canEdit,
+  pins,
+  onJump,
+  onUnpin,
+}: {
+  sessionId: string;
+  me: string | null;
+  // Current writers; people who left can still read
+  canEdit: boolean;
+  pins: SessionPin[];
+  onJump: (messageId: string) => void;
+  onUnpin: (messageId: string) => Promise<void>;
+}) {
+  const [tab, setTab] = useState<"lore" | "pins">("lore");
+  const [entries, setEntries] = useState<LoreEntry[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  // "new" while adding an entry
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [pinned, setPinned] = useState<PinnedMessage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      try {
+        const lore = await loadLoreEntries(sessionId);
+        if (mounted) setEntries(lore);
+      } catch (err) {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to load the lorebook");
+      }
+    }
+
+    load();
+
+    const channel = supabase
+      .channel(`session_lore:${sessionId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "rp_session_lore_entries", filter: `session_id=eq.${sessionId}` },
+        (payload) => setEntries((prev) => withEntry(prev, payload.new as LoreEntry))
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "rp_session_lore_entries", filter: `session_id=eq.${sessionId}` },
+        (payload) => setEntries((prev) => withEntry(prev, payload.new as LoreEntry))
+      )
+      .on(
+        // Delete events can't be filtered and only carry the primary key
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "rp_session_lore_entries" },
+        (payload) => {
+          const removedId = (payload.old as { id?: string }).id;
+          if (removedId) setEntries((prev) => prev.filter((e) => e.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  const pinnedIds = pins.map((p) => p.message_id).join(",");
+
+  useEffect(() => {
+    let mounted = true;
+
+    loadPinnedMessages(pinnedIds ? pinnedIds.split(",") : [])
+      .then((rows) => {
+        if (mounted) setPinned(rows);
+      })
+      .catch((err) => {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to load pinned messages");
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [pinnedIds]);
+
+  function startEdit(entry: LoreEntry | null) {
+    setEditingId(entry ? entry.id : "new");
+    setTitle(entry?.title || "");
+    setBody(entry?.body || "");
+    setError(null);
+  }
+
+  async function save() {
+    if (!me || !editingId || !title.trim() || saving) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const details = { title: title.trim(), body: body.trim() };
+      const entry =
+        editingId === "new"
+          ? await createLoreEntry(sessionId, me, details)
+          : await updateLoreEntry(editingId, details);
+      setEntries((prev) => withEntry(prev, entry));
+      setOpenId(entry.id);
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save entry");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(entry: LoreEntry) {
+    if (!confirm(`Delete "${entry.title}" from the lorebook?`)) return;
+
+    setError(null);
+    try {
+      await deleteLoreEntry(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete entry");
+    }
+  }
+
+  async function unpin(messageId: string) {
+    setError(null);
+    try {
+      await onUnpin(messageId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unpin");
+    }
+  }
+
+  const pinnedById = new Map(pinned.map((m) => [m.id, m]));
+
+  return (
+    <aside className="flex flex-col min-h-0 h-full border rounded bg-white text-black">
+      <div className="flex border-b text-xs font-semibold uppercase tracking-wide">
+        <button
+          onClick={() => setTab("lore")}
+          className={`flex-1 px-3 py-2 ${tab === "lore" ? "text-black" : "text-gray-400"}`}
+        >
+          Lorebook
+        </button>
+        <button
+          onClick={() => setTab("pins")}
+          className={`flex-1 px-3 py-2 ${tab === "pins" ? "text-black" : "text-gray-400"}`}
+        >
+          Pinned{pins.length > 0 && ` (${pins.length})`}
+        </button>
+      </div>
+
+      {error && <p className="px-3 pt-2 text-xs text-red-600">{error}</p>}
+
+      {tab === "lore" ? (
+        <div className="flex-1 min-h-0 overflow-y-auto px-3 py-2 space-y-2">
+          {editingId ? (
+            <div className="space-y-1">
+              <input
+                className="w-full border rounded px-2 py-1 text-sm"
+                placeholder="Title, e.g. The Silver Court"
+                value={title}
+                maxLength={LORE_TITLE_MAX_LENGTH}
+                onChange={(e) => setTitle(e.target.value)}
+                autoFocus
+              />
+              <textarea
+                className="w-full border rounded px-2 py-1 text-sm"
+                rows={6}
+                placeholder="World facts, relationships, open threads…"
+                value={body}
+                maxLength={LORE_BODY_MAX_LENGTH}
+                onChange={(e) => setBody(e.target.value)}
+              />
+              <div className="flex gap-1 justify-end text-xs">
+                <button className="border rounded px-2 py-1" onClick={() => setEditingId(null)} disabled={saving}>
+                  Cancel
+                </button>
+                <button
+                  className="bg-black text-white rounded px-2 py-1 disabled:opacity-50"
+                  onClick={save}
+                  disabled={saving || !title.trim()}
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {entries.length === 0 ? (
+                <p className="text-xs text-gray-500">
+                  Nothing written down yet. Keep world facts, relationships and plot threads here.
+                </p>
+              ) : (
+                entries.map((entry) => (
+                  <div key={entry.id} className="text-sm">
+                    <button
+                      className="w-full text-left font-semibold truncate"
+                      onClick={() => setOpenId(openId === entry.id ? null : entry.id)}
+                    >
+                      {openId === entry.id ? "▾" : "▸"} {entry.title}
+                    </button>
+                    {openId === entry.id && (
+                      <div className="pl-3 space-y-1">
+                        <p className="whitespace-pre-line text-gray-700">{entry.body || "(empty)"}</p>
+                        <p className="text-[10px] text-gray-400">
+                          Updated {new Date(entry.updated_at).toLocaleDateString()}
+                          {canEdit && (
+                            <>
+                              <button className="ml-2 underline" onClick={() => startEdit(entry)}>
+                                Edit
+                              </button>
+                              <button className="ml-2 underline" onClick={() => remove(entry)}>
+                                Delete
+                              </button>
+                            </>
+                          )}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+              {canEdit && (
+                <button className="text-xs underline" onClick={() => startEdit(null)}>
+                  + Add entry
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto py-1">
+          {pins.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-gray-500">
+              No pinned messages. Use Pin under a message to keep it handy.
+            </p>
+          ) : (
+            pins.map((pin) => {
+              const message = pinnedById.get(pin.message_id);
+              return (
+                <div key={pin.message_id} className="group px-3 py-1 hover:bg-gray-50">
+                  <button className="w-full text-left text-sm" onClick={() => onJump(pin.message_id)}>
+                    <span className="line-clamp-2">
+                      {!message ? "…" : message.deleted_at ? "(deleted message)" : message.body}
+                    </span>
+                    {message && (
+                      <span className="block text-[10px] text-gray-400">
+                        {new Date(message.created_at).toLocaleDateString()}
+                      </span>
+                    )}
+                  </button>
+                  {canEdit && (
+                    <button
+                      className="hidden group-hover:inline text-[10px] text-gray-500 underline"
+                      onClick={() => unpin(pin.message_id)}
+                    >
+                      Unpin
+                    </button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </aside>
+  );
+}
+
+// Add or replace an entry, keeping the list alphabetical
+function withEntry(entries: LoreEntry[], entry: LoreEntry): LoreEntry[] {
+  return [...entries.filter((e) => e.id !== entry.id), entry].sort((a, b) => a.title.localeCompare(b.title));
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  SLOT_NOTE_MAX_LENGTH,
+  ScheduleSlot,
+  WriterSchedule,
+  cancelSessionSlot,
+  confirmSessionSlot,
+  formatSlotRange,
+  loadSessionSlots,
+  loadWriterSchedules,
+  missingAvailability,
+  proposeSessionSlot,
+  suggestOverlappingSlots,
+} from "@/lib/schedule";
+
+const DURATIONS = [30, 60, 90, 120, 180, 240];
+
+// Planned writing times for a session: what's been proposed and confirmed,
+// times that suit every writer's weekly availability, and a form to propose
+// another. Slots are loaded and kept live here.
+export default function SessionSchedule({
+  sessionId,
+  me,
+  writers,
+}: {
+  sessionId: string;
+  me: string;
+  // Current writers, me included
+  writers: Array<{ user_id: string; name: string }>;
+}) {
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
+  const [schedules, setSchedules] = useState<WriterSchedule[]>([]);
+  const [suggestions, setSuggestions] = useState<Array<{ start: Date; end: Date }>>([]);
+  const [startsAt, setStartsAt] = useState("");
+  const [duration, setDuration] = useState(120);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [busySlotId, setBusySlotId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const writerIds = writers.map((w) => w.user_id).join(",");
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      try {
+        const [sessionSlots, writerSchedules] = await Promise.all([
+          loadSessionSlots(sessionId),
+          loadWriterSchedules(writerIds ? writerIds.split(",") : []),
+        ]);
+        if (!mounted) return;
+        setSlots(sessionSlots);
+        setSchedules(writerSchedules);
+        setSuggestions(suggestOverlappingSlots(writerSchedules));
+      } catch (err) {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to load the schedule");
+      }
+    }
+
+    load();
+
+    const channel = supabase
+      .channel(`session_schedule:${sessionId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "rp_session_schedule_slots", filter: `session_id=eq.${sessionId}` },
+        (payload) => setSlots((prev) => withSlot(prev, payload.new as ScheduleSlot))
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "rp_session_schedule_slots", filter: `session_id=eq.${sessionId}` },
+        (payload) => setSlots((prev) => withSlot(prev, payload.new as ScheduleSlot))
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, writerIds]);
+
+  async function propose() {
+    if (!startsAt || saving) return;
+
+    const start = new Date(startsAt);
+    if (Number.isNaN(start.getTime()) || start.getTime() <= Date.now()) {
+      setError("Pick a time in the future");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const slot = await proposeSessionSlot(sessionId, me, {
+        startsAt: start,
+        endsAt: new Date(start.getTime() + duration * 60000),
+        note,
+      });
+      setSlots((prev) => withSlot(prev, slot));
+      setStartsAt("");
+      setNote("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to propose a time");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function respond(slot: ScheduleSlot, action: "confirm" | "cancel") {
+    if (action === "cancel" && !confirm(`Call off ${formatSlotRange(slot.starts_at, slot.ends_at)}?`)) return;
+
+    setBusySlotId(slot.id);
+    setError(null);
+    try {
+      if (action === "confirm") {
+        await confirmSessionSlot(slot.id);
+      } else {
+        await cancelSessionSlot(slot.id);
+        setSlots((prev) => prev.filter((s) => s.id !== slot.id));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update the time");
+    } finally {
+      setBusySlotId(null);
+    }
+  }
+
+  function pickSuggestion(suggestion: { start: Date; end: Date }) {
+    const minutes = Math.round((suggestion.end.getTime() - suggestion.start.getTime()) / 60000);
+    setStartsAt(toLocalInput(suggestion.start));
+    setDuration(DURATIONS.filter((d) => d <= minutes).pop() || DURATIONS[0]);
+  }
+
+  const nameOf = (userId: string | null) => writers.find((w) => w.user_id === userId)?.name || "A writer";
+  const withoutAvailability = missingAvailability(schedules);
+
+  return (
+    <div className="p-3 border rounded space-y-3 bg-white text-black text-sm">
+      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">Writing times</div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {slots.length === 0 ? (
+        <p className="text-xs text-gray-500">Nothing planned yet. Propose a time below.</p>
+      ) : (
+        <ul className="space-y-1">
+          {slots.map((slot) => {
+            const canConfirm = slot.status === "proposed" && (slot.proposed_by !== me || writers.length === 1);
+            return (
+              <li key={slot.id} className="flex items-center gap-2">
+                <span className={slot.status === "confirmed" ? "font-semibold" : ""}>
+                  {slot.status === "confirmed" ? "✓" : "?"} {formatSlotRange(slot.starts_at, slot.ends_at)}
+                </span>
+                <span className="text-xs text-gray-500 truncate">
+                  {slot.status === "confirmed"
+                    ? `confirmed by ${nameOf(slot.confirmed_by)}`
+                    : `proposed by ${slot.proposed_by === me ? "you" : nameOf(slot.proposed_by)}`}
+                  {slot.note && ` · ${slot.note}`}
+                </span>
+                <span className="ml-auto flex gap-1 flex-shrink-0">
+                  {canConfirm && (
+                    <button
+                      className="bg-black text-white rounded px-2 py-0.5 text-xs disabled:opacity-50"
+                      onClick={() => respond(slot, "confirm")}
+                      disabled={busySlotId === slot.id}
+                    >
+                      Confirm
+                    </button>
+                  )}
+                  <button
+                    className="border rounded px-2 py-0.5 text-xs disabled:opacity-50"
+                    onClick={() => respond(slot, "cancel")}
+                    disabled={busySlotId === slot.id}
+                  >
+                    {slot.status === "confirmed" ? "Call off" : slot.proposed_by === me ? "Withdraw" : "Decline"}
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs text-gray-500">Everyone&apos;s free:</div>
+          <div className="flex flex-wrap gap-1">
+            {suggestions.map((suggestion) => (
+              <button
+                key={suggestion.start.toISOString()}
+                className="border rounded px-2 py-0.5 text-xs hover:bg-gray-50"
+                onClick={() => pickSuggestion(suggestion)}
+              >
+                {formatSlotRange(suggestion.start, suggestion.end)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {withoutAvailability.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {withoutAvailability.some((w) => w.user_id === me) ? (
+            <>
+              <Link href="/profile/edit" className="underline">
+                Add your weekly availability
+              </Link>{" "}
+              to get suggested times.
+            </>
+          ) : (
+            `${withoutAvailability.map((w) => w.name).join(", ")} ${
+              withoutAvailability.length === 1 ? "hasn't" : "haven't"
+            } shared weekly availability yet, so suggestions leave them out.`
+          )}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="datetime-local"
+          className="border rounded px-2 py-1"
+          value={startsAt}
+          min={toLocalInput(new Date())}
+          onChange={(e) => setStartsAt(e.target.value)}
+        />
+        <select
+          className="border rounded px-2 py-1 bg-white"
+          value={duration}
+          onChange={(e) => setDuration(Number(e.target.value))}
+        >
+          {DURATIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+            </option>
+          ))}
+        </select>
+        <input
+          className="flex-1 min-w-[8rem] border rounded px-2 py-1"
+          placeholder="Note (optional)"
+          value={note}
+          maxLength={SLOT_NOTE_MAX_LENGTH}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          className="bg-black text-white rounded px-3 py-1 disabled:opacity-50"
+          onClick={propose}
+          disabled={saving || !startsAt}
+        >
+          {saving ? "Proposing..." : "Propose"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Add or replace a slot, dropping cancelled ones and keeping the list in time order
+function withSlot(slots: ScheduleSlot[], slot: ScheduleSlot): ScheduleSlot[] {
+  const rest = slots.filter((s) => s.id !== slot.id);
+  if (slot.status === "cancelled") return rest;
+  return [...rest, slot].sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+}
+
+// Value for a datetime-local input, in the browser's timezone
+function toLocalInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+}
@@ -0,0 +1,13 @@
+import { SessionStatus, sessionStatuses } from "@/lib/session";
+
+// Status pill used by every session list and header
+export default function SessionStatusBadge({ status }: { status: SessionStatus }) {
+  const info = sessionStatuses[status];
+  if (!info) return null;
+
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded font-medium ${info.badgeClass}`}>
+      {info.label}
+    </span>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import {
+  SlashCommand,
+  findSlashCommand,
+  parseSlashCommand,
+  suggestSlashCommands,
+} from "@/lib/slashCommands";
+
+// Composer input that runs slash commands. Typing "/" (or /help) lists the
+// available commands with their help text; anything else is passed to onSubmit.
+export default function SlashCommandInput({
+  value,
+  onChange,
+  onSubmit,
+  onError,
+  commands,
+  placeholder,
+  disabled,
+  className = "flex-1 border rounded p-2",
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onError: (message: string) => void;
+  commands: SlashCommand[];
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [highlight, setHighlight] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const suggestions = dismissed ? [] : suggestSlashCommands(commands, value);
+  // While the command name is being typed Enter completes it; for arguments
+  // it only does once you've moved through the list
+  const typingName = !/\s/.test(value);
+  const active = suggestions.length > 0 ? Math.min(highlight, suggestions.length - 1) : -1;
+
+  function change(next: string) {
+    onChange(next);
+    setDismissed(false);
+    setHighlight(/\s/.test(next) ? -1 : 0);
+  }
+
+  async function submit(text: string) {
+    const parsed = parseSlashCommand(text);
+    if (!parsed) {
+      onSubmit();
+      return;
+    }
+
+    const command = findSlashCommand(commands, parsed.name);
+    // /help just opens the full list
+    if (!command && parsed.name === "help") {
+      change("/");
+      return;
+    }
+    if (!command) {
+      onError(`Unknown command /${parsed.name}. Type / to see what's available.`);
+      return;
+    }
+
+    setRunning(true);
+    try {
+      await command.run(parsed.args);
+      onChange("");
+    } catch (err) {
+      onError(err instanceof Error ? err.message : `/${command.name} failed`);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function complete(index: number) {
+    const completion = suggestions[index].completion;
+    change(completion);
+    // Commands without arguments run straight away
+    if (!completion.endsWith(" ") && typingName) submit(completion);
+  }
+
+  return (
+    <div className="relative flex-1 flex">
+      {suggestions.length > 0 && (
+        <ul className="absolute bottom-full left-0 right-0 mb-1 z-20 border rounded bg-white text-black shadow max-h-60 overflow-y-auto">
+          {suggestions.map((suggestion, i) => (
+            <li key={suggestion.completion}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  // Keep focus in the input
+                  e.preventDefault();
+                  complete(i);
+                }}
+                onMouseEnter={() => setHighlight(i)}
+                className={`w-full text-left px-3 py-1.5 text-sm flex items-baseline gap-3 ${
+                  i === active ? "bg-gray-100" : ""
+                }`}
+              >
+                <span className="font-mono whitespace-nowrap">{suggestion.label}</span>
+                <span className="text-xs text-gray-500 truncate">{suggestion.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        disabled={disabled || running}
+        onChange={(e) => change(e.target.value)}
+        onBlur={() => setDismissed(true)}
+        onFocus={() => setDismissed(false)}
+        onKeyDown={(e) => {
+          if (suggestions.length > 0) {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+              e.preventDefault();
+              const step = e.key === "ArrowDown" ? 1 : -1;
+              setHighlight((active + step + suggestions.length) % suggestions.length);
+              return;
+            }
+            if (e.key === "Tab") {
+              e.preventDefault();
+              complete(Math.max(active, 0));
+              return;
+            }
+            if (e.key === "Escape") {
+              setDismissed(true);
+              return;
+            }
+            if (e.key === "Enter" && !e.shiftKey && active >= 0 && (typingName || highlight >= 0)) {
+              e.preventDefault();
+              complete(active);
+              return;
+            }
+          }
+
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            submit(value);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  SPECTATOR_CHAT_HISTORY,
+  SPECTATOR_MESSAGE_MAX_LENGTH,
+  SpectatorMessage,
+  deleteSpectatorMessage,
+  loadSpectatorMessages,
+  loadSpectatorMutes,
+  sendSpectatorMessage,
+  setSpectatorMuted,
+  withSpectatorInfo,
+} from "@/lib/spectatorChat";
+
+// Viewer side-chat shown next to a public session's transcript. Writers can
+// remove lines and mute viewers; muted viewers' lines are hidden from everyone
+// else. Subscribes to its own realtime channel.
+export default function SpectatorChat({
+  sessionId,
+  me,
+  writerIds,
+  isWriter,
+  enabled,
+}: {
+  sessionId: string;
+  me: string | null;
+  // Current writers in the session: their lines are marked and they can't be muted
+  writerIds: string[];
+  isWriter: boolean;
+  // Off: history stays readable but nobody can post
+  enabled: boolean;
+}) {
+  const [messages, setMessages] = useState<SpectatorMessage[]>([]);
+  const [mutedIds, setMutedIds] = useState<string[]>([]);
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages.length]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function load() {
+      try {
+        const [history, mutes] = await Promise.all([loadSpectatorMessages(sessionId), loadSpectatorMutes(sessionId)]);
+        if (!mounted) return;
+        setMessages(history);
+        setMutedIds(mutes);
+      } catch (err) {
+        if (mounted) setError(err instanceof Error ? err.message : "Failed to load chat");
+      }
+    }
+
+    load();
+
+    const channel = supabase
+      .channel(`session_spectator_chat:${sessionId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "rp_session_spectator_messages",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        async (payload) => {
+          const [message] = await withSpectatorInfo([payload.new as Omit<SpectatorMessage, "sender_name" | "sender_portrait">]);
+          if (!mounted) return;
+          setMessages((prev) =>
+            prev.some((m) => m.id === message.id) ? prev : [...prev, message].slice(-SPECTATOR_CHAT_HISTORY)
+          );
+        }
+      )
+      .on(
+        // Delete events can't be filtered and only carry the primary key
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "rp_session_spectator_messages" },
+        (payload) => {
+          const removedId = (payload.old as { id?: string }).id;
+          if (removedId) setMessages((prev) => prev.filter((m) => m.id !== removedId));
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "rp_session_spectator_mutes",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const userId = (payload.new as { user_id: string }).user_id;
+          setMutedIds((prev) => (prev.includes(userId) ? prev : [...prev, userId]));
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "rp_session_spectator_mutes" },
+        (payload) => {
+          const old = payload.old as { session_id?: string; user_id?: string };
+          if (old.session_id === sessionId) setMutedIds((prev) => prev.filter((id) => id !== old.user_id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  const iAmMuted = !!me && mutedIds.includes(me);
+  // Writers still see muted lines (greyed) so they know what was hidden
+  const visible = messages.filter((m) => isWriter || m.sender_id === me || !mutedIds.includes(m.sender_id));
+
+  async function send() {
+    const body = text.trim();
+    if (!body || !me || sending) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      await sendSpectatorMessage(sessionId, me, body);
+      setText("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function remove(message: SpectatorMessage) {
+    setError(null);
+    try {
+      await deleteSpectatorMessage(message.id);
+      setMessages((prev) => prev.filter((m) => m.id !== message.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove message");
+    }
+  }
+
+  async function toggleMute(userId: string) {
+    if (!me) return;
+    const muted = !mutedIds.includes(userId);
+    setError(null);
+    try {
+      await setSpectatorMuted(sessionId, userId, me, muted);
+      setMutedIds((prev) => (muted ? [...prev, userId] : prev.filter((id) => id !== userId)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update mute");
+    }
+  }
+
+  return (
+    <aside className="flex flex-col min-h-0 h-full border rounded bg-white text-black">
+      <div className="px-3 py-2 border-b text-xs font-semibold uppercase tracking-wide text-gray-500">
+        Audience chat
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-3 py-2 space-y-2">
+        {visible.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            {enabled ? "Nobody has said anything yet." : "Audience chat is off for this session."}
+          </p>
+        ) : (
+          visible.map((m) => {
+            const fromWriter = writerIds.includes(m.sender_id);
+            const muted = mutedIds.includes(m.sender_id);
+            return (
+              <div key={m.id} className={`group text-sm ${muted ? "opacity-50" : ""}`}>
+                <span className={`font-semibold ${fromWriter ? "text-purple-700" : "text-gray-800"}`}>
+                  {m.sender_name}
+                  {fromWriter && <span className="ml-1 text-[10px] font-normal">(writer)</span>}
+                </span>{" "}
+                <span className="break-words">{m.body}</span>
+                <span className="ml-1 text-[10px] text-gray-400">
+                  {new Date(m.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </span>
+                {(isWriter || m.sender_id === me) && (
+                  <span className="ml-1 hidden group-hover:inline text-[10px] text-gray-500">
+                    <button className="underline" onClick={() => remove(m)}>
+                      Remove
+                    </button>
+                    {isWriter && !fromWriter && m.sender_id !== me && (
+                      <button className="underline ml-1" onClick={() => toggleMute(m.sender_id)}>
+                        {muted ? "Unmute" : "Mute"}
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="border-t p-2 space-y-1">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {!me ? (
+          <p className="text-xs text-gray-500">Sign in to join the chat.</p>
+        ) : !enabled ? (
+          <p className="text-xs text-gray-500">Chat is turned off.</p>
+        ) : iAmMuted ? (
+          <p className="text-xs text-gray-500">The writers have muted you in this chat.</p>
+        ) : (
+          <div className="flex gap-1">
+            <input
+              className="flex-1 min-w-0 border rounded px-2 py-1 text-sm"
+              placeholder="Say something…"
+              value={text}
+              maxLength={SPECTATOR_MESSAGE_MAX_LENGTH}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  send();
+                }
+              }}
+              disabled={sending}
+            />
+            <button
+              onClick={send}
+              disabled={sending || !text.trim()}
+              className="text-xs bg-black text-white rounded px-2 disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+}
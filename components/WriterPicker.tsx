@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+type WriterOption = {
+  user_id: string;
+  name: string;
+  portrait_url: string | null;
+};
+
+// Search writers by name and pick one, e.g. to invite into a group session
+export default function WriterPicker({
+  excludeUserIds,
+  onSelect,
+  placeholder = "Search writers by name...",
+}: {
+  excludeUserIds: string[];
+  onSelect: (writer: WriterOption) => void;
+  placeholder?: string;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<WriterOption[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const term = query.trim();
+
+    // Debounce so typing doesn't fire a query per keystroke
+    const timer = setTimeout(async () => {
+      if (!term) {
+        if (!cancelled) setResults([]);
+        return;
+      }
+
+      const { data } = await supabase
+        .from("writers")
+        .select("user_id, name, portrait_url")
+        .ilike("name", `%${term}%`)
+        .order("name", { ascending: true })
+        .limit(10);
+
+      if (!cancelled) setResults(data || []);
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const options = results.filter((w) => !excludeUserIds.includes(w.user_id));
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        className="w-full border rounded p-2 text-sm"
+        placeholder={placeholder}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      {options.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border rounded shadow max-h-60 overflow-y-auto">
+          {options.map((writer) => (
+            <li key={writer.user_id}>
+              <button
+                type="button"
+                className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-black hover:bg-gray-50"
+                onClick={() => {
+                  onSelect(writer);
+                  setQuery("");
+                  setResults([]);
+                }}
+              >
+                {writer.portrait_url ? (
+                  <img
+                    src={writer.portrait_url}
+                    alt={writer.name}
+                    className="w-6 h-6 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="w-6 h-6 rounded-full bg-gray-300 flex items-center justify-center text-xs">
+                    {writer.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                {writer.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+// Renders confirmed session times as an iCalendar (RFC 5545) feed.
+// Pure functions: loading the events is up to the caller (see
+// app/calendar/[feed]/route.ts).
+
+export type CalendarEvent = {
+  slot_id: string;
+  session_id: string;
+  session_name: string | null;
+  starts_at: string;
+  ends_at: string;
+  note: string | null;
+  confirmed_at: string | null;
+};
+
+// 20250614T190000Z
+function formatUtc(value: string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function toICalendar(events: CalendarEvent[], { name, origin }: { name: string; origin: string }): string {
+  const now = formatUtc(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//rp-platform//Session schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    const title = event.session_name || "Untitled session";
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:slot-${event.slot_id}@rp-platform`,
+      `DTSTAMP:${event.confirmed_at ? formatUtc(event.confirmed_at) : now}`,
+      `DTSTART:${formatUtc(event.starts_at)}`,
+      `DTEND:${formatUtc(event.ends_at)}`,
+      `SUMMARY:${escapeText(`Writing: ${title}`)}`,
+      ...(event.note ? [`DESCRIPTION:${escapeText(event.note)}`] : []),
+      `URL:${origin}/session/${event.session_id}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,71 @@
+// Session content ratings and warnings (add_session_content_ratings.sql), and
+// each viewer's preferences for which public sessions they want to see.
+// No database access here, so the export route can use it too; preferences
+// are loaded by loadContentPreferences() in lib/profiles.ts.
+
+export type ContentRating = "sfw" | "mature" | "explicit";
+
+export const contentRatings: Record<ContentRating, { label: string; description: string; badgeClass: string }> = {
+  sfw: { label: "SFW", description: "Fine for anyone", badgeClass: "bg-green-100 text-green-700" },
+  mature: {
+    label: "Mature",
+    description: "Strong themes, violence or language",
+    badgeClass: "bg-amber-100 text-amber-800",
+  },
+  explicit: { label: "Explicit", description: "Graphic sexual or violent content", badgeClass: "bg-red-100 text-red-700" },
+};
+
+// Least to most intense
+export const CONTENT_RATINGS: ContentRating[] = ["sfw", "mature", "explicit"];
+
+export const CONTENT_WARNINGS = [
+  "violence",
+  "gore",
+  "death",
+  "sexual content",
+  "abuse",
+  "self-harm",
+  "suicide",
+  "substance use",
+  "horror",
+  "torture",
+  "strong language",
+  "discrimination",
+];
+
+export type SessionContent = { content_rating: ContentRating; content_warnings: string[] };
+
+export type ContentPreferences = { max_rating: ContentRating; hidden_warnings: string[] };
+
+// Matches the column defaults on writers
+export const DEFAULT_CONTENT_PREFERENCES: ContentPreferences = { max_rating: "mature", hidden_warnings: [] };
+
+/**
+ * Whether a public session belongs in this viewer's listings.
+ */
+export function matchesContentPreferences(session: SessionContent, preferences: ContentPreferences): boolean {
+  if (CONTENT_RATINGS.indexOf(session.content_rating) > CONTENT_RATINGS.indexOf(preferences.max_rating)) {
+    return false;
+  }
+  return !session.content_warnings.some((w) => preferences.hidden_warnings.includes(w));
+}
+
+/**
+ * Spectators click through before reading anything that isn't plain SFW.
+ */
+export function needsContentWarning(session: SessionContent): boolean {
+  return session.content_rating !== "sfw" || session.content_warnings.length > 0;
+}
+
+// Remembered per browser, per session and rating: raising the rating asks again
+function acknowledgementKey(sessionId: string): string {
+  return `content_warning_seen:${sessionId}`;
+}
+
+export function hasAcknowledgedContent(sessionId: string, session: SessionContent): boolean {
+  return localStorage.getItem(acknowledgementKey(sessionId)) === session.content_rating;
+}
+
+export function acknowledgeContent(sessionId: string, session: SessionContent): void {
+  localStorage.setItem(acknowledgementKey(sessionId), session.content_rating);
+}
@@ -0,0 +1,45 @@
+// Dice notation shared by the composer and the transcript. Rolls themselves
+// happen in the database (roll_dice() in add_session_dice_rolls.sql) so the
+// result can't be forged; this only recognises and displays them.
+
+// NdS, dS, NdF (fudge), d% and flat modifiers, e.g. 2d6+3, 4dF, d20-1
+const TERM = String.raw`(?:\d{0,3}d(?:\d{1,4}|f(?![a-z])|%)|\d{1,6})`;
+const ROLL_COMMAND = new RegExp(String.raw`^\s*([+-]?\s*${TERM}(?:\s*[+-]\s*${TERM})*)(?:\s+(.*))?$`, "i");
+
+export type RollTerm =
+  | { sign: 1 | -1; constant: number }
+  | { sign: 1 | -1; count: number; die: string; rolls: number[]; subtotal: number };
+
+// Keep in sync with roll_dice() in add_session_dice_rolls.sql
+export type RollResult = {
+  expression: string;
+  label: string | null;
+  terms: RollTerm[];
+  total: number;
+};
+
+/**
+ * Split "2d20+5 stealth check" into the dice expression and an optional label.
+ * Returns null when the text doesn't start with dice notation.
+ */
+export function parseRollCommand(text: string): { expression: string; label: string | null } | null {
+  const match = text.match(ROLL_COMMAND);
+  if (!match) return null;
+  return {
+    expression: match[1].replace(/\s+/g, "").toLowerCase(),
+    label: match[2]?.trim() || null,
+  };
+}
+
+function formatTerm(term: RollTerm, first: boolean): string {
+  const sign = term.sign < 0 ? "- " : first ? "" : "+ ";
+  if ("constant" in term) return `${sign}${term.constant}`;
+  // Fudge dice read better as +/-/blank
+  const faces = term.die === "dF" ? term.rolls.map((r) => (r > 0 ? "+" : r < 0 ? "−" : "0")) : term.rolls;
+  return `${sign}[${faces.join(", ")}]`;
+}
+
+/** "[4, 2] + 3 = 9" */
+export function formatRoll(result: RollResult): string {
+  return `${result.terms.map((term, i) => formatTerm(term, i === 0)).join(" ")} = ${result.total}`;
+}
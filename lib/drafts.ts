@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+// Server-synced composer drafts (add_message_drafts.sql): one per user per
+// session or DM thread. The chat pages restore the draft on load, autosave
+// while you write and clear it once the message is sent.
+
+// Wait for a pause in typing before saving
+const DRAFT_SAVE_DELAY_MS = 1500;
+
+export type DraftTarget = { sessionId: string } | { threadId: string };
+
+export type MessageDraft = {
+  body: string;
+  // Session composer mode (ooc, narration, roll); null for DMs
+  message_type: string | null;
+  updated_at: string;
+};
+
+export type DraftStatus = "idle" | "saving" | "saved" | "error";
+
+function targetColumn(target: DraftTarget): ["session_id" | "thread_id", string] {
+  return "sessionId" in target ? ["session_id", target.sessionId] : ["thread_id", target.threadId];
+}
+
+export async function loadMessageDraft(target: DraftTarget): Promise<MessageDraft | null> {
+  const [column, id] = targetColumn(target);
+  const { data, error } = await supabase
+    .from("message_drafts")
+    .select("body, message_type, updated_at")
+    .eq(column, id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Save the current user's draft; a blank body removes it.
+ */
+export async function saveMessageDraft(
+  target: DraftTarget,
+  body: string,
+  messageType: string | null = null
+): Promise<void> {
+  const { error } = await supabase.rpc("save_message_draft", {
+    p_session_id: "sessionId" in target ? target.sessionId : null,
+    p_thread_id: "threadId" in target ? target.threadId : null,
+    p_body: body,
+    p_message_type: messageType,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Sessions and DM threads where the current user has an unsent draft (for the dashboard).
+ */
+export async function loadDraftChats(): Promise<{ sessionIds: Set<string>; threadIds: Set<string> }> {
+  const { data, error } = await supabase.from("message_drafts").select("session_id, thread_id");
+  if (error) throw error;
+
+  const rows = data || [];
+  return {
+    sessionIds: new Set(rows.map((r) => r.session_id).filter((id): id is string => !!id)),
+    threadIds: new Set(rows.map((r) => r.thread_id).filter((id): id is string => !!id)),
+  };
+}
+
+/**
+ * Keep the composer text of a session or DM thread saved as a draft. Pass a
+ * null id until the page knows the user writes there. A saved draft is handed
+ * to onRestore once, if the composer is still empty. Call clear() after a
+ * successful send.
+ */
+export function useMessageDraft(
+  kind: "session" | "thread",
+  id: string | null,
+  text: string,
+  { messageType = null, onRestore }: { messageType?: string | null; onRestore: (draft: MessageDraft) => void }
+): { status: DraftStatus; savedAt: string | null; clear: () => void } {
+  const [status, setStatus] = useState<DraftStatus>("idle");
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  // Nothing is saved until the stored draft has been checked, so it's never overwritten
+  const [ready, setReady] = useState(false);
+
+  const lastSavedRef = useRef({ body: "", messageType: null as string | null });
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingRef = useRef<(() => void) | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  const textRef = useRef(text);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+    textRef.current = text;
+  });
+
+  useEffect(() => {
+    if (!id) return;
+    let mounted = true;
+    const target: DraftTarget = kind === "session" ? { sessionId: id } : { threadId: id };
+
+    loadMessageDraft(target)
+      .then((draft) => {
+        if (!mounted) return;
+        if (draft) {
+          lastSavedRef.current = { body: draft.body, messageType: draft.message_type };
+          setSavedAt(draft.updated_at);
+          setStatus("saved");
+          if (!textRef.current.trim()) onRestoreRef.current(draft);
+        }
+      })
+      .catch((err) => console.error("Error loading draft:", err))
+      .finally(() => {
+        if (mounted) setReady(true);
+      });
+
+    return () => {
+      mounted = false;
+      setReady(false);
+    };
+  }, [kind, id]);
+
+  useEffect(() => {
+    if (!id || !ready) return;
+    const last = lastSavedRef.current;
+    // A blank composer is a blank composer, whatever mode it's in
+    const unchanged = text.trim() ? text === last.body && messageType === last.messageType : !last.body.trim();
+    if (unchanged) return;
+
+    const target: DraftTarget = kind === "session" ? { sessionId: id } : { threadId: id };
+    const save = () => {
+      pendingRef.current = null;
+      lastSavedRef.current = { body: text, messageType };
+      setStatus("saving");
+      saveMessageDraft(target, text, messageType)
+        .then(() => {
+          setStatus(text.trim() ? "saved" : "idle");
+          setSavedAt(text.trim() ? new Date().toISOString() : null);
+        })
+        .catch((err) => {
+          console.error("Error saving draft:", err);
+          setStatus("error");
+        });
+    };
+
+    pendingRef.current = save;
+    timerRef.current = setTimeout(save, DRAFT_SAVE_DELAY_MS);
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      pendingRef.current = null;
+    };
+  }, [kind, id, ready, text, messageType]);
+
+  // Don't lose the last few keystrokes when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState !== "hidden" || !pendingRef.current) return;
+      if (timerRef.current) clearTimeout(timerRef.current);
+      pendingRef.current();
+    };
+    document.addEventListener("visibilitychange", flush);
+    return () => document.removeEventListener("visibilitychange", flush);
+  }, []);
+
+  const clear = useCallback(() => {
+    if (!id) return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    pendingRef.current = null;
+    lastSavedRef.current = { body: "", messageType: null };
+    setStatus("idle");
+    setSavedAt(null);
+    saveMessageDraft(kind === "session" ? { sessionId: id } : { threadId: id }, "").catch((err) =>
+      console.error("Error clearing draft:", err)
+    );
+  }, [kind, id]);
+
+  return { status, savedAt, clear };
+}
+
+/**
+ * Small composer hint: "Saving draft…", "Draft saved 10:42", "Draft not saved".
+ */
+export function formatDraftStatus(status: DraftStatus, savedAt: string | null): string | null {
+  if (status === "saving") return "Saving draft…";
+  if (status === "error") return "Draft not saved";
+  if (status === "saved" && savedAt) {
+    return `Draft saved ${new Date(savedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+  }
+  return null;
+}
@@ -0,0 +1,100 @@
+// Full-text search over session transcripts and DMs (add_message_search.sql).
+// Shared by the /api/search route and the /search page.
+
+export const SEARCH_PAGE_SIZE = 25;
+
+export type SearchSource = "session" | "dm";
+
+// "dm" stands in for DM messages, which have no type of their own
+export const SEARCH_MESSAGE_TYPES = ["narration", "ooc", "roll", "scene", "dm"] as const;
+export type SearchMessageType = (typeof SEARCH_MESSAGE_TYPES)[number];
+
+export type SearchFilters = {
+  q: string;
+  source?: SearchSource;
+  session?: string;
+  partner?: string;
+  character?: string;
+  type?: SearchMessageType;
+  // Dates as YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+  page?: number;
+};
+
+export type SearchResult = {
+  source: SearchSource;
+  message_id: string;
+  session_id: string | null;
+  thread_id: string | null;
+  session_name: string | null;
+  message_type: SearchMessageType;
+  created_at: string;
+  // Matches wrapped in <mark>…</mark>; render with splitSnippet(), never as HTML
+  snippet: string;
+  sender_name: string;
+  // The character or NPC a session post was voiced by
+  speaker_name: string | null;
+  // The other writer in a DM thread
+  partner_name: string | null;
+};
+
+export type SearchResponse = { results: SearchResult[]; hasMore: boolean };
+
+const FILTER_KEYS = ["q", "source", "session", "partner", "character", "type", "from", "to", "page"] as const;
+
+export function searchParamsFor(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of FILTER_KEYS) {
+    const value = filters[key];
+    if (value !== undefined && value !== "" && !(key === "page" && value === 0)) params.set(key, String(value));
+  }
+  return params;
+}
+
+/**
+ * Read filters back out of a query string; unknown or malformed values are dropped.
+ */
+export function parseSearchParams(params: URLSearchParams): SearchFilters {
+  const uuid = (value: string | null) =>
+    value && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value) ? value : undefined;
+  const date = (value: string | null) => (value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined);
+  const source = params.get("source");
+  const type = params.get("type");
+  const page = Number(params.get("page"));
+
+  return {
+    q: (params.get("q") || "").trim(),
+    source: source === "session" || source === "dm" ? source : undefined,
+    session: uuid(params.get("session")),
+    partner: uuid(params.get("partner")),
+    character: uuid(params.get("character")),
+    type: SEARCH_MESSAGE_TYPES.find((t) => t === type),
+    from: date(params.get("from")),
+    to: date(params.get("to")),
+    page: Number.isInteger(page) && page > 0 ? page : 0,
+  };
+}
+
+/**
+ * Where a result lives; the chat pages scroll to #message-<id> once loaded.
+ */
+export function searchResultHref(result: SearchResult): string {
+  return result.source === "dm"
+    ? `/dm/${result.thread_id}#message-${result.message_id}`
+    : `/session/${result.session_id}#message-${result.message_id}`;
+}
+
+/**
+ * Split a snippet into plain and highlighted runs.
+ */
+export function splitSnippet(snippet: string): Array<{ text: string; match: boolean }> {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter((part) => part !== "")
+    .map((part) =>
+      part.startsWith("<mark>") && part.endsWith("</mark>")
+        ? { text: part.slice(6, -7), match: true }
+        : { text: part, match: false }
+    );
+}
@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+// Live presence for the chat pages over Realtime presence channels: who has
+// the session or DM open right now, who is typing, and who is watching a
+// public session. Presence itself is never stored; the last-seen time for
+// absent partners comes from markChatSeen(), and audience history from
+// record_session_viewers().
+
+// Typing stops counting this long after the last keystroke
+const TYPING_TIMEOUT_MS = 5000;
+
+export type PresenceInfo = {
+  user_id: string;
+  typing: boolean;
+  online_at: string;
+};
+
+export type ChatPresence = {
+  // Everyone else on the page right now, by user id
+  online: Record<string, PresenceInfo>;
+  // When someone we saw online left while we were watching
+  leftAt: Record<string, string>;
+  setTyping: (typing: boolean) => void;
+};
+
+/**
+ * Join the presence channel for a session or DM thread. Pass `track: false`
+ * to only watch (e.g. public viewers of a session), and a null topic to
+ * hold off until the page knows who you are.
+ */
+export function useChatPresence(topic: string | null, me: string | null, { track = true } = {}): ChatPresence {
+  const [online, setOnline] = useState<Record<string, PresenceInfo>>({});
+  const [leftAt, setLeftAt] = useState<Record<string, string>>({});
+
+  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const stateRef = useRef<PresenceInfo | null>(null);
+  const typingTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (!topic) return;
+
+    const tracking = track && !!me;
+    const channel = supabase.channel(`presence:${topic}`, {
+      config: { presence: { key: tracking && me ? me : "" } },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const next: Record<string, PresenceInfo> = {};
+        for (const entries of Object.values(channel.presenceState<PresenceInfo>())) {
+          for (const entry of entries) {
+            if (!entry.user_id || entry.user_id === me) continue;
+            // Same user in two tabs: typing in either counts
+            const existing = next[entry.user_id];
+            next[entry.user_id] = existing
+              ? { ...existing, typing: existing.typing || entry.typing }
+              : { user_id: entry.user_id, typing: entry.typing, online_at: entry.online_at };
+          }
+        }
+        setOnline(next);
+      })
+      .on("presence", { event: "leave" }, ({ key }) => {
+        if (key && key !== me) setLeftAt((prev) => ({ ...prev, [key]: new Date().toISOString() }));
+      })
+      .subscribe(async (status) => {
+        if (status !== "SUBSCRIBED" || !tracking || !me) return;
+        stateRef.current = { user_id: me, typing: false, online_at: new Date().toISOString() };
+        await channel.track(stateRef.current);
+      });
+
+    return () => {
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+      typingTimerRef.current = null;
+      channelRef.current = null;
+      stateRef.current = null;
+      supabase.removeChannel(channel);
+      setOnline({});
+    };
+  }, [topic, me, track]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    const channel = channelRef.current;
+    const state = stateRef.current;
+    if (!channel || !state) return;
+
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = typing
+      ? setTimeout(() => {
+          if (stateRef.current?.typing) {
+            stateRef.current = { ...stateRef.current, typing: false };
+            channel.track(stateRef.current);
+          }
+        }, TYPING_TIMEOUT_MS)
+      : null;
+
+    // Only send changes; every keystroke would flood the channel
+    if (state.typing === typing) return;
+    stateRef.current = { ...state, typing };
+    channel.track(stateRef.current);
+  }, []);
+
+  return { online, leftAt, setTyping };
+}
+
+// How often the leading viewer reports the live count (viewer-minutes)
+const VIEWER_RECORD_INTERVAL_MS = 60000;
+
+export type ViewerPresence = {
+  // The user id, or a per-tab id for logged-out viewers
+  key: string;
+  user_id: string | null;
+  joined_at: string;
+};
+
+/**
+ * Live audience of a public session. Viewers (signed in or not) announce
+ * themselves; writers pass `watching: false` and only see the list. Signed-in
+ * viewers count once however many tabs they have open.
+ *
+ * The signed-in viewer whose key sorts first reports the count once a minute
+ * (the server only takes reports from signed-in users), so the session's
+ * peak and viewer-minutes stay current without a heartbeat table. While only
+ * logged-out viewers are watching, the writers' pages report instead; the
+ * server counts viewer-minutes once a minute however many of them do.
+ */
+export function useSessionViewers(
+  sessionId: string | null,
+  me: string | null,
+  { watching }: { watching: boolean }
+): ViewerPresence[] {
+  const [viewers, setViewers] = useState<ViewerPresence[]>([]);
+  const anonymousKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    if (!me && !anonymousKeyRef.current) anonymousKeyRef.current = `guest-${crypto.randomUUID()}`;
+    const selfKey = watching ? me || anonymousKeyRef.current : null;
+
+    const channel = supabase.channel(`viewers:session:${sessionId}`, {
+      config: { presence: { key: selfKey || "" } },
+    });
+    let latest: ViewerPresence[] = [];
+    let peak = 0;
+
+    const isLeader = () => {
+      if (!me || latest.length === 0) return false;
+      const firstSignedIn = latest.find((v) => v.user_id);
+      return selfKey ? firstSignedIn?.key === selfKey : !firstSignedIn;
+    };
+    const record = () =>
+      supabase
+        .rpc("record_session_viewers", { p_session_id: sessionId, p_viewer_count: latest.length })
+        .then(({ error }) => {
+          if (error) console.error("Error recording viewers:", error);
+        });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        latest = Object.entries(channel.presenceState<{ user_id: string | null; joined_at: string }>())
+          .filter(([key, entries]) => key && entries.length > 0)
+          .map(([key, entries]) => ({ key, user_id: entries[0].user_id, joined_at: entries[0].joined_at }))
+          .sort((a, b) => a.key.localeCompare(b.key));
+        setViewers(latest);
+
+        // New peak: report it now rather than at the next tick
+        if (latest.length > peak) {
+          peak = latest.length;
+          if (isLeader()) record();
+        }
+      })
+      .subscribe(async (status) => {
+        if (status !== "SUBSCRIBED" || !selfKey) return;
+        await channel.track({ user_id: me, joined_at: new Date().toISOString() });
+      });
+
+    const timer = setInterval(() => {
+      if (isLeader()) record();
+    }, VIEWER_RECORD_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      supabase.removeChannel(channel);
+      setViewers([]);
+    };
+  }, [sessionId, me, watching]);
+
+  return viewers;
+}
+
+/**
+ * Stamp last-seen while a chat page is open: on arrival, whenever the tab is
+ * hidden and on leaving. Pass a null id until the page knows the user takes part.
+ */
+export function useMarkChatSeen(kind: "session" | "thread", id: string | null) {
+  useEffect(() => {
+    if (!id) return;
+    const target = kind === "session" ? { sessionId: id } : { threadId: id };
+
+    markChatSeen(target);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") markChatSeen(target);
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      markChatSeen(target);
+    };
+  }, [kind, id]);
+}
+
+/**
+ * Stamp the current user's last-seen time on a session or DM thread.
+ * Best effort: failures are only logged.
+ */
+export async function markChatSeen(target: { sessionId: string } | { threadId: string }): Promise<void> {
+  const { error } = await supabase.rpc("mark_chat_seen", {
+    p_session_id: "sessionId" in target ? target.sessionId : null,
+    p_thread_id: "threadId" in target ? target.threadId : null,
+  });
+  if (error) console.error("Error marking chat seen:", error);
+}
+
+/**
+ * "online", "writing…", "last seen 5 min ago", "last seen Mar 3"
+ */
+export function formatPresence(presence: PresenceInfo | undefined, lastSeen: string | null): string {
+  if (presence) return presence.typing ? "writing…" : "online";
+  if (!lastSeen) return "offline";
+
+  const minutes = Math.floor((Date.now() - new Date(lastSeen).getTime()) / 60000);
+  if (minutes < 1) return "last seen just now";
+  if (minutes < 60) return `last seen ${minutes} min ago`;
+  if (minutes < 24 * 60) return `last seen ${Math.floor(minutes / 60)} h ago`;
+  return `last seen ${new Date(lastSeen).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+}
+
+/**
+ * The later of two optional timestamps (stored last-seen vs. a leave we saw live).
+ */
+export function latestTime(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a) return b || null;
+  if (!b) return a;
+  return new Date(a) > new Date(b) ? a : b;
+}
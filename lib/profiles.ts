@@ -0,0 +1,280 @@
+import { supabase } from "@/lib/supabaseClient";
+import { ContentPreferences, DEFAULT_CONTENT_PREFERENCES } from "@/lib/contentRatings";
+
+// Shared, page-lifetime cache of writer and character display info for chat
+// views. Lookups are batched with .in() and de-duplicated while in flight;
+// realtime profile updates patch the cache and notify subscribers.
+
+export type WriterProfile = {
+  id: string;
+  user_id: string;
+  name: string;
+  portrait_url: string | null;
+};
+
+export type CharacterProfile = {
+  id: string;
+  user_id: string;
+  name: string;
+  portrait_url: string | null;
+};
+
+// Long .in() lists end up in the request URL, so split them
+const LOOKUP_CHUNK_SIZE = 100;
+
+// Ids that weren't found are looked up again after this long, e.g. once the
+// writer has created their profile
+const NOT_FOUND_TTL_MS = 5 * 60 * 1000;
+
+// Realtime accepts at most this many values in one `in` filter
+const REALTIME_FILTER_CHUNK_SIZE = 100;
+
+function createResolver<T extends { id: string; user_id: string; name: string; portrait_url: string | null }>(
+  table: string,
+  keyColumn: "id" | "user_id",
+  columns: string,
+  onCached: () => void
+) {
+  // null = looked up and not found
+  const cache = new Map<string, T | null>();
+  const notFoundAt = new Map<string, number>();
+  const inflight = new Map<string, Promise<void>>();
+
+  function isCached(id: string): boolean {
+    if (!cache.has(id)) return false;
+    const missedAt = notFoundAt.get(id);
+    if (missedAt !== undefined && Date.now() - missedAt > NOT_FOUND_TTL_MS) {
+      cache.delete(id);
+      notFoundAt.delete(id);
+      return false;
+    }
+    return true;
+  }
+
+  async function fetchMissing(ids: string[]) {
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + LOOKUP_CHUNK_SIZE);
+      const { data, error } = await supabase.from(table).select(columns).in(keyColumn, chunk);
+
+      if (error) {
+        // Leave these uncached so the next call retries
+        console.error(`Error loading ${table}:`, error.message);
+        continue;
+      }
+
+      const rows = (data || []) as unknown as T[];
+      for (const row of rows) {
+        cache.set(row[keyColumn], row);
+        notFoundAt.delete(row[keyColumn]);
+      }
+      for (const id of chunk) {
+        if (!cache.has(id)) {
+          cache.set(id, null);
+          notFoundAt.set(id, Date.now());
+        }
+      }
+      if (rows.length > 0) onCached();
+    }
+  }
+
+  async function resolve(ids: Array<string | null | undefined>): Promise<Map<string, T>> {
+    const unique = Array.from(new Set(ids.filter((id): id is string => !!id)));
+    const missing = unique.filter((id) => !isCached(id) && !inflight.has(id));
+
+    if (missing.length > 0) {
+      const request = fetchMissing(missing).finally(() => {
+        for (const id of missing) inflight.delete(id);
+      });
+      for (const id of missing) inflight.set(id, request);
+    }
+
+    await Promise.all(
+      unique.map((id) => inflight.get(id)).filter((p): p is Promise<void> => !!p)
+    );
+
+    const result = new Map<string, T>();
+    for (const id of unique) {
+      const row = cache.get(id);
+      if (row) result.set(id, row);
+    }
+    return result;
+  }
+
+  function get(id: string | null | undefined): T | null {
+    return id ? cache.get(id) || null : null;
+  }
+
+  // Only rows someone already asked for are kept up to date, and only a new
+  // name or portrait counts as a change (writers also update last_seen)
+  function patch(row: T): boolean {
+    const key = row[keyColumn];
+    const cached = cache.get(key);
+    if (!cached) return false;
+    if (cached.name === row.name && cached.portrait_url === row.portrait_url) return false;
+    cache.set(key, { ...cached, name: row.name, portrait_url: row.portrait_url });
+    return true;
+  }
+
+  function invalidate(id: string) {
+    cache.delete(id);
+    notFoundAt.delete(id);
+  }
+
+  // Ids of the rows actually in the cache, for filtering realtime changes
+  function cachedIds(): string[] {
+    return Array.from(cache.entries())
+      .filter(([, row]) => !!row)
+      .map(([id]) => id);
+  }
+
+  return { resolve, get, patch, invalidate, cachedIds };
+}
+
+const writers = createResolver<WriterProfile>("writers", "user_id", "id, user_id, name, portrait_url", () =>
+  scheduleResubscribe()
+);
+const characters = createResolver<CharacterProfile>("characters", "id", "id, user_id, name, portrait_url", () =>
+  scheduleResubscribe()
+);
+
+/**
+ * Writers by user id. Unknown ids are simply missing from the map.
+ */
+export function resolveWriters(userIds: Array<string | null | undefined>): Promise<Map<string, WriterProfile>> {
+  return writers.resolve(userIds);
+}
+
+/**
+ * Characters by character id.
+ */
+export function resolveCharacters(
+  characterIds: Array<string | null | undefined>
+): Promise<Map<string, CharacterProfile>> {
+  return characters.resolve(characterIds);
+}
+
+export async function resolveWriter(userId: string): Promise<WriterProfile | null> {
+  return (await writers.resolve([userId])).get(userId) || null;
+}
+
+/** Cached writer, without hitting the network. */
+export function getCachedWriter(userId: string | null | undefined): WriterProfile | null {
+  return writers.get(userId);
+}
+
+/** Cached character, without hitting the network. */
+export function getCachedCharacter(characterId: string | null | undefined): CharacterProfile | null {
+  return characters.get(characterId);
+}
+
+/**
+ * Drop a writer from the cache, e.g. after editing your own profile.
+ */
+export function invalidateWriter(userId: string) {
+  writers.invalidate(userId);
+}
+
+export function invalidateCharacter(characterId: string) {
+  characters.invalidate(characterId);
+}
+
+/**
+ * Display name for a user id, falling back to a short id when they have no writer profile.
+ */
+export function writerDisplayName(userId: string, writer?: { name: string } | null): string {
+  return writer?.name || `User ${userId.slice(0, 8)}`;
+}
+
+/**
+ * A writer's content preferences for public listings; the defaults when they
+ * have no writer profile.
+ */
+export async function loadContentPreferences(userId: string): Promise<ContentPreferences> {
+  const { data, error } = await supabase
+    .from("writers")
+    .select("content_max_rating, hidden_content_warnings")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_CONTENT_PREFERENCES;
+  return { max_rating: data.content_max_rating, hidden_warnings: data.hidden_content_warnings || [] };
+}
+
+const listeners = new Set<() => void>();
+let profileChannel: ReturnType<typeof supabase.channel> | null = null;
+let resubscribeTimer: ReturnType<typeof setTimeout> | null = null;
+// A channel keeps its topic until it has finished unsubscribing, so each
+// resubscribe gets a fresh one
+let channelGeneration = 0;
+
+// Coalesce a burst of lookups into one resubscribe
+const RESUBSCRIBE_DELAY_MS = 1000;
+
+function chunk(ids: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += REALTIME_FILTER_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + REALTIME_FILTER_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// Listen only for the writers and characters in the cache, rather than every
+// profile update on the site
+function subscribe() {
+  if (profileChannel) supabase.removeChannel(profileChannel);
+
+  const notify = () => listeners.forEach((l) => l());
+  let channel = supabase.channel(`profile_cache:${++channelGeneration}`);
+
+  for (const ids of chunk(writers.cachedIds())) {
+    channel = channel.on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "writers", filter: `user_id=in.(${ids.join(",")})` },
+      (payload) => {
+        if (writers.patch(payload.new as WriterProfile)) notify();
+      }
+    );
+  }
+  for (const ids of chunk(characters.cachedIds())) {
+    channel = channel.on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "characters", filter: `id=in.(${ids.join(",")})` },
+      (payload) => {
+        if (characters.patch(payload.new as CharacterProfile)) notify();
+      }
+    );
+  }
+
+  profileChannel = channel.subscribe();
+}
+
+function scheduleResubscribe() {
+  if (listeners.size === 0 || resubscribeTimer) return;
+  resubscribeTimer = setTimeout(() => {
+    resubscribeTimer = null;
+    if (listeners.size > 0) subscribe();
+  }, RESUBSCRIBE_DELAY_MS);
+}
+
+/**
+ * Call `listener` whenever a cached writer's or character's name or portrait
+ * changes. Returns an unsubscribe function; the realtime channel closes with
+ * the last listener.
+ */
+export function onProfilesChanged(listener: () => void): () => void {
+  listeners.add(listener);
+  if (!profileChannel) subscribe();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && profileChannel) {
+      supabase.removeChannel(profileChannel);
+      profileChannel = null;
+      if (resubscribeTimer) {
+        clearTimeout(resubscribeTimer);
+        resubscribeTimer = null;
+      }
+    }
+  };
+}
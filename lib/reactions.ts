@@ -0,0 +1,116 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Emoji reactions on session messages and DMs (add_message_reactions.sql).
+// Both chat pages keep a flat list of reactions and group it per message at
+// render time with groupReactions().
+
+export const REACTION_EMOJIS = ["❤️", "😂", "😮", "😢", "🔥", "👏", "👍"];
+
+export type ReactionTarget = "session" | "dm";
+
+export type MessageReaction = {
+  id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  // Session reactions from someone who isn't a writer in it
+  is_spectator: boolean;
+};
+
+const REACTION_COLUMNS = "id, session_message_id, dm_message_id, user_id, emoji, is_spectator";
+
+export type ReactionRow = {
+  id: string;
+  session_message_id: string | null;
+  dm_message_id: string | null;
+  user_id: string;
+  emoji: string;
+  is_spectator: boolean;
+};
+
+/**
+ * Normalize a message_reactions row (from a query or a realtime payload).
+ */
+export function toMessageReaction(row: ReactionRow): MessageReaction {
+  return {
+    id: row.id,
+    message_id: (row.session_message_id || row.dm_message_id) as string,
+    user_id: row.user_id,
+    emoji: row.emoji,
+    is_spectator: row.is_spectator,
+  };
+}
+
+/**
+ * Reactions on a set of session messages (e.g. the pages loaded so far).
+ */
+export async function loadSessionReactions(messageIds: string[]): Promise<MessageReaction[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("message_reactions")
+    .select(REACTION_COLUMNS)
+    .in("session_message_id", messageIds);
+
+  if (error) throw error;
+  return ((data || []) as ReactionRow[]).map(toMessageReaction);
+}
+
+/**
+ * Every reaction in a DM thread.
+ */
+export async function loadThreadReactions(threadId: string): Promise<MessageReaction[]> {
+  const { data, error } = await supabase
+    .from("message_reactions")
+    .select(REACTION_COLUMNS)
+    .eq("thread_id", threadId);
+
+  if (error) throw error;
+  return ((data || []) as ReactionRow[]).map(toMessageReaction);
+}
+
+/**
+ * React to a message. The database fills in the session/thread and decides
+ * whether it counts as a spectator reaction.
+ */
+export async function addReaction(
+  target: ReactionTarget,
+  { messageId, parentId, userId }: { messageId: string; parentId: string; userId: string },
+  emoji: string
+): Promise<MessageReaction> {
+  const { data, error } = await supabase
+    .from("message_reactions")
+    .insert(
+      target === "session"
+        ? { session_message_id: messageId, session_id: parentId, user_id: userId, emoji }
+        : { dm_message_id: messageId, thread_id: parentId, user_id: userId, emoji }
+    )
+    .select(REACTION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toMessageReaction(data as ReactionRow);
+}
+
+export async function removeReaction(reactionId: string): Promise<void> {
+  const { error } = await supabase.from("message_reactions").delete().eq("id", reactionId);
+  if (error) throw error;
+}
+
+/**
+ * Add a reaction to the list unless it's already there (our own insert and
+ * its realtime echo both arrive).
+ */
+export function mergeReaction(list: MessageReaction[], reaction: MessageReaction): MessageReaction[] {
+  return list.some((r) => r.id === reaction.id) ? list : [...list, reaction];
+}
+
+export function groupReactions(list: MessageReaction[]): Map<string, MessageReaction[]> {
+  const byMessage = new Map<string, MessageReaction[]>();
+  for (const reaction of list) {
+    const existing = byMessage.get(reaction.message_id);
+    if (existing) existing.push(reaction);
+    else byMessage.set(reaction.message_id, [reaction]);
+  }
+  return byMessage;
+}
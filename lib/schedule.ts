@@ -0,0 +1,232 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Session scheduling (add_session_schedule.sql): writers' weekly availability
+// and timezone, proposed and confirmed writing times per session, and the
+// per-writer calendar feed.
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const SLOT_NOTE_MAX_LENGTH = 200;
+
+// Local wall-clock times in the writer's timezone; end "24:00" is midnight
+export type AvailabilityWindow = { day: number; start: string; end: string };
+
+export type WriterSchedule = {
+  user_id: string;
+  name: string;
+  timezone: string | null;
+  weekly_availability: AvailabilityWindow[];
+};
+
+export type SlotStatus = "proposed" | "confirmed" | "cancelled";
+
+export type ScheduleSlot = {
+  id: string;
+  session_id: string;
+  proposed_by: string | null;
+  starts_at: string;
+  ends_at: string;
+  note: string | null;
+  status: SlotStatus;
+  confirmed_by: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+};
+
+const SLOT_COLUMNS =
+  "id, session_id, proposed_by, starts_at, ends_at, note, status, confirmed_by, confirmed_at, created_at";
+
+/**
+ * The browser's timezone, used until a writer picks one.
+ */
+export function browserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function loadWriterSchedules(userIds: string[]): Promise<WriterSchedule[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("writers")
+    .select("user_id, name, timezone, weekly_availability")
+    .in("user_id", userIds);
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    ...row,
+    weekly_availability: Array.isArray(row.weekly_availability) ? row.weekly_availability : [],
+  }));
+}
+
+/**
+ * Proposed and confirmed times for one session that haven't ended yet, soonest first.
+ */
+export async function loadSessionSlots(sessionId: string): Promise<ScheduleSlot[]> {
+  const { data, error } = await supabase
+    .from("rp_session_schedule_slots")
+    .select(SLOT_COLUMNS)
+    .eq("session_id", sessionId)
+    .neq("status", "cancelled")
+    .gt("ends_at", new Date().toISOString())
+    .order("starts_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Confirmed times still to come across a set of sessions (for the dashboard).
+ */
+export async function loadUpcomingSlots(sessionIds: string[], limit = 10): Promise<ScheduleSlot[]> {
+  if (sessionIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("rp_session_schedule_slots")
+    .select(SLOT_COLUMNS)
+    .in("session_id", sessionIds)
+    .eq("status", "confirmed")
+    .gt("ends_at", new Date().toISOString())
+    .order("starts_at", { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function proposeSessionSlot(
+  sessionId: string,
+  userId: string,
+  { startsAt, endsAt, note }: { startsAt: Date; endsAt: Date; note?: string | null }
+): Promise<ScheduleSlot> {
+  const { data, error } = await supabase
+    .from("rp_session_schedule_slots")
+    .insert({
+      session_id: sessionId,
+      proposed_by: userId,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      note: note?.trim() || null,
+    })
+    .select(SLOT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function confirmSessionSlot(slotId: string): Promise<void> {
+  const { error } = await supabase.rpc("confirm_session_slot", { p_slot_id: slotId });
+  if (error) throw error;
+}
+
+export async function cancelSessionSlot(slotId: string): Promise<void> {
+  const { error } = await supabase.rpc("cancel_session_slot", { p_slot_id: slotId });
+  if (error) throw error;
+}
+
+/**
+ * The current user's calendar feed token; reset issues a new one and retires the old URL.
+ */
+export async function getCalendarFeedToken({ reset = false }: { reset?: boolean } = {}): Promise<string> {
+  const { data, error } = await supabase.rpc("calendar_feed_token", { p_reset: reset });
+  if (error) throw error;
+  return data as string;
+}
+
+// Minutes since local midnight for "HH:MM"
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Building a formatter is slow and suggestions check hundreds of instants
+const localFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Weekday and minute of the day an instant falls on in a timezone
+function localTime(instant: Date, timezone: string): { day: number; minute: number } {
+  let formatter = localFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    localFormatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  return {
+    day: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday")),
+    minute: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+function isAvailable(writer: WriterSchedule, instant: Date): boolean {
+  const { day, minute } = localTime(instant, writer.timezone || "UTC");
+  return writer.weekly_availability.some(
+    (w) => w.day === day && toMinutes(w.start) <= minute && minute < toMinutes(w.end)
+  );
+}
+
+const SUGGESTION_STEP_MINUTES = 30;
+
+/**
+ * Upcoming windows when every writer is free according to their weekly
+ * availability, checked in half-hour steps. Writers who haven't set any
+ * availability are left out of the check (see missingAvailability).
+ */
+export function suggestOverlappingSlots(
+  writers: WriterSchedule[],
+  { from = new Date(), days = 14, minMinutes = 60, limit = 5 } = {}
+): Array<{ start: Date; end: Date }> {
+  const considered = writers.filter((w) => w.weekly_availability.length > 0);
+  if (considered.length === 0) return [];
+
+  const stepMs = SUGGESTION_STEP_MINUTES * 60000;
+  // Start on the next half hour
+  let cursor = Math.ceil(from.getTime() / stepMs) * stepMs;
+  const until = from.getTime() + days * 86400000;
+
+  const windows: Array<{ start: Date; end: Date }> = [];
+  let openedAt: number | null = null;
+
+  for (; cursor <= until && windows.length < limit; cursor += stepMs) {
+    const free = cursor < until && considered.every((w) => isAvailable(w, new Date(cursor)));
+    if (free && openedAt === null) {
+      openedAt = cursor;
+    } else if (!free && openedAt !== null) {
+      if (cursor - openedAt >= minMinutes * 60000) windows.push({ start: new Date(openedAt), end: new Date(cursor) });
+      openedAt = null;
+    }
+  }
+
+  return windows;
+}
+
+export function missingAvailability(writers: WriterSchedule[]): WriterSchedule[] {
+  return writers.filter((w) => w.weekly_availability.length === 0);
+}
+
+/**
+ * "Sat 14 Jun, 19:00–21:30" in the viewer's own timezone.
+ */
+export function formatSlotRange(startsAt: string | Date, endsAt: string | Date): string {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString([], { weekday: "short", day: "numeric", month: "short" });
+  const time = (d: Date) => d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return start.toDateString() === end.toDateString()
+    ? `${day}, ${time(start)}–${time(end)}`
+    : `${day}, ${time(start)} – ${end.toLocaleDateString([], { weekday: "short" })} ${time(end)}`;
+}
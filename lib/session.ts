@@ -1 +1,549 @@
+import { supabase } from "@/lib/supabaseClient";
+import { resolveWriters, writerDisplayName } from "@/lib/profiles";
 
+// Keep in sync with enforce_session_participant_limit() in add_session_participants.sql
+export const MAX_SESSION_PARTICIPANTS = 8;
+
+// Styles a session can be started (or imported) with
+export const SESSION_STYLES = [
+  { value: "fantasy", label: "Fantasy", emoji: "🧙" },
+  { value: "sci-fi", label: "Sci-Fi", emoji: "🚀" },
+  { value: "gothic", label: "Gothic", emoji: "🦇" },
+  { value: "egypt", label: "Egypt", emoji: "🏺" },
+  { value: "modern", label: "Modern", emoji: "🏙️" },
+  { value: "medieval", label: "Medieval", emoji: "⚔️" },
+  { value: "steampunk", label: "Steampunk", emoji: "⚙️" },
+  { value: "cyberpunk", label: "Cyberpunk", emoji: "🤖" },
+];
+
+// Keep in sync with enforce_session_status_transition() in add_session_status.sql
+export type SessionStatus = "pending" | "active" | "paused" | "declined" | "expired" | "closed";
+
+// Reopening a closed session takes every writer's agreement: agreeToReopenSession()
+export type SessionAction = "pause" | "resume" | "close";
+
+export const sessionStatuses: Record<SessionStatus, { label: string; badgeClass: string }> = {
+  pending: { label: "Awaiting invitees", badgeClass: "bg-purple-100 text-purple-700" },
+  active: { label: "Active", badgeClass: "bg-green-100 text-green-700" },
+  paused: { label: "Paused", badgeClass: "bg-yellow-100 text-yellow-700" },
+  declined: { label: "Declined", badgeClass: "bg-gray-100 text-gray-600" },
+  expired: { label: "Expired", badgeClass: "bg-gray-100 text-gray-600" },
+  closed: { label: "Closed", badgeClass: "bg-red-100 text-red-700" },
+};
+
+// Which statuses each action may start from, and where it leads
+const sessionActions: Record<SessionAction, { from: SessionStatus[]; to: SessionStatus }> = {
+  pause: { from: ["active"], to: "paused" },
+  resume: { from: ["paused"], to: "active" },
+  close: { from: ["pending", "active", "paused"], to: "closed" },
+};
+
+export function canTransitionSession(status: SessionStatus, action: SessionAction): boolean {
+  return sessionActions[action].from.includes(status);
+}
+
+/**
+ * Pause, resume or close a session. The database checks the
+ * transition and records who made it and when.
+ */
+export async function transitionSession(sessionId: string, action: SessionAction): Promise<SessionStatus> {
+  const { to } = sessionActions[action];
+  const { error } = await supabase
+    .from("rp_sessions")
+    .update({ status: to })
+    .eq("id", sessionId);
+
+  if (error) throw error;
+  return to;
+}
+
+/**
+ * Agree (or take back agreement) to reopen a closed session. Returns true
+ * when everyone has now agreed and the session is active again.
+ */
+export async function agreeToReopenSession(sessionId: string, agree = true): Promise<boolean> {
+  const { data, error } = await supabase.rpc("agree_to_reopen_session", {
+    p_session_id: sessionId,
+    p_agree: agree,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+/**
+ * Start the sequel to a session: same name (unless given), style, writers and
+ * characters. The other writers are invited as usual. Returns the new session id.
+ */
+export async function startSessionSequel(sessionId: string, name: string | null = null): Promise<string> {
+  const { data, error } = await supabase.rpc("start_session_sequel", {
+    p_session_id: sessionId,
+    p_name: name,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export type SeriesPart = {
+  id: string;
+  name: string | null;
+  status: SessionStatus;
+  // 1-based position in the series
+  part: number;
+};
+
+/**
+ * Every session in the series this one belongs to, first part first. A
+ * session without prequel or sequel comes back on its own.
+ */
+export async function loadSessionSeries(sessionId: string): Promise<SeriesPart[]> {
+  const { data, error } = await supabase.rpc("session_series", { p_session_id: sessionId });
+  if (error) throw error;
+  return (data || []) as SeriesPart[];
+}
+
+/**
+ * Fork a session at a message: a new session with the transcript up to and
+ * including it, the same writers (invited) and characters. Returns its id.
+ */
+export async function branchSession(messageId: string, name: string | null = null): Promise<string> {
+  const { data, error } = await supabase.rpc("branch_session", {
+    p_message_id: messageId,
+    p_name: name,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export type SessionBranch = {
+  id: string;
+  name: string | null;
+  status: SessionStatus;
+  // The message in the original session the branch continues from
+  branched_from_message_id: string | null;
+  created_at: string;
+};
+
+/**
+ * Branches forked from a session that the current user can see, oldest first.
+ */
+export async function loadSessionBranches(sessionId: string): Promise<SessionBranch[]> {
+  const { data, error } = await supabase
+    .from("rp_sessions")
+    .select("id, name, status, branched_from_message_id, created_at")
+    .eq("branched_from_session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SessionBranch[];
+}
+
+/**
+ * Roll dice into the session, e.g. "2d6+3". The database does the rolling and
+ * posts the message; it arrives through the usual realtime subscription.
+ */
+export async function rollDice(
+  sessionId: string,
+  expression: string,
+  { characterId = null, label = null }: { characterId?: string | null; label?: string | null } = {}
+): Promise<string> {
+  const { data, error } = await supabase.rpc("roll_dice", {
+    p_session_id: sessionId,
+    p_expression: expression,
+    p_character_id: characterId,
+    p_label: label,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Keep in sync with rp_sessions_turn_order_check in add_session_turns.sql
+export type TurnOrder = "free" | "round_robin" | "strict";
+
+export const turnOrders: Record<TurnOrder, { label: string; description: string }> = {
+  free: { label: "Free", description: "Anyone may post; whoever has waited longest is up next" },
+  round_robin: { label: "In order", description: "Writers take turns in a fixed order" },
+  strict: { label: "Strict order", description: "Fixed order, and narration out of turn is refused" },
+};
+
+/**
+ * Hand the turn on without posting. Only the writer whose turn it is or the
+ * owner can; returns who is up now.
+ */
+export async function passSessionTurn(sessionId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc("pass_session_turn", { p_session_id: sessionId });
+  if (error) throw error;
+  return (data as string | null) || null;
+}
+
+// Keep in sync with rp_session_messages_scene_kind_check in add_session_scenes.sql
+export type SceneKind = "scene" | "chapter";
+
+export type SessionScene = {
+  id: string;
+  title: string;
+  kind: SceneKind;
+  created_at: string;
+};
+
+/**
+ * Every scene and chapter break in a session, oldest first (the table of contents).
+ */
+export async function loadSessionScenes(sessionId: string): Promise<SessionScene[]> {
+  const { data, error } = await supabase
+    .from("rp_session_messages")
+    .select("id, body, scene_kind, created_at")
+    .eq("session_id", sessionId)
+    .eq("message_type", "scene")
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    id: row.id,
+    title: row.body,
+    kind: row.scene_kind as SceneKind,
+    created_at: row.created_at,
+  }));
+}
+
+/**
+ * Replace the text of one of your messages. The database keeps the old text
+ * as a revision and stamps edited_at.
+ */
+export async function editSessionMessage(messageId: string, body: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_messages")
+    .update({ body })
+    .eq("id", messageId);
+
+  if (error) throw error;
+}
+
+/**
+ * Soft-delete one of your messages. It stays in the transcript as a tombstone;
+ * the text moves into the revision history.
+ */
+export async function deleteSessionMessage(messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_messages")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", messageId);
+
+  if (error) throw error;
+}
+
+export type MessageRevision = {
+  id: string;
+  body: string;
+  edited_by: string | null;
+  // When this body was replaced
+  created_at: string;
+};
+
+/**
+ * Earlier versions of a message, oldest first.
+ */
+export async function loadMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+  const { data, error } = await supabase
+    .from("rp_session_message_revisions")
+    .select("id, body, edited_by, created_at")
+    .eq("message_id", messageId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export type InviteStatus = "pending" | "accepted" | "declined" | "expired";
+
+export type SessionParticipant = {
+  user_id: string;
+  role: "owner" | "writer";
+  invite_status: InviteStatus;
+  invited_by: string | null;
+  invite_expires_at: string | null;
+  joined_at: string;
+  left_at: string | null;
+  last_seen_at: string | null;
+  // Closed sessions: when this writer agreed to reopen
+  reopen_agreed_at: string | null;
+  name: string;
+  portrait_url: string | null;
+};
+
+/**
+ * Load participants (with writer name and portrait) for several sessions at once.
+ * Returns a map of session id -> participants, owner first.
+ */
+export async function loadParticipantsForSessions(
+  sessionIds: string[],
+  { includeLeft = false }: { includeLeft?: boolean } = {}
+): Promise<Record<string, SessionParticipant[]>> {
+  const bySession: Record<string, SessionParticipant[]> = {};
+  if (sessionIds.length === 0) return bySession;
+
+  let query = supabase
+    .from("rp_session_participants")
+    .select("session_id, user_id, role, invite_status, invited_by, invite_expires_at, joined_at, left_at, last_seen_at, reopen_agreed_at")
+    .in("session_id", sessionIds)
+    .order("joined_at", { ascending: true });
+
+  if (!includeLeft) {
+    query = query.is("left_at", null);
+  }
+
+  const { data: rows, error } = await query;
+  if (error) throw error;
+  if (!rows || rows.length === 0) return bySession;
+
+  const writerByUser = await resolveWriters(rows.map((r) => r.user_id));
+
+  for (const row of rows) {
+    const writer = writerByUser.get(row.user_id);
+    (bySession[row.session_id] ||= []).push({
+      user_id: row.user_id,
+      role: row.role,
+      invite_status: row.invite_status,
+      invited_by: row.invited_by,
+      invite_expires_at: row.invite_expires_at,
+      joined_at: row.joined_at,
+      left_at: row.left_at,
+      last_seen_at: row.last_seen_at,
+      reopen_agreed_at: row.reopen_agreed_at,
+      name: writerDisplayName(row.user_id, writer),
+      portrait_url: writer?.portrait_url || null,
+    });
+  }
+
+  for (const list of Object.values(bySession)) {
+    list.sort((a, b) => (a.role === "owner" ? -1 : b.role === "owner" ? 1 : 0));
+  }
+
+  return bySession;
+}
+
+/**
+ * Load participants for a single session.
+ */
+export async function loadSessionParticipants(
+  sessionId: string,
+  options: { includeLeft?: boolean } = {}
+): Promise<SessionParticipant[]> {
+  const bySession = await loadParticipantsForSessions([sessionId], options);
+  return bySession[sessionId] || [];
+}
+
+/**
+ * Ids of sessions the user currently participates in.
+ * Sessions they're only invited to are left out unless includePending is set.
+ */
+export async function loadMySessionIds(
+  userId: string,
+  { includePending = false }: { includePending?: boolean } = {}
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("rp_session_participants")
+    .select("session_id")
+    .eq("user_id", userId)
+    .is("left_at", null)
+    .in("invite_status", includePending ? ["accepted", "pending"] : ["accepted"]);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.session_id);
+}
+
+/**
+ * Invite writers to a session. Only the session owner is allowed to do this (RLS).
+ * Each invitee has to accept (and pick characters) before they can post.
+ */
+export async function addSessionParticipants(sessionId: string, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("rp_session_participants")
+    .upsert(
+      userIds.map((userId) => ({
+        session_id: sessionId,
+        user_id: userId,
+        role: "writer",
+        invite_status: "pending",
+        left_at: null,
+      })),
+      { onConflict: "session_id,user_id" }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Accept an invitation: attach the chosen characters, then flip the invite.
+ * The database rejects the accept if no character was attached.
+ */
+export async function acceptSessionInvitation(
+  sessionId: string,
+  userId: string,
+  characterIds: string[]
+): Promise<void> {
+  if (characterIds.length === 0) {
+    throw new Error("Select at least one character");
+  }
+
+  const { error: charError } = await supabase
+    .from("rp_session_characters")
+    .upsert(
+      characterIds.map((characterId) => ({ session_id: sessionId, character_id: characterId })),
+      { onConflict: "session_id,character_id", ignoreDuplicates: true }
+    );
+
+  if (charError) throw charError;
+
+  const { error } = await supabase
+    .from("rp_session_participants")
+    .update({ invite_status: "accepted" })
+    .eq("session_id", sessionId)
+    .eq("user_id", userId)
+    .eq("invite_status", "pending");
+
+  if (error) throw error;
+}
+
+export async function declineSessionInvitation(sessionId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_participants")
+    .update({ invite_status: "declined" })
+    .eq("session_id", sessionId)
+    .eq("user_id", userId)
+    .eq("invite_status", "pending");
+
+  if (error) throw error;
+}
+
+/**
+ * Bring another of your characters into a session you're writing in.
+ */
+export async function addSessionCharacter(sessionId: string, characterId: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_characters")
+    .upsert(
+      { session_id: sessionId, character_id: characterId },
+      { onConflict: "session_id,character_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Take one of your characters out of a session. Their past posts keep their name.
+ */
+export async function removeSessionCharacter(sessionId: string, characterId: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_characters")
+    .delete()
+    .eq("session_id", sessionId)
+    .eq("character_id", characterId);
+
+  if (error) throw error;
+}
+
+export type SessionInvitation = {
+  session_id: string;
+  session_name: string | null;
+  invited_by: string | null;
+  inviter_name: string;
+  inviter_portrait_url: string | null;
+  invite_expires_at: string | null;
+};
+
+/**
+ * Open invitations addressed to the user, newest first.
+ */
+export async function loadPendingInvitations(userId: string): Promise<SessionInvitation[]> {
+  const { data: rows, error } = await supabase
+    .from("rp_session_participants")
+    .select("session_id, invited_by, invite_expires_at, created_at, rp_sessions(name)")
+    .eq("user_id", userId)
+    .eq("invite_status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return [];
+
+  const writerByUser = await resolveWriters(rows.map((r) => r.invited_by));
+
+  return rows.map((row) => {
+    const writer = row.invited_by ? writerByUser.get(row.invited_by) : undefined;
+    const session = Array.isArray(row.rp_sessions) ? row.rp_sessions[0] : row.rp_sessions;
+    return {
+      session_id: row.session_id,
+      session_name: session?.name ?? null,
+      invited_by: row.invited_by,
+      inviter_name: row.invited_by ? writerDisplayName(row.invited_by, writer) : "Someone",
+      inviter_portrait_url: writer?.portrait_url || null,
+      invite_expires_at: row.invite_expires_at,
+    };
+  });
+}
+
+export type InvitationOutcome = {
+  session_id: string;
+  session_name: string | null;
+  user_id: string;
+  name: string;
+  invite_status: Exclude<InviteStatus, "pending">;
+  responded_at: string;
+};
+
+/**
+ * Answers to invitations the user sent that they haven't dismissed yet.
+ */
+export async function loadInvitationOutcomes(userId: string): Promise<InvitationOutcome[]> {
+  const { data: rows, error } = await supabase
+    .from("rp_session_participants")
+    .select("session_id, user_id, invite_status, responded_at, rp_sessions(name)")
+    .eq("invited_by", userId)
+    .neq("user_id", userId)
+    .not("responded_at", "is", null)
+    .is("response_seen_at", null)
+    .order("responded_at", { ascending: false });
+
+  if (error) throw error;
+  if (!rows || rows.length === 0) return [];
+
+  const writerByUser = await resolveWriters(rows.map((r) => r.user_id));
+
+  return rows.map((row) => {
+    const session = Array.isArray(row.rp_sessions) ? row.rp_sessions[0] : row.rp_sessions;
+    return {
+      session_id: row.session_id,
+      session_name: session?.name ?? null,
+      user_id: row.user_id,
+      name: writerDisplayName(row.user_id, writerByUser.get(row.user_id)),
+      invite_status: row.invite_status,
+      responded_at: row.responded_at,
+    };
+  });
+}
+
+export async function markInvitationOutcomeSeen(sessionId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_participants")
+    .update({ response_seen_at: new Date().toISOString() })
+    .eq("session_id", sessionId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
+
+/**
+ * "Ann", "Ann & Bo", "Ann, Bo & Cy"
+ */
+export function formatParticipantNames(participants: Array<{ name: string }>): string {
+  const names = participants.map((p) => p.name);
+  if (names.length <= 1) return names[0] || "";
+  return `${names.slice(0, -1).join(", ")} & ${names[names.length - 1]}`;
+}
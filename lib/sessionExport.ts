@@ -0,0 +1,386 @@
+import { RollResult, formatRoll } from "@/lib/dice";
+import type { SceneKind } from "@/lib/session";
+import { ContentRating, contentRatings } from "@/lib/contentRatings";
+import { createZip } from "@/lib/zip";
+
+// Renders a session transcript as Markdown, standalone HTML or EPUB.
+// Pure functions: loading the data is up to the caller (see
+// app/session/[sessionId]/export/route.ts).
+
+export type ExportFormat = "md" | "html" | "epub";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; contentType: string }> = {
+  md: { label: "Markdown", extension: "md", contentType: "text/markdown; charset=utf-8" },
+  html: { label: "HTML", extension: "html", contentType: "text/html; charset=utf-8" },
+  epub: { label: "EPUB", extension: "epub", contentType: "application/epub+zip" },
+};
+
+export type TranscriptEntry = {
+  id: string;
+  message_type: "ooc" | "narration" | "roll" | "scene";
+  body: string;
+  created_at: string;
+  author_name: string;
+  character_name: string | null;
+  character_portrait: string | null;
+  roll_result: RollResult | null;
+  scene_kind: SceneKind | null;
+};
+
+export type Transcript = {
+  session_id: string;
+  title: string;
+  style: string | null;
+  content_rating: ContentRating;
+  content_warnings: string[];
+  writers: string[];
+  characters: Array<{ name: string; portrait_url: string | null }>;
+  started_at: string;
+  entries: TranscriptEntry[];
+};
+
+// Plain-CSS take on the session page's style frames
+const STYLE_PALETTES: Record<string, { background: string; text: string; accent: string; narration: string }> = {
+  fantasy: { background: "#1e1033", text: "#ede9fe", accent: "#c084fc", narration: "#2e1065" },
+  "sci-fi": { background: "#0b1220", text: "#e0f2fe", accent: "#22d3ee", narration: "#0c2733" },
+  gothic: { background: "#0a0a0a", text: "#f5f5f4", accent: "#dc2626", narration: "#1c0a0a" },
+  egypt: { background: "#2a1d07", text: "#fef3c7", accent: "#f59e0b", narration: "#3d2a0a" },
+  modern: { background: "#0f172a", text: "#f1f5f9", accent: "#94a3b8", narration: "#1e293b" },
+  medieval: { background: "#1c1410", text: "#fef3c7", accent: "#d97706", narration: "#2b1e12" },
+  steampunk: { background: "#1f160d", text: "#fde68a", accent: "#b45309", narration: "#2d2013" },
+  cyberpunk: { background: "#0d0221", text: "#fae8ff", accent: "#e879f9", narration: "#1d0636" },
+};
+
+const DEFAULT_PALETTE = { background: "#ffffff", text: "#111827", accent: "#7c3aed", narration: "#f5f3ff" };
+
+export function exportFileName(transcript: Transcript, format: ExportFormat): string {
+  const slug =
+    transcript.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "session";
+  return `${slug}.${EXPORT_FORMATS[format].extension}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Blank lines start a new paragraph, single newlines become <br/>
+function paragraphs(body: string): string {
+  return body
+    .trim()
+    .split(/\n\s*\n/)
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, "<br/>")}</p>`)
+    .join("\n");
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+// "Aria rolled 2d20+5 for stealth: [17, 3] + 5 = 25"
+function rollSummary(entry: TranscriptEntry): string {
+  const roller = entry.character_name || entry.author_name;
+  if (!entry.roll_result) return `${roller} rolled ${entry.body}`;
+  const { expression, label } = entry.roll_result;
+  return `${roller} rolled ${expression}${label ? ` for ${label}` : ""}: ${formatRoll(entry.roll_result)}`;
+}
+
+// "Rated Mature · Content warnings: violence, gore"
+function ratingLine(transcript: Transcript): string {
+  const parts = [`Rated ${contentRatings[transcript.content_rating].label}`];
+  if (transcript.content_warnings.length > 0) {
+    parts.push(`Content warnings: ${transcript.content_warnings.join(", ")}`);
+  }
+  return parts.join(" · ");
+}
+
+function sceneEntries(transcript: Transcript): TranscriptEntry[] {
+  return transcript.entries.filter((entry) => entry.message_type === "scene");
+}
+
+// Anchor ids for scene headings, shared by the HTML contents list and the EPUB nav
+function sceneAnchor(entry: TranscriptEntry): string {
+  return `scene-${entry.id}`;
+}
+
+// -----------------------
+// MARKDOWN
+// -----------------------
+
+export function toMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# ${transcript.title}`, ""];
+
+  const meta = [`*Written by ${transcript.writers.join(", ")}*`, `*Started ${formatDate(transcript.started_at)}*`];
+  if (transcript.style) meta.push(`*Style: ${transcript.style}*`);
+  meta.push(`*${ratingLine(transcript)}*`);
+  lines.push(meta.join("  \n"), "");
+
+  if (transcript.characters.length > 0) {
+    lines.push("## Cast", "");
+    for (const character of transcript.characters) {
+      lines.push(
+        character.portrait_url
+          ? `- ![${character.name}](${character.portrait_url}) **${character.name}**`
+          : `- **${character.name}**`
+      );
+    }
+    lines.push("");
+  }
+
+  const scenes = sceneEntries(transcript);
+  if (scenes.length > 0) {
+    lines.push("## Contents", "");
+    for (const scene of scenes) {
+      lines.push(`${scene.scene_kind === "chapter" ? "-" : "  -"} ${scene.body.trim()}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("---", "");
+
+  for (const entry of transcript.entries) {
+    if (entry.message_type === "scene") {
+      lines.push(`${entry.scene_kind === "chapter" ? "##" : "###"} ${entry.body.trim()}`, "");
+    } else if (entry.message_type === "narration") {
+      lines.push(`**${entry.character_name || "Unknown Character"}**`, "", entry.body.trim(), "");
+    } else if (entry.message_type === "roll") {
+      lines.push(`> 🎲 ${rollSummary(entry)}`, "");
+    } else {
+      const ooc = entry.body.trim().split("\n").join("\n> ");
+      lines.push(`> *OOC — ${entry.author_name}:* ${ooc}`, "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// -----------------------
+// HTML
+// -----------------------
+
+function stylesheet(style: string | null): string {
+  const palette = (style && STYLE_PALETTES[style]) || DEFAULT_PALETTE;
+  return `
+body { background: ${palette.background}; color: ${palette.text}; font-family: Georgia, "Times New Roman", serif; line-height: 1.6; margin: 0; }
+main { max-width: 42rem; margin: 0 auto; padding: 2rem 1.25rem; }
+h1 { color: ${palette.accent}; margin-bottom: 0.25rem; }
+.meta { opacity: 0.75; font-size: 0.9rem; }
+.cast { display: flex; flex-wrap: wrap; gap: 0.75rem; list-style: none; padding: 0; }
+.cast li { display: flex; align-items: center; gap: 0.5rem; }
+.portrait { width: 2.5rem; height: 2.5rem; border-radius: 9999px; object-fit: cover; border: 2px solid ${palette.accent}; }
+.narration { background: ${palette.narration}; border-left: 3px solid ${palette.accent}; padding: 0.75rem 1rem; margin: 1rem 0; border-radius: 0.25rem; }
+.narration header { display: flex; align-items: center; gap: 0.5rem; font-weight: bold; color: ${palette.accent}; }
+.narration p { margin: 0.5rem 0 0; }
+.ooc { font-family: system-ui, sans-serif; font-size: 0.85rem; opacity: 0.7; margin: 0.5rem 0; }
+.ooc p { display: inline; margin: 0; }
+.roll { font-family: system-ui, sans-serif; font-size: 0.9rem; border: 1px dashed ${palette.accent}; border-radius: 0.25rem; padding: 0.4rem 0.75rem; margin: 0.75rem 0; }
+.contents ol { padding-left: 1.25rem; }
+.contents a { color: ${palette.accent}; }
+h2, h3 { color: ${palette.accent}; margin: 2rem 0 0.5rem; }
+hr { border: 0; border-top: 1px solid ${palette.accent}; opacity: 0.4; margin: 1.5rem 0; }
+`.trim();
+}
+
+// Shared by the HTML and EPUB output, so it sticks to well-formed XHTML
+function storyBody(transcript: Transcript, portraitSrc: (url: string) => string | null): string {
+  const parts: string[] = [
+    `<h1>${escapeHtml(transcript.title)}</h1>`,
+    `<p class="meta">Written by ${escapeHtml(transcript.writers.join(", "))} · Started ${escapeHtml(
+      formatDate(transcript.started_at)
+    )}${transcript.style ? ` · ${escapeHtml(transcript.style)}` : ""}</p>`,
+    `<p class="meta">${escapeHtml(ratingLine(transcript))}</p>`,
+  ];
+
+  if (transcript.characters.length > 0) {
+    parts.push('<ul class="cast">');
+    for (const character of transcript.characters) {
+      const src = character.portrait_url ? portraitSrc(character.portrait_url) : null;
+      parts.push(
+        `<li>${src ? `<img class="portrait" src="${escapeHtml(src)}" alt="${escapeHtml(character.name)}"/>` : ""}${escapeHtml(
+          character.name
+        )}</li>`
+      );
+    }
+    parts.push("</ul>");
+  }
+
+  const scenes = sceneEntries(transcript);
+  if (scenes.length > 0) {
+    parts.push('<nav class="contents"><ol>');
+    for (const scene of scenes) {
+      parts.push(
+        `<li${scene.scene_kind === "chapter" ? "" : ' class="scene"'}><a href="#${sceneAnchor(scene)}">${escapeHtml(
+          scene.body.trim()
+        )}</a></li>`
+      );
+    }
+    parts.push("</ol></nav>");
+  }
+
+  parts.push("<hr/>");
+
+  for (const entry of transcript.entries) {
+    if (entry.message_type === "scene") {
+      const tag = entry.scene_kind === "chapter" ? "h2" : "h3";
+      parts.push(`<${tag} id="${sceneAnchor(entry)}">${escapeHtml(entry.body.trim())}</${tag}>`);
+    } else if (entry.message_type === "narration") {
+      const name = entry.character_name || "Unknown Character";
+      const src = entry.character_portrait ? portraitSrc(entry.character_portrait) : null;
+      parts.push(
+        `<section class="narration"><header>${
+          src ? `<img class="portrait" src="${escapeHtml(src)}" alt="${escapeHtml(name)}"/>` : ""
+        }${escapeHtml(name)}</header>\n${paragraphs(entry.body)}</section>`
+      );
+    } else if (entry.message_type === "roll") {
+      parts.push(`<div class="roll">🎲 ${escapeHtml(rollSummary(entry))}</div>`);
+    } else {
+      parts.push(`<div class="ooc"><strong>OOC — ${escapeHtml(entry.author_name)}:</strong> ${paragraphs(entry.body)}</div>`);
+    }
+  }
+
+  return parts.join("\n");
+}
+
+export function toHtml(transcript: Transcript): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(transcript.title)}</title>
+<style>
+${stylesheet(transcript.style)}
+</style>
+</head>
+<body>
+<main>
+${storyBody(transcript, (url) => url)}
+</main>
+</body>
+</html>
+`;
+}
+
+// -----------------------
+// EPUB
+// -----------------------
+
+export type EmbeddedImage = {
+  data: Uint8Array;
+  mediaType: string;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * EPUB 3 with a single story file; scene and chapter breaks become entries in
+ * the reader's table of contents. Portraits are only included when the caller
+ * passes their bytes in `images` (keyed by URL); EPUB readers don't load
+ * remote images.
+ */
+export function toEpub(transcript: Transcript, images: Map<string, EmbeddedImage> = new Map()): Uint8Array {
+  const imageFiles = new Map<string, { path: string; mediaType: string; data: Uint8Array }>();
+  let index = 0;
+  for (const [url, image] of images) {
+    const extension = IMAGE_EXTENSIONS[image.mediaType];
+    if (!extension) continue;
+    index += 1;
+    imageFiles.set(url, { path: `images/portrait-${index}.${extension}`, mediaType: image.mediaType, data: image.data });
+  }
+
+  const title = escapeHtml(transcript.title);
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+
+  const story = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+<title>${title}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<main>
+${storyBody(transcript, (url) => imageFiles.get(url)?.path || null)}
+</main>
+</body>
+</html>
+`;
+
+  const scenes = sceneEntries(transcript);
+  const tocEntries =
+    scenes.length > 0
+      ? `<ol>${scenes
+          .map((scene) => `<li><a href="story.xhtml#${sceneAnchor(scene)}">${escapeHtml(scene.body.trim())}</a></li>`)
+          .join("")}</ol>`
+      : "";
+
+  const nav = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head><title>${title}</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<ol><li><a href="story.xhtml">${title}</a>${tocEntries}</li></ol>
+</nav>
+</body>
+</html>
+`;
+
+  const manifestImages = Array.from(imageFiles.values())
+    .map((img, i) => `    <item id="img${i + 1}" href="${img.path}" media-type="${img.mediaType}"/>`)
+    .join("\n");
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${transcript.session_id}</dc:identifier>
+    <dc:title>${title}</dc:title>
+${transcript.writers.map((w) => `    <dc:creator>${escapeHtml(w)}</dc:creator>`).join("\n")}
+    <dc:language>en</dc:language>
+    <dc:date>${transcript.started_at.slice(0, 10)}</dc:date>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="story" href="story.xhtml" media-type="application/xhtml+xml"/>
+    <item id="css" href="style.css" media-type="text/css"/>
+${manifestImages}
+  </manifest>
+  <spine>
+    <itemref idref="story"/>
+  </spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+  return createZip([
+    // Must be the first entry, stored
+    { name: "mimetype", data: "application/epub+zip" },
+    { name: "META-INF/container.xml", data: container },
+    { name: "OEBPS/content.opf", data: opf },
+    { name: "OEBPS/nav.xhtml", data: nav },
+    { name: "OEBPS/story.xhtml", data: story },
+    { name: "OEBPS/style.css", data: stylesheet(transcript.style) },
+    ...Array.from(imageFiles.values()).map((img) => ({ name: `OEBPS/${img.path}`, data: img.data })),
+  ]);
+}
@@ -0,0 +1,221 @@
+import { supabase } from "@/lib/supabaseClient";
+import { ContentRating } from "@/lib/contentRatings";
+
+// Parses chat exports from Discord (and similar) into speaker lines, then
+// hands the mapped messages to import_session() in add_session_imports.sql
+// (rated in add_session_content_ratings.sql).
+
+export type ImportSource = "discord_json" | "text";
+
+export const importSources: Record<ImportSource, string> = {
+  discord_json: "a Discord export",
+  text: "a text log",
+};
+
+export type ImportedLine = {
+  speaker: string;
+  body: string;
+  // null when the log had no timestamp for this line
+  created_at: string | null;
+};
+
+export type ParsedLog = {
+  source: ImportSource;
+  // Channel name from JSON exports, used as the default session name
+  title: string | null;
+  lines: ImportedLine[];
+};
+
+// Keep in sync with import_session() in add_session_imports.sql
+export const MAX_IMPORT_MESSAGES = 20000;
+
+type JsonAuthor = string | { nickname?: string; name?: string; username?: string; global_name?: string } | null;
+
+type JsonMessage = {
+  author?: JsonAuthor;
+  username?: string;
+  content?: string;
+  text?: string;
+  timestamp?: string;
+  created_at?: string;
+  date?: string;
+};
+
+function authorName(message: JsonMessage): string | null {
+  const author = message.author;
+  if (typeof author === "string") return author;
+  if (author) return author.nickname || author.global_name || author.name || author.username || null;
+  return message.username || null;
+}
+
+function validTimestamp(value: string | undefined | null): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * JSON exports: DiscordChatExporter's `{ channel, messages: [...] }` or a bare
+ * array of `{ author, content, timestamp }`-ish objects.
+ */
+export function parseDiscordJson(text: string): ParsedLog {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON");
+  }
+
+  const root = (data || {}) as { messages?: unknown; channel?: { name?: string } | null };
+  const messages = Array.isArray(data) ? data : Array.isArray(root.messages) ? root.messages : null;
+  if (!messages) {
+    throw new Error("Couldn't find a list of messages in this JSON file");
+  }
+
+  const lines: ImportedLine[] = [];
+  for (const message of messages as Array<JsonMessage | null>) {
+    // Stray nulls and numbers aren't messages
+    if (typeof message !== "object" || !message) continue;
+    const speaker = authorName(message);
+    const body = (message.content ?? message.text ?? "").trim();
+    // Attachments, embeds and system events have no text to keep
+    if (!speaker || !body) continue;
+    lines.push({
+      speaker: speaker.trim(),
+      body,
+      created_at: validTimestamp(message.timestamp || message.created_at || message.date),
+    });
+  }
+
+  return {
+    source: "discord_json",
+    title: (!Array.isArray(data) && root.channel?.name) || null,
+    lines,
+  };
+}
+
+// "[2023-04-01 18:22] Name: text", "[4/1/2023 6:22 PM] Name: text" or "Name: text"
+// Speaker names can't contain sentence punctuation, so "He said: run" stays prose
+const TEXT_LINE = /^(?:\[([^\]]+)\]\s*)?([^:\[\].,!?"\n]{1,32}):\s?(.*)$/;
+
+/**
+ * Plain-text logs, one `Name: text` line per message. Lines that don't start
+ * with a speaker continue the previous message.
+ */
+export function parsePlainText(text: string): ParsedLog {
+  const lines: ImportedLine[] = [];
+
+  for (const raw of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const match = raw.match(TEXT_LINE);
+    if (match) {
+      lines.push({ speaker: match[2].trim(), body: match[3], created_at: validTimestamp(match[1]) });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1].body += `\n${raw}`;
+    }
+  }
+
+  return {
+    source: "text",
+    title: null,
+    lines: lines
+      .map((line) => ({ ...line, body: line.body.trim() }))
+      .filter((line) => line.speaker && line.body),
+  };
+}
+
+export function parseChatLog(fileName: string, text: string): ParsedLog {
+  const looksLikeJson = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+  const parsed = looksLikeJson ? parseDiscordJson(text) : parsePlainText(text);
+
+  if (parsed.lines.length === 0) {
+    throw new Error("No messages found. Expected a Discord JSON export or `Name: text` lines.");
+  }
+  if (parsed.lines.length > MAX_IMPORT_MESSAGES) {
+    throw new Error(`Imports are limited to ${MAX_IMPORT_MESSAGES} messages`);
+  }
+  return parsed;
+}
+
+/** Distinct speakers with how many lines each wrote, most active first. */
+export function listSpeakers(lines: ImportedLine[]): Array<{ speaker: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const line of lines) counts.set(line.speaker, (counts.get(line.speaker) || 0) + 1);
+  return Array.from(counts, ([speaker, count]) => ({ speaker, count })).sort((a, b) => b.count - a.count);
+}
+
+// Common Discord conventions for out-of-character chatter
+export function isOocLine(body: string): boolean {
+  return /^(\(\(|\/\/|ooc\b|\[ooc\])/i.test(body.trim());
+}
+
+export type SpeakerMapping = {
+  user_id: string;
+  // No character = everything this speaker wrote is OOC
+  character_id: string | null;
+};
+
+// Lines without a timestamp go a second after the previous one (or before the
+// first known one), so their order survives. Logs with none at all end now.
+function fillTimestamps(lines: ImportedLine[]): string[] {
+  const firstKnown = lines.findIndex((line) => line.created_at);
+  let previous =
+    firstKnown === -1
+      ? Date.now() - lines.length * 1000
+      : Date.parse(lines[firstKnown].created_at!) - (firstKnown + 1) * 1000;
+
+  return lines.map((line) => {
+    previous = line.created_at ? Date.parse(line.created_at) : previous + 1000;
+    return new Date(previous).toISOString();
+  });
+}
+
+/**
+ * Create the session from a parsed log, with each speaker mapped to a writer
+ * (and optionally one of their characters). Returns the new session id.
+ */
+export async function importSession({
+  name,
+  style,
+  isPublic,
+  contentRating,
+  contentWarnings,
+  log,
+  speakers,
+}: {
+  name: string;
+  style: string | null;
+  isPublic: boolean;
+  contentRating: ContentRating;
+  contentWarnings: string[];
+  log: ParsedLog;
+  speakers: Record<string, SpeakerMapping>;
+}): Promise<string> {
+  const timestamps = fillTimestamps(log.lines);
+
+  const messages = log.lines.map((line, i) => {
+    const mapping = speakers[line.speaker];
+    if (!mapping) throw new Error(`Choose a writer for ${line.speaker}`);
+
+    const isOoc = !mapping.character_id || isOocLine(line.body);
+    return {
+      sender_id: mapping.user_id,
+      character_id: isOoc ? null : mapping.character_id,
+      message_type: isOoc ? "ooc" : "narration",
+      body: line.body,
+      created_at: timestamps[i],
+    };
+  });
+
+  const { data, error } = await supabase.rpc("import_session", {
+    p_name: name,
+    p_style: style,
+    p_is_public: isPublic,
+    p_source: log.source,
+    p_messages: messages,
+    p_content_rating: contentRating,
+    p_content_warnings: contentWarnings,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
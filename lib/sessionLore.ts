@@ -0,0 +1,125 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Per-session lorebook and pinned messages (add_session_lore.sql). Both are
+// shared by the session's writers and hidden from public viewers.
+
+export const LORE_TITLE_MAX_LENGTH = 120;
+export const LORE_BODY_MAX_LENGTH = 10000;
+
+export type LoreEntry = {
+  id: string;
+  session_id: string;
+  title: string;
+  body: string;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LoreDetails = { title: string; body: string };
+
+const LORE_COLUMNS = "id, session_id, title, body, created_by, updated_by, created_at, updated_at";
+
+/**
+ * Every lorebook entry in a session, alphabetical by title.
+ */
+export async function loadLoreEntries(sessionId: string): Promise<LoreEntry[]> {
+  const { data, error } = await supabase
+    .from("rp_session_lore_entries")
+    .select(LORE_COLUMNS)
+    .eq("session_id", sessionId)
+    .order("title", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createLoreEntry(sessionId: string, userId: string, details: LoreDetails): Promise<LoreEntry> {
+  const { data, error } = await supabase
+    .from("rp_session_lore_entries")
+    .insert({ session_id: sessionId, created_by: userId, updated_by: userId, ...details })
+    .select(LORE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateLoreEntry(entryId: string, details: LoreDetails): Promise<LoreEntry> {
+  const { data, error } = await supabase
+    .from("rp_session_lore_entries")
+    .update(details)
+    .eq("id", entryId)
+    .select(LORE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteLoreEntry(entryId: string): Promise<void> {
+  const { error } = await supabase.from("rp_session_lore_entries").delete().eq("id", entryId);
+  if (error) throw error;
+}
+
+export type SessionPin = {
+  session_id: string;
+  message_id: string;
+  pinned_by: string | null;
+  pinned_at: string;
+};
+
+// What the pinned list shows for each message; the page may not have it loaded
+export type PinnedMessage = {
+  id: string;
+  sender_id: string | null;
+  message_type: string;
+  body: string;
+  created_at: string;
+  deleted_at: string | null;
+};
+
+/**
+ * Pins in a session, oldest first.
+ */
+export async function loadSessionPins(sessionId: string): Promise<SessionPin[]> {
+  const { data, error } = await supabase
+    .from("rp_session_pins")
+    .select("session_id, message_id, pinned_by, pinned_at")
+    .eq("session_id", sessionId)
+    .order("pinned_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function loadPinnedMessages(messageIds: string[]): Promise<PinnedMessage[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("rp_session_messages")
+    .select("id, sender_id, message_type, body, created_at, deleted_at")
+    .in("id", messageIds);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function setMessagePinned(
+  sessionId: string,
+  messageId: string,
+  userId: string,
+  pinned: boolean
+): Promise<void> {
+  const { error } = pinned
+    ? await supabase
+        .from("rp_session_pins")
+        .upsert(
+          { session_id: sessionId, message_id: messageId, pinned_by: userId },
+          { onConflict: "session_id,message_id", ignoreDuplicates: true }
+        )
+    : await supabase.from("rp_session_pins").delete().eq("session_id", sessionId).eq("message_id", messageId);
+
+  if (error) throw error;
+}
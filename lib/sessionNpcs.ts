@@ -0,0 +1,69 @@
+import { supabase } from "@/lib/supabaseClient";
+
+// Session-scoped NPCs (add_session_npcs.sql): a name, portrait and note that
+// any writer in the session can narrate as. Archived rather than deleted so
+// old posts keep their speaker.
+
+export const NPC_NAME_MAX_LENGTH = 80;
+export const NPC_NOTE_MAX_LENGTH = 500;
+
+export type SessionNpc = {
+  id: string;
+  session_id: string;
+  created_by: string | null;
+  name: string;
+  portrait_url: string | null;
+  note: string | null;
+  archived_at: string | null;
+  created_at: string;
+};
+
+export type NpcDetails = {
+  name: string;
+  portrait_url: string | null;
+  note: string | null;
+};
+
+const NPC_COLUMNS = "id, session_id, created_by, name, portrait_url, note, archived_at, created_at";
+
+/**
+ * Every NPC in a session, archived ones included (old posts still need them), oldest first.
+ */
+export async function loadSessionNpcs(sessionId: string): Promise<SessionNpc[]> {
+  const { data, error } = await supabase
+    .from("rp_session_npcs")
+    .select(NPC_COLUMNS)
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createSessionNpc(sessionId: string, userId: string, details: NpcDetails): Promise<SessionNpc> {
+  const { data, error } = await supabase
+    .from("rp_session_npcs")
+    .insert({ session_id: sessionId, created_by: userId, ...details })
+    .select(NPC_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateSessionNpc(npcId: string, details: NpcDetails): Promise<void> {
+  const { error } = await supabase.from("rp_session_npcs").update(details).eq("id", npcId);
+  if (error) throw error;
+}
+
+/**
+ * Take an NPC out of the cast (or bring it back). Their past posts are kept.
+ */
+export async function setSessionNpcArchived(npcId: string, archived: boolean): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_npcs")
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq("id", npcId);
+
+  if (error) throw error;
+}
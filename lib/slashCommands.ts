@@ -0,0 +1,69 @@
+// Slash commands for the chat composers. Each page builds its own list of
+// commands around its existing actions; SlashCommandInput handles parsing,
+// autocomplete and help. To add a command, add an entry to the page's list.
+
+export type SlashCommand = {
+  // Without the slash, lowercase
+  name: string;
+  // Usage hint shown after the name, e.g. "<character>"
+  args?: string;
+  description: string;
+  // Suggestions for the argument, e.g. character names
+  suggest?: (partial: string) => string[];
+  // Throw to show an error; the composer text is kept so it can be fixed
+  run: (args: string) => void | Promise<void>;
+};
+
+/**
+ * "/as  Lady Morgana" -> { name: "as", args: "Lady Morgana" }.
+ * Returns null for ordinary messages, including "// ooc aside" style ones.
+ */
+export function parseSlashCommand(text: string): { name: string; args: string } | null {
+  const match = text.match(/^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] || "").trim() };
+}
+
+export function findSlashCommand(commands: SlashCommand[], name: string): SlashCommand | null {
+  return commands.find((command) => command.name === name) || null;
+}
+
+export type SlashSuggestion = {
+  // What the composer text becomes when picked
+  completion: string;
+  label: string;
+  description: string;
+};
+
+/**
+ * Autocomplete for the text typed so far: command names while the first word
+ * is being typed, then the command's own argument suggestions.
+ */
+export function suggestSlashCommands(commands: SlashCommand[], text: string): SlashSuggestion[] {
+  if (!text.startsWith("/") || text.startsWith("//")) return [];
+
+  const space = text.search(/\s/);
+  if (space === -1) {
+    const typed = text.slice(1).toLowerCase();
+    return commands
+      .filter((command) => command.name.startsWith(typed))
+      .map((command) => ({
+        completion: `/${command.name}${command.args ? " " : ""}`,
+        label: `/${command.name}${command.args ? ` ${command.args}` : ""}`,
+        description: command.description,
+      }));
+  }
+
+  const command = findSlashCommand(commands, text.slice(1, space).toLowerCase());
+  if (!command?.suggest) return [];
+
+  const partial = text.slice(space).trimStart();
+  return command
+    .suggest(partial)
+    .filter((option) => option.toLowerCase().startsWith(partial.toLowerCase()) && option !== partial)
+    .map((option) => ({
+      completion: `/${command.name} ${option}`,
+      label: option,
+      description: `/${command.name}`,
+    }));
+}
@@ -0,0 +1,100 @@
+import { supabase } from "@/lib/supabaseClient";
+import { resolveWriters, writerDisplayName } from "@/lib/profiles";
+
+// Side-chat for viewers of a public session (add_spectator_chat.sql). Kept
+// apart from rp_session_messages so it never shows up in the story.
+
+// How much chat history the panel loads; older lines aren't paged in
+export const SPECTATOR_CHAT_HISTORY = 100;
+
+export const SPECTATOR_MESSAGE_MAX_LENGTH = 1000;
+
+export type SpectatorMessage = {
+  id: string;
+  session_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+  sender_name: string;
+  sender_portrait: string | null;
+};
+
+type SpectatorMessageRow = Omit<SpectatorMessage, "sender_name" | "sender_portrait">;
+
+/**
+ * Attach writer names/portraits (shared profile cache).
+ */
+export async function withSpectatorInfo(rows: SpectatorMessageRow[]): Promise<SpectatorMessage[]> {
+  const writerByUser = await resolveWriters(rows.map((r) => r.sender_id));
+  return rows.map((row) => {
+    const writer = writerByUser.get(row.sender_id);
+    return {
+      ...row,
+      sender_name: writerDisplayName(row.sender_id, writer),
+      sender_portrait: writer?.portrait_url || null,
+    };
+  });
+}
+
+/**
+ * The latest spectator chat lines, oldest first.
+ */
+export async function loadSpectatorMessages(sessionId: string): Promise<SpectatorMessage[]> {
+  const { data, error } = await supabase
+    .from("rp_session_spectator_messages")
+    .select("id, session_id, sender_id, body, created_at")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: false })
+    .limit(SPECTATOR_CHAT_HISTORY);
+
+  if (error) throw error;
+  return withSpectatorInfo((data || []).reverse());
+}
+
+export async function sendSpectatorMessage(sessionId: string, userId: string, body: string): Promise<void> {
+  const { error } = await supabase
+    .from("rp_session_spectator_messages")
+    .insert({ session_id: sessionId, sender_id: userId, body });
+
+  if (error) throw error;
+}
+
+export async function deleteSpectatorMessage(messageId: string): Promise<void> {
+  const { error } = await supabase.from("rp_session_spectator_messages").delete().eq("id", messageId);
+  if (error) throw error;
+}
+
+/**
+ * User ids of muted viewers in a session.
+ */
+export async function loadSpectatorMutes(sessionId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("rp_session_spectator_mutes")
+    .select("user_id")
+    .eq("session_id", sessionId);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.user_id);
+}
+
+/**
+ * Mute or unmute a viewer. Only writers in the session can (RLS), and never
+ * each other.
+ */
+export async function setSpectatorMuted(
+  sessionId: string,
+  userId: string,
+  mutedBy: string,
+  muted: boolean
+): Promise<void> {
+  const { error } = muted
+    ? await supabase
+        .from("rp_session_spectator_mutes")
+        .upsert(
+          { session_id: sessionId, user_id: userId, muted_by: mutedBy },
+          { onConflict: "session_id,user_id", ignoreDuplicates: true }
+        )
+    : await supabase.from("rp_session_spectator_mutes").delete().eq("session_id", sessionId).eq("user_id", userId);
+
+  if (error) throw error;
+}